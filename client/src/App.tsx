@@ -1,16 +1,24 @@
+import { useEffect } from 'react';
 import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { PulseDashboard } from '@/views/PulseDashboard';
 import { ClosingEventView } from '@/views/ClosingEventView';
 import { GoalsSummaryView } from '@/views/GoalsSummaryView';
 import { GoalDetailView } from '@/views/GoalDetailView';
+import { SeasonsView } from '@/views/SeasonsView';
+import { SeasonDetailView } from '@/views/SeasonDetailView';
 import { ExpenseQuickAdd } from '@/views/ExpenseQuickAdd';
 import { ExpensesView } from '@/views/ExpensesView';
+import { ExpenseImportView } from '@/views/ExpenseImportView';
+import { SettingsView } from '@/views/SettingsView';
+import { LoginView } from '@/views/LoginView';
 import { TabBar } from '@/components/TabBar';
 import { QuickAddModal } from '@/components/QuickAddModal';
 import { IntegrityModal } from '@/components/IntegrityModal';
+import { useAuthStore } from '@/store/authStore';
 
 // Pages where TabBar should NOT be shown
-const HIDDEN_TAB_ROUTES = ['/expense/add', '/expense/edit/', '/goals/'];
+const HIDDEN_TAB_ROUTES = ['/expense/add', '/expense/import', '/expense/edit/', '/goals/', '/seasons/'];
 
 function AppContent() {
   const location = useLocation();
@@ -34,9 +42,13 @@ function AppContent() {
         <Route path="/weekly" element={<ClosingEventView />} />
         <Route path="/goals" element={<GoalsSummaryView />} />
         <Route path="/goals/:id" element={<GoalDetailView />} />
+        <Route path="/seasons" element={<SeasonsView />} />
+        <Route path="/seasons/:id" element={<SeasonDetailView />} />
         <Route path="/expenses" element={<ExpensesView />} />
         <Route path="/expense/add" element={<ExpenseQuickAdd />} />
         <Route path="/expense/edit/:id" element={<ExpenseQuickAdd />} />
+        <Route path="/expense/import" element={<ExpenseImportView />} />
+        <Route path="/settings" element={<SettingsView />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
       
@@ -48,7 +60,15 @@ function AppContent() {
 }
 
 function App() {
-  return <AppContent />;
+  const token = useAuthStore((state) => state.token);
+  const queryClient = useQueryClient();
+
+  // Nothing cached for one account may show up for the next
+  useEffect(() => {
+    if (!token) queryClient.clear();
+  }, [token, queryClient]);
+
+  return token ? <AppContent /> : <LoginView />;
 }
 
 export default App;
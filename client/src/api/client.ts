@@ -1,40 +1,38 @@
+import { apiRoutes } from '@contracts';
+import { useAuthStore } from '@/store/authStore';
 import type {
-  Task,
-  WorkLog,
-  Expense,
-  RecurringExpense,
-  Goal,
-  GoalLog,
-  GoalStats,
-  WeeklySummary,
-  CreateTaskRequest,
-  UpdateTaskRequest,
-  CreateSubTaskRequest,
-  UpdateSubTaskRequest,
-  CreateWorkLogRequest,
-  CreateExpenseRequest,
-  UpdateExpenseRequest,
-  CreateRecurringExpenseRequest,
-  UpdateRecurringExpenseRequest,
-  CreateGoalRequest,
-  UpdateGoalRequest,
-  CreateGoalLogRequest,
-  UpdateGoalLogRequest,
+  ApiRoutes,
+  RouteContract,
+  RouteInput,
+  RouteResponse,
+  FieldError,
+  ValidationErrorResponse,
 } from '@/types';
 
 // Use environment variable for production, proxy for development
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
+// Thrown for every non-2xx response. Contract violations (400) also carry
+// the failing fields, so forms can show each message next to its input.
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public fieldErrors: FieldError[] = []) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 // Request options with optional purpose for logging
 interface RequestOptions extends RequestInit {
   purpose?: string;
+  // File downloads come back as text
+  responseType?: 'json' | 'text';
 }
 
 async function request<T>(
   endpoint: string,
   options: RequestOptions = {}
 ): Promise<T> {
-  const { purpose, ...fetchOptions } = options;
+  const { purpose, responseType = 'json', ...fetchOptions } = options;
   
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
@@ -45,6 +43,11 @@ async function request<T>(
   if (purpose) {
     (headers as Record<string, string>)['X-Purpose'] = purpose;
   }
+
+  const { token } = useAuthStore.getState();
+  if (token) {
+    (headers as Record<string, string>).Authorization = `Bearer ${token}`;
+  }
   
   const response = await fetch(`${API_BASE}${endpoint}`, {
     ...fetchOptions,
@@ -52,8 +55,12 @@ async function request<T>(
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ message: 'Request failed' }));
-    throw new Error(error.message || `HTTP ${response.status}`);
+    // The session expired or was revoked; dropping it sends the app back to sign-in
+    if (response.status === 401 && token) {
+      useAuthStore.getState().clearSession();
+    }
+    const error: Partial<ValidationErrorResponse> = await response.json().catch(() => ({ message: 'Request failed' }));
+    throw new ApiError(error.message || `HTTP ${response.status}`, response.status, error.errors ?? []);
   }
 
   // Handle 204 No Content responses
@@ -61,190 +68,58 @@ async function request<T>(
     return undefined as T;
   }
 
-  return response.json();
+  return responseType === 'text' ? (response.text() as Promise<T>) : response.json();
 }
 
-// Tasks API
-export const tasksApi = {
-  getAll: (purpose?: string) => 
-    request<Task[]>('/tasks', { purpose }),
-  
-  getById: (id: string, purpose?: string) => 
-    request<Task>(`/tasks/${id}`, { purpose }),
-  
-  create: (data: CreateTaskRequest, purpose?: string) =>
-    request<Task>('/tasks', {
-      method: 'POST',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  update: (id: string, data: UpdateTaskRequest, purpose?: string) =>
-    request<Task>(`/tasks/${id}`, {
-      method: 'PATCH',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  delete: (id: string, purpose?: string) =>
-    request<void>(`/tasks/${id}`, { method: 'DELETE', purpose }),
-  
-  // SubTasks
-  addSubTask: (data: CreateSubTaskRequest, purpose?: string) =>
-    request<Task>(`/tasks/${data.taskId}/subtasks`, {
-      method: 'POST',
-      body: JSON.stringify({ text: data.text }),
-      purpose,
-    }),
-  
-  updateSubTask: (taskId: string, subTaskId: string, data: UpdateSubTaskRequest, purpose?: string) =>
-    request<Task>(`/tasks/${taskId}/subtasks/${subTaskId}`, {
-      method: 'PATCH',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  deleteSubTask: (taskId: string, subTaskId: string, purpose?: string) =>
-    request<Task>(`/tasks/${taskId}/subtasks/${subTaskId}`, {
-      method: 'DELETE',
-      purpose,
-    }),
-};
+// Fill the contract's path params and query string into a URL below API_BASE
+function routeUrl(route: RouteContract, params: Record<string, string | number> = {}, query: object = {}): string {
+  const path = route.path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(String(params[name])));
+  const search = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) search.set(key, String(value));
+  });
+  const queryString = search.toString();
+  return `${path}${queryString ? `?${queryString}` : ''}`;
+}
 
-// Work Logs API
-export const workLogsApi = {
-  getAll: (purpose?: string) => 
-    request<WorkLog[]>('/work-logs', { purpose }),
-  
-  getByDate: (date: string, purpose?: string) => 
-    request<WorkLog | null>(`/work-logs/date/${date}`, { purpose }),
-  
-  getToday: (purpose?: string) => 
-    request<WorkLog | null>('/work-logs/today', { purpose }),
-  
-  create: (data: CreateWorkLogRequest, purpose?: string) =>
-    request<WorkLog>('/work-logs', {
-      method: 'POST',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  update: (id: number, data: Partial<CreateWorkLogRequest>, purpose?: string) =>
-    request<WorkLog>(`/work-logs/${id}`, {
-      method: 'PATCH',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-};
+interface CallInput {
+  params?: Record<string, string | number>;
+  query?: object;
+  body?: unknown;
+}
 
-// Expenses API
-export const expensesApi = {
-  getAll: (purpose?: string) => 
-    request<Expense[]>('/expenses', { purpose }),
-  
-  getById: (id: number, purpose?: string) =>
-    request<Expense>(`/expenses/${id}`, { purpose }),
-  
-  getByDateRange: (start: string, end: string, purpose?: string) =>
-    request<Expense[]>(`/expenses?start=${start}&end=${end}`, { purpose }),
-  
-  create: (data: CreateExpenseRequest, purpose?: string) =>
-    request<Expense>('/expenses', {
-      method: 'POST',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  update: (id: number, data: UpdateExpenseRequest, purpose?: string) =>
-    request<Expense>(`/expenses/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  delete: (id: number, purpose?: string) =>
-    request<void>(`/expenses/${id}`, { method: 'DELETE', purpose }),
-};
+function callRoute(route: RouteContract, input: CallInput = {}, purpose?: string) {
+  return request<unknown>(routeUrl(route, input.params, input.query), {
+    method: route.method.toUpperCase(),
+    body: input.body === undefined ? undefined : JSON.stringify(input.body),
+    purpose,
+    responseType: route.contentType ? 'text' : 'json',
+  });
+}
 
-// Recurring Expenses API
-export const recurringExpensesApi = {
-  getAll: (purpose?: string) => 
-    request<RecurringExpense[]>('/recurring-expenses', { purpose }),
-  
-  create: (data: CreateRecurringExpenseRequest, purpose?: string) =>
-    request<RecurringExpense>('/recurring-expenses', {
-      method: 'POST',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  update: (id: number, data: UpdateRecurringExpenseRequest, purpose?: string) =>
-    request<RecurringExpense>(`/recurring-expenses/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  delete: (id: number, purpose?: string) =>
-    request<void>(`/recurring-expenses/${id}`, { method: 'DELETE', purpose }),
-  
-  generate: (purpose?: string) =>
-    request<{ generated: Expense[]; count: number }>('/recurring-expenses/generate', {
-      method: 'POST',
-      purpose,
-    }),
-};
+// Routes without required input can be called with none
+type RouteCaller<R> = object extends RouteInput<R>
+  ? (input?: RouteInput<R>, purpose?: string) => Promise<RouteResponse<R>>
+  : (input: RouteInput<R>, purpose?: string) => Promise<RouteResponse<R>>;
 
-// Goals API
-export const goalsApi = {
-  getAll: (purpose?: string) => 
-    request<Goal[]>('/goals', { purpose }),
-  
-  getById: (id: string, purpose?: string) => 
-    request<Goal>(`/goals/${id}`, { purpose }),
-  
-  getStats: (id: string, purpose?: string) => 
-    request<GoalStats>(`/goals/${id}/stats`, { purpose }),
-  
-  getLogs: (id: string, limit = 30, purpose?: string) => 
-    request<GoalLog[]>(`/goals/${id}/logs?limit=${limit}`, { purpose }),
-  
-  create: (data: CreateGoalRequest, purpose?: string) =>
-    request<Goal>('/goals', {
-      method: 'POST',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  update: (id: string, data: UpdateGoalRequest, purpose?: string) =>
-    request<Goal>(`/goals/${id}`, {
-      method: 'PATCH',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  logProgress: (id: string, data: CreateGoalLogRequest, purpose?: string) =>
-    request<{ log: GoalLog; goal: Goal }>(`/goals/${id}/logs`, {
-      method: 'POST',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  updateLog: (goalId: string, logId: number, data: UpdateGoalLogRequest, purpose?: string) =>
-    request<{ log: GoalLog; goal: Goal }>(`/goals/${goalId}/logs/${logId}`, {
-      method: 'PATCH',
-      body: JSON.stringify(data),
-      purpose,
-    }),
-  
-  delete: (id: string, purpose?: string) =>
-    request<void>(`/goals/${id}`, { method: 'DELETE', purpose }),
+export type ApiClient = {
+  [Group in keyof ApiRoutes]: {
+    [Name in keyof ApiRoutes[Group]]: RouteCaller<ApiRoutes[Group][Name]>;
+  };
 };
 
-// Weekly Summary API
-export const weeklyApi = {
-  getSummary: (weekStart?: string, purpose?: string) => {
-    const params = weekStart ? `?weekStart=${weekStart}` : '';
-    return request<WeeklySummary>(`/weekly-summary${params}`, { purpose });
-  },
-};
+// Typed SDK over the server's route contracts, e.g.
+// api.tasks.update({ params: { id }, body: { title } }, 'Rename task').
+// Paths, params, bodies and responses all come from the contracts, so a change
+// on the server that the client doesn't follow fails the type check.
+export const api = Object.fromEntries(
+  Object.entries(apiRoutes).map(([group, routes]) => [
+    group,
+    Object.fromEntries(
+      Object.entries(routes).map(([name, route]) => [
+        name,
+        (input?: CallInput, purpose?: string) => callRoute(route, input, purpose),
+      ])
+    ),
+  ])
+) as unknown as ApiClient;
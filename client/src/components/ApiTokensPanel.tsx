@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { useApiTokens, useCreateApiToken, useRevokeApiToken } from '@/hooks';
+import { TOKEN_SCOPES, TOKEN_SCOPE_DESCRIPTIONS } from '@/types';
+import type { ApiToken, TokenScope } from '@/types';
+import { formErrors } from '@/lib/formErrors';
+import { FieldErrorText } from './FieldErrorText';
+
+// SQLite timestamps are UTC without a zone marker
+function formatTimestamp(timestamp: string): string {
+  return new Date(`${timestamp.replace(' ', 'T')}Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function tokenStatus(token: ApiToken): string {
+  if (token.revokedAt) return `Revoked ${formatTimestamp(token.revokedAt)}`;
+  const used = token.lastUsedAt ? `Last used ${formatTimestamp(token.lastUsedAt)}` : 'Never used';
+  return token.expiresOn ? `${used} · Expires ${token.expiresOn}` : used;
+}
+
+// Personal API tokens for scripts; the plaintext token is only shown right after creating it
+export function ApiTokensPanel() {
+  const { data: tokens = [], isLoading } = useApiTokens();
+  const createToken = useCreateApiToken();
+  const revokeToken = useRevokeApiToken();
+
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<TokenScope[]>(['read']);
+  const [expiresOn, setExpiresOn] = useState('');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const errors = formErrors(createToken.error, ['name', 'scopes', 'expiresOn']);
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope]);
+  };
+
+  const handleCreate = () => {
+    createToken.mutate(
+      { name, scopes, expiresOn: expiresOn || undefined },
+      {
+        onSuccess: (created) => {
+          setCreatedToken(created.token);
+          setName('');
+          setScopes(['read']);
+          setExpiresOn('');
+        },
+      }
+    );
+  };
+
+  const handleRevoke = (token: ApiToken) => {
+    if (confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      revokeToken.mutate(token.id);
+    }
+  };
+
+  return (
+    <div className="bg-surface-800 rounded-xl p-4 space-y-3">
+      <div>
+        <p className="text-gray-200 font-medium">API tokens</p>
+        <p className="text-gray-500 text-sm">
+          Let scripts and automations call the API as you, limited to the scopes you pick.
+        </p>
+      </div>
+
+      {createdToken && (
+        <div className="bg-surface-700 rounded-xl p-3 space-y-2">
+          <p className="text-gray-200 text-sm">Copy this token now; it won't be shown again.</p>
+          <code className="block text-accent-green text-xs break-all select-all">{createdToken}</code>
+          <button onClick={() => setCreatedToken(null)} className="text-accent-blue text-sm hover:underline">
+            Done
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500 text-sm">Loading...</p>
+      ) : tokens.length > 0 && (
+        <ul className="divide-y divide-surface-700">
+          {tokens.map(token => (
+            <li key={token.id} className={`py-2 flex items-start justify-between gap-3 ${token.revokedAt ? 'opacity-50' : ''}`}>
+              <div className="min-w-0">
+                <p className="text-gray-200 text-sm truncate">
+                  {token.name} <span className="text-gray-500 font-mono text-xs">{token.prefix}…</span>
+                </p>
+                <p className="text-gray-500 text-xs">{token.scopes.join(', ')}</p>
+                <p className="text-gray-500 text-xs">
+                  Created {formatTimestamp(token.createdAt)} · {tokenStatus(token)}
+                </p>
+              </div>
+              {!token.revokedAt && (
+                <button
+                  onClick={() => handleRevoke(token)}
+                  disabled={revokeToken.isPending}
+                  className="text-accent-red text-sm hover:underline shrink-0"
+                >
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="pt-3 border-t border-surface-700 space-y-3">
+        <div>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full bg-surface-700 border-0 rounded-xl px-4 py-2 text-gray-200 placeholder-gray-500"
+            placeholder="Token name, e.g. Shortcuts on my phone"
+          />
+          <FieldErrorText message={errors.fields.name} />
+        </div>
+
+        <div className="space-y-1">
+          {TOKEN_SCOPES.map(scope => (
+            <label key={scope} className="flex items-start gap-3 p-1 rounded-lg hover:bg-surface-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+                className="mt-1"
+              />
+              <div>
+                <p className="text-gray-200 text-sm font-mono">{scope}</p>
+                <p className="text-gray-500 text-xs">{TOKEN_SCOPE_DESCRIPTIONS[scope]}</p>
+              </div>
+            </label>
+          ))}
+          <FieldErrorText message={errors.fields.scopes} />
+        </div>
+
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Expires after (optional)</label>
+          <input
+            type="date"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+            className="w-full bg-surface-700 border-0 rounded-xl px-4 py-2 text-gray-200"
+          />
+          <FieldErrorText message={errors.fields.expiresOn} />
+        </div>
+
+        {errors.general && <p className="text-accent-red text-sm">{errors.general}</p>}
+
+        <button
+          onClick={handleCreate}
+          disabled={!name.trim() || scopes.length === 0 || createToken.isPending}
+          className="btn btn-primary w-full"
+        >
+          {createToken.isPending ? 'Creating...' : 'Create token'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useDeleteGoal } from '@/hooks';
+import { goalProgressPercent } from '@/types';
+import type { ArchiveReason, Goal } from '@/types';
+
+interface ArchiveGoalModalProps {
+  goal: Goal;
+  onClose: () => void;
+  onArchived?: () => void;
+}
+
+// Asks whether the goal was completed or abandoned before archiving it; the
+// answer matching its progress is offered first
+export function ArchiveGoalModal({ goal, onClose, onArchived }: ArchiveGoalModalProps) {
+  const deleteGoal = useDeleteGoal();
+  const reachedTarget = goalProgressPercent(goal) >= 100;
+
+  const archive = (reason: ArchiveReason) => {
+    deleteGoal.mutate({ id: goal.id, reason }, {
+      onSuccess: () => {
+        onClose();
+        onArchived?.();
+      },
+    });
+  };
+
+  const options: { reason: ArchiveReason; label: string; className: string }[] = [
+    {
+      reason: 'completed',
+      label: '🏁 Completed it',
+      className: 'bg-accent-green/20 text-accent-green hover:bg-accent-green/30',
+    },
+    {
+      reason: 'abandoned',
+      label: 'Abandoned it',
+      className: 'bg-surface-600 text-gray-300 hover:bg-surface-500',
+    },
+  ];
+  if (!reachedTarget) options.reverse();
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-surface-800 w-full max-w-sm rounded-xl p-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold text-gray-100 mb-1">Archive goal</h2>
+        <p className="text-xs text-gray-500 mb-4">
+          "{goal.title}" moves to the archive with its history. You can restore it later.
+        </p>
+
+        {deleteGoal.error && (
+          <div className="bg-accent-red/20 border border-accent-red/50 rounded-lg p-3 mb-4 text-sm text-accent-red">
+            {deleteGoal.error.message}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {options.map(({ reason, label, className }) => (
+            <button
+              key={reason}
+              onClick={() => archive(reason)}
+              disabled={deleteGoal.isPending}
+              className={`btn w-full ${className}`}
+            >
+              {label}
+            </button>
+          ))}
+          <button onClick={onClose} className="btn btn-ghost w-full">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { useGoalGraph, useLinkSubGoal } from '@/hooks';
+import type { Goal, GoalRelation } from '@/types';
+
+interface AttachSubGoalModalProps {
+  goal: Goal;
+  onClose: () => void;
+}
+
+// The goal and every goal above it, any number of levels up; none of them can
+// become its sub-goal without closing a cycle
+function selfAndAncestors(goalId: string, edges: GoalRelation[]): Set<string> {
+  const found = new Set([goalId]);
+  const queue = [goalId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.childId === id && !found.has(edge.parentId)) {
+        found.add(edge.parentId);
+        queue.push(edge.parentId);
+      }
+    }
+  }
+  return found;
+}
+
+// Picks an existing goal to sit under this one; it keeps any parents it already has
+export function AttachSubGoalModal({ goal, onClose }: AttachSubGoalModalProps) {
+  const { data: graph, isLoading } = useGoalGraph();
+  const linkSubGoal = useLinkSubGoal();
+  const [search, setSearch] = useState('');
+
+  const edges = graph?.edges ?? [];
+  const blocked = selfAndAncestors(goal.id, edges);
+  const children = new Set(edges.filter(e => e.parentId === goal.id).map(e => e.childId));
+  const candidates = (graph?.nodes ?? [])
+    .filter(g => !blocked.has(g.id) && !children.has(g.id))
+    .filter(g => g.title.toLowerCase().includes(search.trim().toLowerCase()));
+  const parentCount = (id: string) => edges.filter(e => e.childId === id).length;
+
+  const attach = (childId: string) => {
+    linkSubGoal.mutate({ id: goal.id, childId }, { onSuccess: onClose });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-surface-800 w-full max-w-sm rounded-xl p-5 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold text-gray-100 mb-1">Attach existing goal</h2>
+        <p className="text-xs text-gray-500 mb-4">
+          Picks a goal to track under "{goal.title}". Goals this one already sits under aren't offered.
+        </p>
+
+        {linkSubGoal.error && (
+          <div className="bg-accent-red/20 border border-accent-red/50 rounded-lg p-3 mb-4 text-sm text-accent-red">
+            {linkSubGoal.error.message}
+          </div>
+        )}
+
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search goals"
+          className="w-full mb-3"
+          autoFocus
+        />
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {isLoading ? (
+            <div className="text-sm text-gray-500 text-center py-4">Loading goals...</div>
+          ) : candidates.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-4">No goals to attach</div>
+          ) : (
+            candidates.map(candidate => {
+              const parents = parentCount(candidate.id);
+              return (
+                <button
+                  key={candidate.id}
+                  onClick={() => attach(candidate.id)}
+                  disabled={linkSubGoal.isPending}
+                  className="w-full text-left bg-surface-700 hover:bg-surface-600 rounded-lg p-3 transition-colors"
+                >
+                  <div className="text-sm text-gray-100">{candidate.title}</div>
+                  <div className="text-xs text-gray-500">
+                    {parents === 0 ? 'Top-level goal' : `Also under ${parents} other goal${parents === 1 ? '' : 's'}`}
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+
+        <button onClick={onClose} className="btn btn-ghost w-full mt-3">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
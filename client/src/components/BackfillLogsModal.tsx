@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { useBulkLogGoalProgress, useGoalLogs, useTimezone, useWeekStart } from '@/hooks';
+import { ApiError } from '@/api/client';
+import { addDays, todayIn, weekdayOf, orderedWeekdays, formatDate } from '@/lib/dates';
+import type { Goal } from '@/types';
+
+interface BackfillLogsModalProps {
+  goal: Goal;
+  onClose: () => void;
+}
+
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const CSV_PLACEHOLDER = 'date,value,note\n2026-10-12,1,Morning run\n2026-10-13,1';
+
+// Every day of the month containing the date, padded with nulls so the first
+// lands under its weekday column
+function monthGrid(month: string, weekdays: number[]): (string | null)[] {
+  const first = `${month.slice(0, 7)}-01`;
+  const days: (string | null)[] = Array(weekdays.indexOf(weekdayOf(first))).fill(null);
+  for (let day = first; day.slice(0, 7) === first.slice(0, 7); day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+function shiftMonth(month: string, months: number): string {
+  const date = new Date(`${month.slice(0, 7)}-01T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.toISOString().split('T')[0];
+}
+
+// Logs many days at once: tick them on a calendar and give them one value, or
+// paste a CSV of date,value,note lines. Days already logged are overwritten.
+export function BackfillLogsModal({ goal, onClose }: BackfillLogsModalProps) {
+  const bulkLog = useBulkLogGoalProgress();
+  const { data: logs = [] } = useGoalLogs(goal.id, 366, 'Show logged days in backfill calendar');
+  const today = todayIn(useTimezone());
+  const weekdays = orderedWeekdays(useWeekStart());
+
+  const isHabit = goal.goalType === 'frequency';
+  const [mode, setMode] = useState<'calendar' | 'csv'>('calendar');
+  const [month, setMonth] = useState(today);
+  const [ticked, setTicked] = useState<Set<string>>(new Set());
+  const [value, setValue] = useState(isHabit ? '1' : '');
+  const [note, setNote] = useState('');
+  const [csv, setCsv] = useState('');
+
+  const logged = new Map(logs.map(log => [log.logDate, log.value]));
+  const isCurrentMonth = month.slice(0, 7) === today.slice(0, 7);
+
+  // Field errors carry the line or entry at fault, so all of them are listed
+  const problems = bulkLog.error instanceof ApiError && bulkLog.error.fieldErrors.length > 0
+    ? bulkLog.error.fieldErrors.map(e => e.message)
+    : bulkLog.error ? [bulkLog.error.message] : [];
+
+  const toggleDay = (date: string) => {
+    setTicked(current => {
+      const next = new Set(current);
+      if (next.has(date)) next.delete(date);
+      else next.add(date);
+      return next;
+    });
+  };
+
+  const numericValue = goal.goalType === 'numeric' ? parseFloat(value) : parseInt(value);
+  const canSubmit = mode === 'calendar'
+    ? ticked.size > 0 && !isNaN(numericValue)
+    : csv.trim().length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const data = mode === 'calendar'
+      ? { entries: [...ticked].sort().map(logDate => ({ logDate, value: numericValue, note: note || undefined })) }
+      : { csv };
+    bulkLog.mutate({ id: goal.id, data }, { onSuccess: onClose });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-surface-800 w-full max-w-sm rounded-xl p-5 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold text-gray-100 mb-1">Backfill progress</h2>
+        <p className="text-xs text-gray-500 mb-4">
+          Log several days of "{goal.title}" at once. Days already logged are replaced.
+        </p>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {(['calendar', 'csv'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={`py-2 rounded-lg text-xs transition-colors ${
+                mode === option ? 'bg-accent-blue text-white' : 'bg-surface-600 text-gray-300 hover:bg-surface-500'
+              }`}
+            >
+              {option === 'calendar' ? 'Pick days' : 'Paste CSV'}
+            </button>
+          ))}
+        </div>
+
+        {problems.length > 0 && (
+          <div className="bg-accent-red/20 border border-accent-red/50 rounded-lg p-3 mb-4 text-sm text-accent-red space-y-1">
+            {problems.map((problem, i) => (
+              <div key={i}>{problem}</div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'calendar' ? (
+            <>
+              {/* Mini calendar */}
+              <div className="bg-surface-700 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <button
+                    type="button"
+                    onClick={() => setMonth(shiftMonth(month, -1))}
+                    className="text-gray-400 hover:text-gray-200 px-2"
+                  >
+                    ‹
+                  </button>
+                  <span className="text-sm text-gray-300">
+                    {formatDate(month, { month: 'long', year: 'numeric' })}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setMonth(shiftMonth(month, 1))}
+                    disabled={isCurrentMonth}
+                    className="text-gray-400 hover:text-gray-200 px-2 disabled:opacity-30"
+                  >
+                    ›
+                  </button>
+                </div>
+                <div className="grid grid-cols-7 gap-1 text-center">
+                  {weekdays.map(day => (
+                    <div key={day} className="text-[10px] text-gray-500">{WEEKDAY_LETTERS[day]}</div>
+                  ))}
+                  {monthGrid(month, weekdays).map((date, i) => {
+                    if (!date) return <div key={`pad-${i}`} />;
+                    const isTicked = ticked.has(date);
+                    const loggedValue = logged.get(date);
+                    return (
+                      <button
+                        key={date}
+                        type="button"
+                        onClick={() => toggleDay(date)}
+                        disabled={date > today}
+                        className={`relative aspect-square rounded text-xs transition-colors disabled:opacity-30 ${
+                          isTicked
+                            ? 'bg-accent-blue text-white'
+                            : 'bg-surface-600 text-gray-300 hover:bg-surface-500'
+                        } ${date === today ? 'ring-1 ring-accent-blue' : ''}`}
+                      >
+                        {Number(date.slice(8))}
+                        {/* Already logged: green for done habits and other goals, red for missed */}
+                        {loggedValue !== undefined && (
+                          <span className={`absolute bottom-0.5 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full ${
+                            isHabit && loggedValue === 0 ? 'bg-accent-red' : 'bg-accent-green'
+                          }`} />
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+                <div className="text-xs text-gray-500 mt-2">
+                  {ticked.size} day{ticked.size === 1 ? '' : 's'} picked
+                </div>
+              </div>
+
+              {/* One value for every picked day */}
+              {isHabit ? (
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { habitValue: '1', label: '✓ Did it', active: 'bg-accent-green text-white' },
+                    { habitValue: '0', label: "✗ Didn't", active: 'bg-accent-red text-white' },
+                  ].map(({ habitValue, label, active }) => (
+                    <button
+                      key={habitValue}
+                      type="button"
+                      onClick={() => setValue(habitValue)}
+                      className={`py-2 rounded-lg text-sm transition-colors ${
+                        value === habitValue ? active : 'bg-surface-600 text-gray-300 hover:bg-surface-500'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">
+                    {goal.goalType === 'reading'
+                      ? 'Page reached'
+                      : goal.numericMode === 'cumulative'
+                        ? `${goal.unit || 'Amount'} added each day`
+                        : `${goal.unit || 'Value'} on each day`}
+                  </label>
+                  <input
+                    type="number"
+                    step={goal.goalType === 'numeric' ? 'any' : undefined}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    className="w-full font-mono"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Note (optional)</label>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Added to every picked day"
+                  className="w-full"
+                />
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">
+                One line per day: date, value and an optional note
+              </label>
+              <textarea
+                value={csv}
+                onChange={(e) => setCsv(e.target.value)}
+                placeholder={CSV_PLACEHOLDER}
+                rows={8}
+                className="w-full font-mono text-xs"
+                autoFocus
+              />
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="btn btn-ghost flex-1">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!canSubmit || bulkLog.isPending}
+              className="btn btn-primary flex-1"
+            >
+              {bulkLog.isPending
+                ? 'Saving...'
+                : mode === 'calendar' ? `Log ${ticked.size} day${ticked.size === 1 ? '' : 's'}` : 'Import'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+interface FieldErrorTextProps {
+  message?: string;
+}
+
+// Validation message shown under a form input
+export function FieldErrorText({ message }: FieldErrorTextProps) {
+  if (!message) return null;
+  return <p className="text-accent-red text-xs mt-1">{message}</p>;
+}
@@ -1,12 +1,24 @@
 import { useMemo } from 'react';
 import { TaskCard } from './TaskCard';
 import { useTasks, useDeleteTask } from '@/hooks';
-import type { Task } from '@/types';
+import type { Task, TaskFilters } from '@/types';
+
+const ACTIVE_FILTERS: TaskFilters = { completed: false };
+const COMPLETED_FILTERS: TaskFilters = { completed: true, limit: 5 };
 
 export function FocusList() {
-  const { data: tasks, isLoading } = useTasks();
+  const {
+    data: activePages,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useTasks(ACTIVE_FILTERS, 'Load focus list');
+  const { data: completedPages } = useTasks(COMPLETED_FILTERS, 'Load completed tasks');
   const deleteTask = useDeleteTask();
 
+  const tasks = useMemo(() => activePages?.pages.flatMap(p => p.items), [activePages]);
+
   // Sort tasks: incomplete first, then by deadline (urgent first), then by created
   const sortedTasks = useMemo(() => {
     if (!tasks) return [];
@@ -15,7 +27,6 @@ export function FocusList() {
     const twoDaysFromNow = now + 2 * 24 * 60 * 60 * 1000;
 
     return [...tasks]
-      .filter(t => !t.isCompleted)
       .sort((a, b) => {
         // Both have deadlines
         if (a.deadline && b.deadline) {
@@ -42,8 +53,8 @@ export function FocusList() {
   }, [tasks]);
 
   const completedTasks = useMemo(() => {
-    return tasks?.filter(t => t.isCompleted) || [];
-  }, [tasks]);
+    return completedPages?.pages[0]?.items || [];
+  }, [completedPages]);
 
   const handleDelete = (id: string) => {
     deleteTask.mutate(id);
@@ -81,14 +92,24 @@ export function FocusList() {
         />
       ))}
 
+      {hasNextPage && (
+        <button
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="w-full py-2 text-sm text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          {isFetchingNextPage ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+
       {/* Completed tasks */}
       {completedTasks.length > 0 && (
         <div className="mt-6">
           <div className="text-xs text-gray-600 uppercase tracking-wider mb-2 px-1">
-            Completed ({completedTasks.length})
+            Completed
           </div>
           <div className="space-y-2 opacity-60">
-            {completedTasks.slice(0, 5).map((task: Task) => (
+            {completedTasks.map((task: Task) => (
               <TaskCard 
                 key={task.id} 
                 task={task} 
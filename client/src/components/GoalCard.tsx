@@ -1,5 +1,8 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
+import { useTimezone } from '@/hooks';
+import { todayIn } from '@/lib/dates';
+import { goalProgressPercent, requiredPace } from '@/types';
 import type { Goal } from '@/types';
 import { GoalFormModal } from './GoalFormModal';
 
@@ -10,6 +13,7 @@ interface GoalCardProps {
 
 export function GoalCard({ goal, onDelete }: GoalCardProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const today = todayIn(useTimezone());
 
   const getProgressInfo = () => {
     if (goal.goalType === 'reading' && goal.totalPages) {
@@ -29,18 +33,21 @@ export function GoalCard({ goal, onDelete }: GoalCardProps) {
         color: percent >= 100 ? 'bg-accent-green' : 'bg-accent-amber',
       };
     } else {
-      const percent = goal.targetValue > 0 
-        ? Math.round((goal.currentValue / goal.targetValue) * 100) 
-        : 0;
+      // Measured from the baseline, so goals counting down fill up too
+      const percent = goalProgressPercent(goal);
       return {
         label: `${goal.currentValue} / ${goal.targetValue} ${goal.unit || ''}`,
-        percent: Math.min(percent, 100),
+        percent,
         color: percent >= 100 ? 'bg-accent-green' : 'bg-purple-500',
       };
     }
   };
 
   const progress = getProgressInfo();
+  // Frequency goals are paced per period, not towards a date
+  const perDayNeeded = goal.targetDate && goal.goalType !== 'frequency'
+    ? requiredPace(goal, goal.targetDate, today)
+    : null;
   const typeIcon = goal.goalType === 'reading' ? '📖' : goal.goalType === 'frequency' ? '🔄' : '📊';
 
   return (
@@ -106,6 +113,12 @@ export function GoalCard({ goal, onDelete }: GoalCardProps) {
               month: 'short', 
               day: 'numeric' 
             })}
+            {perDayNeeded !== null && (
+              <span>
+                {' · '}need <span className="font-mono text-gray-300">{+perDayNeeded.toFixed(2)}</span>{' '}
+                {goal.goalType === 'reading' ? 'pages' : goal.unit || 'units'}/day to finish on time
+              </span>
+            )}
           </div>
         )}
       </Link>
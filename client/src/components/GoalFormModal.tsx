@@ -1,6 +1,10 @@
 import { useState } from 'react';
-import { useCreateGoal, useUpdateGoal } from '@/hooks';
-import type { Goal, GoalType, FrequencyPeriod } from '@/types';
+import { useCreateGoal, useUpdateGoal, useSeasons } from '@/hooks';
+import type { Goal, GoalType, FrequencyPeriod, NumericMode } from '@/types';
+import { formErrors } from '@/lib/formErrors';
+import { FieldErrorText } from './FieldErrorText';
+
+const FORM_FIELDS = ['title', 'totalPages', 'targetValue', 'frequencyPeriod', 'numericMode', 'baseline', 'unit', 'targetDate', 'seasonId'];
 
 interface GoalFormModalProps {
   onClose: () => void;
@@ -12,6 +16,7 @@ interface GoalFormModalProps {
 export function GoalFormModal({ onClose, parentId, parentTitle, goal }: GoalFormModalProps) {
   const createGoal = useCreateGoal();
   const updateGoal = useUpdateGoal();
+  const { data: seasons = [] } = useSeasons();
   
   const isEditMode = !!goal;
   
@@ -21,45 +26,64 @@ export function GoalFormModal({ onClose, parentId, parentTitle, goal }: GoalForm
   const [unit, setUnit] = useState(goal?.unit || '');
   const [totalPages, setTotalPages] = useState(goal?.totalPages?.toString() || '');
   const [frequencyPeriod, setFrequencyPeriod] = useState<FrequencyPeriod>(goal?.frequencyPeriod || 'weekly');
+  const [numericMode, setNumericMode] = useState<NumericMode>(goal?.numericMode || 'latest');
+  const [baseline, setBaseline] = useState(goal?.baseline?.toString() ?? '');
   const [targetDate, setTargetDate] = useState(goal?.targetDate?.split('T')[0] || '');
-  const [error, setError] = useState<string | null>(null);
+  const [seasonId, setSeasonId] = useState(goal?.seasonId ?? '');
+  const [error, setError] = useState<unknown>(null);
+  const errors = formErrors(error, FORM_FIELDS);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim()) return;
     setError(null);
 
+    // Numeric goals take decimals (72.5 kg); an empty start value means 0
+    const isNumeric = goalType === 'numeric';
+    const target = isNumeric ? parseFloat(targetValue) || 0 : parseInt(targetValue) || 0;
+    const start = baseline.trim() === '' ? null : parseFloat(baseline);
+
         try {
       if (isEditMode && goal) {
         await updateGoal.mutateAsync({
           id: goal.id,
           data: {
             title: title.trim(),
-            targetValue: parseInt(targetValue) || 0,
+            targetValue: target,
             unit: unit || undefined,
             totalPages: goalType === 'reading' ? parseInt(totalPages) || undefined : undefined,
+            numericMode: isNumeric ? numericMode : undefined,
+            baseline: isNumeric ? start : undefined,
             targetDate: targetDate || undefined,
+            seasonId: seasonId || null,
           },
         });
       } else {
         await createGoal.mutateAsync({
           title: title.trim(),
           goalType,
-          targetValue: parseInt(targetValue) || 0,
+          targetValue: target,
           unit: unit || undefined,
           totalPages: goalType === 'reading' ? parseInt(totalPages) || undefined : undefined,
           frequencyPeriod: goalType === 'frequency' ? frequencyPeriod : undefined,
+          numericMode: isNumeric ? numericMode : undefined,
+          baseline: isNumeric ? start : undefined,
           targetDate: targetDate || undefined,
           parentId: parentId || undefined,
+          seasonId: seasonId || undefined,
         });
       }
       onClose();
     } catch (err) {
-      setError(err instanceof Error ? err.message : isEditMode ? 'Failed to update goal' : 'Failed to create goal');
+      setError(err);
     }
   };
 
   const isSubGoal = !!parentId;
+  // Reviewed seasons are closed: a goal already in one stays, but none can join
+  const currentSeason = seasons.find(s => s.id === goal?.seasonId);
+  const seasonLocked = !!currentSeason?.reviewedAt;
+  const openSeasons = seasons.filter(s => !s.reviewedAt);
   const isPending = createGoal.isPending || updateGoal.isPending;
 
   return (
@@ -78,9 +102,9 @@ export function GoalFormModal({ onClose, parentId, parentTitle, goal }: GoalForm
           <p className="text-xs text-gray-500 mb-4">Under: {parentTitle}</p>
         )}
 
-        {error && (
+        {errors.general && (
           <div className="bg-accent-red/20 border border-accent-red/50 rounded-lg p-3 mb-4 text-sm text-accent-red">
-            {error}
+            {errors.general}
           </div>
         )}
 
@@ -133,6 +157,7 @@ export function GoalFormModal({ onClose, parentId, parentTitle, goal }: GoalForm
               className="w-full"
               autoFocus
             />
+            <FieldErrorText message={errors.fields.title} />
           </div>
 
           {/* Reading-specific fields */}
@@ -146,6 +171,7 @@ export function GoalFormModal({ onClose, parentId, parentTitle, goal }: GoalForm
                 placeholder="e.g., 320"
                 className="w-full"
               />
+              <FieldErrorText message={errors.fields.totalPages} />
             </div>
           )}
 
@@ -162,6 +188,7 @@ export function GoalFormModal({ onClose, parentId, parentTitle, goal }: GoalForm
                     placeholder="e.g., 4"
                     className="w-full"
                   />
+                  <FieldErrorText message={errors.fields.targetValue} />
                 </div>
                 <div>
                   <label className="block text-xs text-gray-500 mb-1">Period</label>
@@ -174,6 +201,7 @@ export function GoalFormModal({ onClose, parentId, parentTitle, goal }: GoalForm
                     <option value="weekly">Weekly</option>
                     <option value="monthly">Monthly</option>
                   </select>
+                  <FieldErrorText message={errors.fields.frequencyPeriod} />
                 </div>
               </div>
               <div>
@@ -185,34 +213,78 @@ export function GoalFormModal({ onClose, parentId, parentTitle, goal }: GoalForm
                   placeholder="e.g., sessions, times"
                   className="w-full"
                 />
+                <FieldErrorText message={errors.fields.unit} />
               </div>
             </>
           )}
 
           {/* Numeric-specific fields */}
           {goalType === 'numeric' && (
-            <div className="grid grid-cols-2 gap-3">
+            <>
               <div>
-                <label className="block text-xs text-gray-500 mb-1">Target Value</label>
-                <input
-                  type="number"
-                  value={targetValue}
-                  onChange={(e) => setTargetValue(e.target.value)}
-                  placeholder="e.g., 100"
-                  className="w-full"
-                />
+                <label className="block text-xs text-gray-500 mb-2">Progress is</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { mode: 'latest' as const, label: 'Latest value', hint: 'e.g., body weight' },
+                    { mode: 'cumulative' as const, label: 'Running total', hint: 'e.g., km run this year' },
+                  ].map(({ mode, label, hint }) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setNumericMode(mode)}
+                      className={`py-2 rounded-lg text-center transition-colors
+                        ${numericMode === mode
+                          ? 'bg-accent-blue text-white'
+                          : 'bg-surface-600 text-gray-300 hover:bg-surface-500'}`}
+                    >
+                      <div className="text-xs">{label}</div>
+                      <div className="text-[10px] opacity-70">{hint}</div>
+                    </button>
+                  ))}
+                </div>
+                <FieldErrorText message={errors.fields.numericMode} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Target Value</label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={targetValue}
+                    onChange={(e) => setTargetValue(e.target.value)}
+                    placeholder="e.g., 100"
+                    className="w-full"
+                  />
+                  <FieldErrorText message={errors.fields.targetValue} />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Unit</label>
+                  <input
+                    type="text"
+                    value={unit}
+                    onChange={(e) => setUnit(e.target.value)}
+                    placeholder="e.g., kg, reps"
+                    className="w-full"
+                  />
+                  <FieldErrorText message={errors.fields.unit} />
+                </div>
               </div>
               <div>
-                <label className="block text-xs text-gray-500 mb-1">Unit</label>
+                <label className="block text-xs text-gray-500 mb-1">Start Value (optional)</label>
                 <input
-                  type="text"
-                  value={unit}
-                  onChange={(e) => setUnit(e.target.value)}
-                  placeholder="e.g., kg, reps"
+                  type="number"
+                  step="any"
+                  value={baseline}
+                  onChange={(e) => setBaseline(e.target.value)}
+                  placeholder={numericMode === 'cumulative' ? 'e.g., 0' : 'e.g., 82'}
                   className="w-full"
                 />
+                <p className="text-xs text-gray-600 mt-1">
+                  Progress is measured from here; a target below it counts down
+                </p>
+                <FieldErrorText message={errors.fields.baseline} />
               </div>
-            </div>
+            </>
           )}
 
           {/* Target Date (optional) */}
@@ -224,8 +296,35 @@ export function GoalFormModal({ onClose, parentId, parentTitle, goal }: GoalForm
               onChange={(e) => setTargetDate(e.target.value)}
               className="w-full"
             />
+            <FieldErrorText message={errors.fields.targetDate} />
           </div>
 
+          {/* Season (optional) */}
+          {(openSeasons.length > 0 || currentSeason) && (
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">
+                Season (optional) {seasonLocked && <span className="text-gray-600">(reviewed)</span>}
+              </label>
+              <select
+                value={seasonId}
+                onChange={(e) => setSeasonId(e.target.value)}
+                disabled={seasonLocked}
+                className="w-full"
+              >
+                <option value="">No season</option>
+                {currentSeason && seasonLocked && (
+                  <option value={currentSeason.id}>{currentSeason.name}</option>
+                )}
+                {openSeasons.map(season => (
+                  <option key={season.id} value={season.id}>
+                    {season.name} ({season.startDate} – {season.endDate})
+                  </option>
+                ))}
+              </select>
+              <FieldErrorText message={errors.fields.seasonId} />
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex gap-2 pt-2">
             <button
@@ -0,0 +1,54 @@
+import { useGoalPeriods } from '@/hooks';
+import { formatDate } from '@/lib/dates';
+import type { Goal, GoalPeriod } from '@/types';
+
+const PERIOD_NOUNS: Record<string, [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+};
+
+function periodLabel(period: GoalPeriod): string {
+  const start = formatDate(period.periodStart, { month: 'short', day: 'numeric' });
+  const range = period.periodStart === period.periodEnd
+    ? start
+    : `${start} – ${formatDate(period.periodEnd, { month: 'short', day: 'numeric' })}`;
+  return `${range}: ${period.completed}/${period.target}${period.closed ? '' : ' (in progress)'}`;
+}
+
+function cellClass(period: GoalPeriod): string {
+  if (!period.closed) {
+    return period.met ? 'bg-accent-green ring-1 ring-gray-300' : 'bg-surface-500 ring-1 ring-gray-300';
+  }
+  return period.met ? 'bg-accent-green' : 'bg-accent-red/60';
+}
+
+// Every period of a frequency goal as a row of hit/miss cells, oldest first
+export function GoalPeriodStrip({ goal }: { goal: Goal }) {
+  const { data: history } = useGoalPeriods(goal.id);
+  if (!history || history.periods.length === 0) return null;
+
+  const [singular, plural] = PERIOD_NOUNS[goal.frequencyPeriod ?? 'daily'];
+
+  return (
+    <div className="bg-surface-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm text-gray-400">Periods</span>
+        <span className="text-xs text-gray-500">
+          {history.successRate !== null ? `${history.successRate}% met` : 'No closed periods yet'}
+          {' · '}
+          best run {history.longestRun} {history.longestRun === 1 ? singular : plural}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {history.periods.map(period => (
+          <div
+            key={period.periodStart}
+            title={periodLabel(period)}
+            className={`w-3 h-3 rounded-sm ${cellClass(period)}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
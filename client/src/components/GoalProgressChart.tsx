@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { useGoalSeries, useTimezone } from '@/hooks';
+import { addDays, todayIn, formatDate } from '@/lib/dates';
+import type { Goal, GoalSeriesPoint, SeriesBucket } from '@/types';
+
+// Days back from today; null covers the goal's whole history
+const RANGES: { label: string; days: number | null }[] = [
+  { label: '30d', days: 30 },
+  { label: '90d', days: 90 },
+  { label: '1y', days: 365 },
+  { label: 'All', days: null },
+];
+
+const BUCKETS: SeriesBucket[] = ['day', 'week', 'month'];
+
+// Drawing area in viewBox units; the SVG stretches to the card's width
+const WIDTH = 320;
+const HEIGHT = 120;
+const PAD = 8;
+
+function bucketLabel(point: GoalSeriesPoint, bucket: SeriesBucket): string {
+  if (bucket === 'month') return formatDate(point.start, { month: 'short', year: 'numeric' });
+  const start = formatDate(point.start, { month: 'short', day: 'numeric' });
+  return bucket === 'day' ? start : `${start} – ${formatDate(point.end, { month: 'short', day: 'numeric' })}`;
+}
+
+// Progress per day, week or month against the target: bars of days done for
+// habits, a line of pages or values for the rest. Hover or tap a bucket to read it.
+export function GoalProgressChart({ goal }: { goal: Goal }) {
+  const today = todayIn(useTimezone());
+  const [range, setRange] = useState<number | null>(90);
+  const [bucket, setBucket] = useState<SeriesBucket>('week');
+  const [active, setActive] = useState<number | null>(null);
+  const { data: series, error } = useGoalSeries(goal.id, {
+    from: range === null ? undefined : addDays(today, 1 - range),
+    bucket,
+  });
+
+  const isBars = goal.goalType === 'frequency';
+  const unit = goal.goalType === 'reading' ? 'pages' : goal.goalType === 'frequency' ? 'done' : goal.unit;
+
+  const controls = (
+    <div className="flex items-center justify-between mb-3">
+      <span className="text-sm text-gray-400">Progress over time</span>
+      <div className="flex items-center gap-2 text-xs">
+        <select
+          value={bucket}
+          onChange={(e) => setBucket(e.target.value as SeriesBucket)}
+          className="py-0 px-1 bg-surface-600"
+        >
+          {BUCKETS.map(b => <option key={b} value={b}>by {b}</option>)}
+        </select>
+        <div className="flex bg-surface-600 rounded">
+          {RANGES.map(r => (
+            <button
+              key={r.label}
+              onClick={() => setRange(r.days)}
+              className={`px-2 py-0.5 rounded ${
+                range === r.days ? 'bg-accent-blue text-white' : 'text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  if (error) {
+    return (
+      <div className="bg-surface-700 rounded-lg p-4">
+        {controls}
+        <div className="text-xs text-accent-red">{(error as Error).message}</div>
+      </div>
+    );
+  }
+  if (!series) return null;
+
+  const { points } = series;
+  const values = points.flatMap(p => (p.value === null ? [p.target] : [p.value, p.target]));
+  const min = Math.min(...values, isBars ? 0 : series.baseline);
+  const max = Math.max(...values, min + 1);
+  const slot = (WIDTH - PAD * 2) / points.length;
+  const x = (i: number) => PAD + slot * (i + 0.5);
+  const y = (value: number) => PAD + (HEIGHT - PAD * 2) * (1 - (value - min) / (max - min));
+
+  const line = (pick: (p: GoalSeriesPoint) => number | null) => points
+    .map((p, i) => {
+      const value = pick(p);
+      return value === null ? null : `${x(i)},${y(value)}`;
+    })
+    .filter(Boolean)
+    .join(' ');
+
+  const shown = active ?? points.length - 1;
+  const point = points[shown];
+
+  return (
+    <div className="bg-surface-700 rounded-lg p-4">
+      {controls}
+
+      {point && (
+        <div className="text-xs text-gray-400 mb-2">
+          {bucketLabel(point, series.bucket)}:{' '}
+          <span className="font-mono text-gray-100">{point.value ?? '—'}</span> {unit}
+          <span className="text-gray-500"> · target {point.target}</span>
+        </div>
+      )}
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-32"
+        onMouseLeave={() => setActive(null)}
+      >
+        {isBars && points.map((p, i) => (p.value ?? 0) > 0 && (
+          <rect
+            key={p.start}
+            x={x(i) - slot * 0.35}
+            width={slot * 0.7}
+            y={y(p.value ?? 0)}
+            height={y(0) - y(p.value ?? 0)}
+            className={(p.value ?? 0) >= p.target ? 'fill-accent-green' : 'fill-accent-blue'}
+            opacity={active === null || active === i ? 1 : 0.5}
+          />
+        ))}
+
+        <polyline
+          points={line(p => p.target)}
+          fill="none"
+          strokeDasharray="4 3"
+          vectorEffect="non-scaling-stroke"
+          className="stroke-accent-green"
+        />
+
+        {!isBars && (
+          <polyline
+            points={line(p => p.value)}
+            fill="none"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            className="stroke-accent-blue"
+          />
+        )}
+
+        {active !== null && (
+          <line
+            x1={x(active)}
+            x2={x(active)}
+            y1={0}
+            y2={HEIGHT}
+            vectorEffect="non-scaling-stroke"
+            className="stroke-gray-500"
+          />
+        )}
+
+        {/* One hit area per bucket, full height, so thin lines are easy to hover */}
+        {points.map((p, i) => (
+          <rect
+            key={`hit-${p.start}`}
+            x={PAD + slot * i}
+            width={slot}
+            y={0}
+            height={HEIGHT}
+            fill="transparent"
+            onMouseEnter={() => setActive(i)}
+            onClick={() => setActive(i)}
+          />
+        ))}
+      </svg>
+
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+        <span>{points.length > 0 && bucketLabel(points[0], series.bucket)}</span>
+        <span className="font-mono">{min}–{max} {unit}</span>
+        <span>{points.length > 0 && bucketLabel(points[points.length - 1], series.bucket)}</span>
+      </div>
+    </div>
+  );
+}
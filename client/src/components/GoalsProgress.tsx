@@ -1,15 +1,27 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import type { Goal, GoalLog } from '@/types';
-import { useLogGoalProgress, useGoalLogs } from '@/hooks';
+import { goalProgressPercent } from '@/types';
+import type { Goal, GoalLog, GoalTreeNode } from '@/types';
+import { useLogGoalProgress, useGoalLogs, useGoalTrees } from '@/hooks';
 
 interface GoalsProgressProps {
   goals: Goal[];
 }
 
+// Every goal in the trees by id; one under several parents rolls up the same under each
+function indexTrees(trees: GoalTreeNode[], index = new Map<string, GoalTreeNode>()) {
+  for (const node of trees) {
+    index.set(node.goal.id, node);
+    indexTrees(node.children, index);
+  }
+  return index;
+}
+
 export function GoalsProgress({ goals }: GoalsProgressProps) {
   const [expandedGoalId, setExpandedGoalId] = useState<string | null>(null);
   const logProgress = useLogGoalProgress();
+  const { data: trees = [] } = useGoalTrees();
+  const nodes = indexTrees(trees);
 
   const handleQuickLog = (goal: Goal, e: React.MouseEvent) => {
     e.preventDefault();
@@ -55,6 +67,7 @@ export function GoalsProgress({ goals }: GoalsProgressProps) {
           <GoalItem
             key={goal.id}
             goal={goal}
+            node={nodes.get(goal.id)}
             isExpanded={expandedGoalId === goal.id}
             onToggle={(e) => toggleExpanded(goal.id, e)}
             onQuickLog={(e) => handleQuickLog(goal, e)}
@@ -78,12 +91,14 @@ export function GoalsProgress({ goals }: GoalsProgressProps) {
 // Individual goal item with accordion
 function GoalItem({
   goal,
+  node,
   isExpanded,
   onToggle,
   onQuickLog,
   isLogging,
 }: {
   goal: Goal;
+  node?: GoalTreeNode;
   isExpanded: boolean;
   onToggle: (e: React.MouseEvent) => void;
   onQuickLog: (e: React.MouseEvent) => void;
@@ -106,10 +121,12 @@ function GoalItem({
       ? Math.min(Math.round((goal.currentValue / goal.targetValue) * 100), 100)
       : 0;
     progressLabel = `${goal.currentValue}/${goal.targetValue}`;
+  } else if (node && node.children.length > 0) {
+    // Rolled up from the sub-goals, however deep
+    progressPercent = node.rollupPercent;
+    progressLabel = `${node.rollupPercent}%`;
   } else {
-    progressPercent = goal.targetValue > 0
-      ? Math.min(Math.round((goal.currentValue / goal.targetValue) * 100), 100)
-      : 0;
+    progressPercent = goalProgressPercent(goal);
     progressLabel = `${goal.currentValue}/${goal.targetValue}`;
   }
 
@@ -1,3 +1,5 @@
+import { useTimezone } from '@/hooks';
+import { addDays, todayIn, formatDate } from '@/lib/dates';
 import type { WorkLog } from '@/types';
 
 interface IntegrityHeatmapProps {
@@ -8,13 +10,11 @@ interface IntegrityHeatmapProps {
 
 export function IntegrityHeatmap({ workLogs, weekStart, onDayClick }: IntegrityHeatmapProps) {
   // Generate 7 days starting from weekStart
-  const days = Array.from({ length: 7 }, (_, i) => {
-    const date = new Date(weekStart);
-    date.setDate(date.getDate() + i);
-    return date.toISOString().split('T')[0];
-  });
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const today = todayIn(useTimezone());
 
-  const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  // Labels follow the week the server sent, whichever day it starts on
+  const dayNames = days.map(date => formatDate(date, { weekday: 'short' }));
 
   const getLogForDate = (date: string) => {
     return workLogs.find(l => l.logDate === date);
@@ -43,7 +43,7 @@ export function IntegrityHeatmap({ workLogs, weekStart, onDayClick }: IntegrityH
         {days.map((date, i) => {
           const log = getLogForDate(date);
           const score = log?.integrityScore;
-          const isToday = date === new Date().toISOString().split('T')[0];
+          const isToday = date === today;
           const hasNotes = log?.successNote || log?.missedOpportunityNote;
           const isClickable = !!onDayClick && (log !== undefined);
           
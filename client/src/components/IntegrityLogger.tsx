@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
-import { useTodayWorkLog, useCreateWorkLog, useUpdateWorkLog } from '@/hooks';
+import { useTodayWorkLog, useCreateWorkLog, useUpdateWorkLog, useTimezone } from '@/hooks';
+import { todayIn, formatDate } from '@/lib/dates';
+import { formErrors } from '@/lib/formErrors';
+import { FieldErrorText } from './FieldErrorText';
 
 interface IntegrityLoggerProps {
   compact?: boolean;
@@ -9,12 +12,18 @@ export function IntegrityLogger({ compact = false }: IntegrityLoggerProps) {
   const { data: todayLog, isLoading } = useTodayWorkLog();
   const createWorkLog = useCreateWorkLog();
   const updateWorkLog = useUpdateWorkLog();
+  const timezone = useTimezone();
 
   const [showNoteInput, setShowNoteInput] = useState(false);
   const [successNote, setSuccessNote] = useState('');
   const [missedNote, setMissedNote] = useState('');
   const [pendingScore, setPendingScore] = useState<0 | 1 | null>(null);
 
+  const errors = formErrors(
+    todayLog ? updateWorkLog.error : createWorkLog.error,
+    ['successNote', 'missedOpportunityNote']
+  );
+
   // Reset notes when log changes
   useEffect(() => {
     if (todayLog) {
@@ -29,10 +38,16 @@ export function IntegrityLogger({ compact = false }: IntegrityLoggerProps) {
     setShowNoteInput(true);
     setSuccessNote('');
     setMissedNote('');
+    createWorkLog.reset();
+    updateWorkLog.reset();
   };
 
   const submitScore = (score: 0 | 1, successNoteVal?: string, missedNoteVal?: string) => {
-    const today = new Date().toISOString().split('T')[0];
+    // Keep the form open until the server accepts it, so validation messages have somewhere to show
+    const onSuccess = () => {
+      setShowNoteInput(false);
+      setPendingScore(null);
+    };
 
     if (todayLog) {
       updateWorkLog.mutate({
@@ -42,18 +57,14 @@ export function IntegrityLogger({ compact = false }: IntegrityLoggerProps) {
           missedOpportunityNote: missedNoteVal || undefined,
           successNote: successNoteVal || undefined,
         },
-      });
+      }, { onSuccess });
     } else {
       createWorkLog.mutate({
-        logDate: today,
         integrityScore: score,
         missedOpportunityNote: missedNoteVal || undefined,
         successNote: successNoteVal || undefined,
-      });
+      }, { onSuccess });
     }
-
-    setShowNoteInput(false);
-    setPendingScore(null);
   };
 
   const handleNoteSubmit = (e: React.FormEvent) => {
@@ -100,6 +111,7 @@ export function IntegrityLogger({ compact = false }: IntegrityLoggerProps) {
                 placeholder="Wins, achievements..."
                 className="w-full h-12 text-sm resize-none"
               />
+              <FieldErrorText message={errors.fields.successNote} />
             </div>
             
             {/* Negative notes */}
@@ -111,8 +123,11 @@ export function IntegrityLogger({ compact = false }: IntegrityLoggerProps) {
                 placeholder="Missed opportunities..."
                 className="w-full h-12 text-sm resize-none"
               />
+              <FieldErrorText message={errors.fields.missedOpportunityNote} />
             </div>
 
+            <FieldErrorText message={errors.general ?? undefined} />
+
             <div className="flex gap-2">
               <button
                 type="button"
@@ -184,7 +199,7 @@ export function IntegrityLogger({ compact = false }: IntegrityLoggerProps) {
       <div className="flex items-center justify-between mb-3">
         <h3 className="text-sm font-medium text-gray-300">Work Integrity</h3>
         <span className="text-xs text-gray-500 font-mono">
-          {new Date().toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+          {formatDate(todayIn(timezone), { weekday: 'short', month: 'short', day: 'numeric' })}
         </span>
       </div>
 
@@ -223,6 +238,7 @@ export function IntegrityLogger({ compact = false }: IntegrityLoggerProps) {
               placeholder="Wins, achievements, good decisions..."
               className="w-full h-16 text-sm resize-none"
             />
+            <FieldErrorText message={errors.fields.successNote} />
           </div>
           
           {/* Negative notes */}
@@ -234,8 +250,11 @@ export function IntegrityLogger({ compact = false }: IntegrityLoggerProps) {
               placeholder="Missed opportunities, things to work on..."
               className="w-full h-16 text-sm resize-none"
             />
+            <FieldErrorText message={errors.fields.missedOpportunityNote} />
           </div>
 
+          <FieldErrorText message={errors.general ?? undefined} />
+
           <div className="flex gap-2">
             <button
               type="button"
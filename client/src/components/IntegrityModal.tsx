@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { useUIStore } from '@/store/uiStore';
 import { useTodayWorkLog, useCreateWorkLog } from '@/hooks';
+import { formErrors } from '@/lib/formErrors';
+import { FieldErrorText } from './FieldErrorText';
 
 export function IntegrityModal() {
   const { integrityModalOpen, closeIntegrityModal } = useUIStore();
@@ -11,14 +13,14 @@ export function IntegrityModal() {
   const [successNote, setSuccessNote] = useState('');
   const [missedNote, setMissedNote] = useState('');
 
+  const errors = formErrors(createWorkLog.error, ['successNote', 'missedOpportunityNote']);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (score === null) return;
 
-    const today = new Date().toISOString().split('T')[0];
     createWorkLog.mutate(
       {
-        logDate: today,
         integrityScore: score,
         missedOpportunityNote: missedNote.trim() || undefined,
         successNote: successNote.trim() || undefined,
@@ -36,10 +38,8 @@ export function IntegrityModal() {
 
   const handleSkip = () => {
     if (score === null) return;
-    const today = new Date().toISOString().split('T')[0];
     createWorkLog.mutate(
       {
-        logDate: today,
         integrityScore: score,
       },
       {
@@ -122,6 +122,7 @@ export function IntegrityModal() {
                   placeholder="Wins, achievements..."
                   className="w-full h-16 text-sm resize-none"
                 />
+                <FieldErrorText message={errors.fields.successNote} />
               </div>
               
               {/* Negative notes */}
@@ -135,10 +136,13 @@ export function IntegrityModal() {
                   placeholder="Missed opportunities..."
                   className="w-full h-16 text-sm resize-none"
                 />
+                <FieldErrorText message={errors.fields.missedOpportunityNote} />
               </div>
             </div>
           )}
 
+          <FieldErrorText message={errors.general ?? undefined} />
+
           <div className="flex gap-2">
             <button
               type="button"
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { useUIStore } from '@/store/uiStore';
 import { useCreateExpense, useCreateTask, useAddSubTask } from '@/hooks';
 import { EXPENSE_CATEGORIES, type TaskCategory } from '@/types';
+import { formErrors } from '@/lib/formErrors';
+import { FieldErrorText } from './FieldErrorText';
 
 export function QuickAddModal() {
   const { quickAdd, closeQuickAdd } = useUIStore();
@@ -20,6 +22,9 @@ export function QuickAddModal() {
   const [subtasks, setSubtasks] = useState<string[]>([]);
   const [newSubtask, setNewSubtask] = useState('');
 
+  const expenseErrors = formErrors(createExpense.error, ['amount', 'category']);
+  const taskErrors = formErrors(createTask.error, ['title', 'category', 'deadline']);
+
   // Reset form on close
   useEffect(() => {
     if (!quickAdd.isOpen) {
@@ -30,6 +35,8 @@ export function QuickAddModal() {
       setTaskDeadline('');
       setSubtasks([]);
       setNewSubtask('');
+      createExpense.reset();
+      createTask.reset();
     }
   }, [quickAdd.isOpen]);
 
@@ -127,6 +134,7 @@ export function QuickAddModal() {
                 className="w-full text-2xl font-mono"
                 autoFocus
               />
+              <FieldErrorText message={expenseErrors.fields.amount} />
             </div>
 
             <div>
@@ -146,8 +154,11 @@ export function QuickAddModal() {
                   </button>
                 ))}
               </div>
+              <FieldErrorText message={expenseErrors.fields.category} />
             </div>
 
+            <FieldErrorText message={expenseErrors.general ?? undefined} />
+
             <button
               type="submit"
               disabled={createExpense.isPending}
@@ -169,6 +180,7 @@ export function QuickAddModal() {
                 className="w-full"
                 autoFocus
               />
+              <FieldErrorText message={taskErrors.fields.title} />
             </div>
 
             <div>
@@ -190,6 +202,7 @@ export function QuickAddModal() {
                   </button>
                 ))}
               </div>
+              <FieldErrorText message={taskErrors.fields.category} />
             </div>
 
             <div>
@@ -200,6 +213,7 @@ export function QuickAddModal() {
                 onChange={(e) => setTaskDeadline(e.target.value)}
                 className="w-full"
               />
+              <FieldErrorText message={taskErrors.fields.deadline} />
             </div>
 
             {/* Subtasks Section */}
@@ -248,6 +262,8 @@ export function QuickAddModal() {
               </div>
             </div>
 
+            <FieldErrorText message={taskErrors.general ?? undefined} />
+
             <button
               type="submit"
               disabled={createTask.isPending || addSubTask.isPending}
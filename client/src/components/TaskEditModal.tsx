@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import type { Task, TaskCategory } from '@/types';
 import { useUpdateTask } from '@/hooks';
+import { formErrors } from '@/lib/formErrors';
+import { FieldErrorText } from './FieldErrorText';
 
 interface TaskEditModalProps {
   task: Task;
@@ -17,7 +19,8 @@ export function TaskEditModal({ task, onClose }: TaskEditModalProps) {
   const [deadline, setDeadline] = useState(
     task.deadline ? new Date(task.deadline).toISOString().slice(0, 16) : ''
   );
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const errors = formErrors(error, ['title', 'category', 'deadline']);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,7 +38,7 @@ export function TaskEditModal({ task, onClose }: TaskEditModalProps) {
       });
       onClose();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update task');
+      setError(err);
     }
   };
 
@@ -50,9 +53,9 @@ export function TaskEditModal({ task, onClose }: TaskEditModalProps) {
       >
         <h2 className="text-lg font-semibold text-gray-100 mb-4">Edit Task</h2>
 
-        {error && (
+        {errors.general && (
           <div className="bg-accent-red/20 border border-accent-red/50 rounded-lg p-3 mb-4 text-sm text-accent-red">
-            {error}
+            {errors.general}
           </div>
         )}
 
@@ -68,6 +71,7 @@ export function TaskEditModal({ task, onClose }: TaskEditModalProps) {
               className="w-full"
               autoFocus
             />
+            <FieldErrorText message={errors.fields.title} />
           </div>
 
           {/* Category */}
@@ -90,6 +94,7 @@ export function TaskEditModal({ task, onClose }: TaskEditModalProps) {
                 </button>
               ))}
             </div>
+            <FieldErrorText message={errors.fields.category} />
           </div>
 
           {/* Deadline */}
@@ -101,6 +106,7 @@ export function TaskEditModal({ task, onClose }: TaskEditModalProps) {
               onChange={(e) => setDeadline(e.target.value)}
               className="w-full"
             />
+            <FieldErrorText message={errors.fields.deadline} />
           </div>
 
           {/* Actions */}
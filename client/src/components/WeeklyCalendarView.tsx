@@ -1,6 +1,7 @@
-import { useMemo, useState, useRef, useCallback, DragEvent, TouchEvent } from 'react';
-import { useTasks, useUpdateTask } from '@/hooks';
-import type { Task } from '@/types';
+import { useMemo, useState, useRef, useCallback, useEffect, DragEvent, TouchEvent } from 'react';
+import { useTasks, useUpdateTask, useTimezone, useWeekStart } from '@/hooks';
+import { addDays, todayIn, weekStartOf, weekdayOf, formatDate } from '@/lib/dates';
+import type { Task, TaskFilters, WeekStartDay } from '@/types';
 
 const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
@@ -13,33 +14,10 @@ interface TouchDragState {
   clone: HTMLDivElement | null;
 }
 
-function getWeekDays(): Date[] {
-  const today = new Date();
-  const currentDay = today.getDay(); // 0 = Sunday
-  const weekStart = new Date(today);
-  weekStart.setDate(today.getDate() - currentDay);
-  weekStart.setHours(0, 0, 0, 0);
-
-  const days: Date[] = [];
-  for (let i = 0; i < 7; i++) {
-    const day = new Date(weekStart);
-    day.setDate(weekStart.getDate() + i);
-    days.push(day);
-  }
-  return days;
-}
-
-function isToday(date: Date): boolean {
-  const today = new Date();
-  return (
-    date.getDate() === today.getDate() &&
-    date.getMonth() === today.getMonth() &&
-    date.getFullYear() === today.getFullYear()
-  );
-}
-
-function formatDateKey(date: Date): string {
-  return date.toISOString().split('T')[0];
+// Date keys (YYYY-MM-DD) of the week containing today
+function getWeekDays(today: string, weekStartDay: WeekStartDay): string[] {
+  const weekStart = weekStartOf(today, weekStartDay);
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
 }
 
 interface DraggableTaskProps {
@@ -77,7 +55,7 @@ function DraggableTask({ task, onDragStart, onTouchStart, onTouchMove, onTouchEn
 }
 
 interface DayColumnProps {
-  date: Date;
+  dateKey: string;
   tasks: Task[];
   isCurrentDay: boolean;
   onDragStart: (e: DragEvent<HTMLDivElement>, taskId: string) => void;
@@ -89,9 +67,7 @@ interface DayColumnProps {
   onTouchEnd: (e: TouchEvent<HTMLDivElement>) => void;
 }
 
-function DayColumn({ date, tasks, isCurrentDay, onDragStart, onDragOver, onDrop, dragOver, onTouchStart, onTouchMove, onTouchEnd }: DayColumnProps) {
-  const dateKey = formatDateKey(date);
-  
+function DayColumn({ dateKey, tasks, isCurrentDay, onDragStart, onDragOver, onDrop, dragOver, onTouchStart, onTouchMove, onTouchEnd }: DayColumnProps) {
   return (
     <div
       data-drop-date={dateKey}
@@ -111,12 +87,12 @@ function DayColumn({ date, tasks, isCurrentDay, onDragStart, onDragOver, onDrop,
         <span className={`text-xs font-medium uppercase tracking-wider ${
           isCurrentDay ? 'text-accent-400' : 'text-gray-500'
         }`}>
-          {DAY_NAMES[date.getDay()]}
+          {DAY_NAMES[weekdayOf(dateKey)]}
         </span>
         <div className={`text-lg font-semibold ${
           isCurrentDay ? 'text-accent-300' : 'text-gray-300'
         }`}>
-          {date.getDate()}
+          {Number(dateKey.slice(8, 10))}
         </div>
         {isCurrentDay && (
           <span className="text-xs text-accent-400 md:hidden">Today</span>
@@ -141,44 +117,54 @@ function DayColumn({ date, tasks, isCurrentDay, onDragStart, onDragOver, onDrop,
 }
 
 export function WeeklyCalendarView() {
-  const { data: tasks = [], isLoading } = useTasks('Weekly calendar view');
+  const today = todayIn(useTimezone());
+  const weekStartDay = useWeekStart();
+  const weekDays = useMemo(() => getWeekDays(today, weekStartDay), [today, weekStartDay]);
+  const weekFilters = useMemo<TaskFilters>(() => ({
+    completed: false,
+    scheduledFrom: weekDays[0],
+    scheduledTo: weekDays[6],
+    limit: 200,
+  }), [weekDays]);
+  const backlogFilters = useMemo<TaskFilters>(() => ({ ...weekFilters, scheduledRange: 'outside', limit: 50 }), [weekFilters]);
+
+  const weekQuery = useTasks(weekFilters, 'Weekly calendar view');
+  const backlogQuery = useTasks(backlogFilters, 'Weekly calendar backlog');
+  const isLoading = weekQuery.isLoading || backlogQuery.isLoading;
   const updateTask = useUpdateTask();
-  const weekDays = useMemo(() => getWeekDays(), []);
+
+  // Every task scheduled this week has to be on the grid, so keep paging until done
+  const { hasNextPage: weekHasMore, isFetchingNextPage: weekFetching, fetchNextPage: fetchMoreWeek } = weekQuery;
+  useEffect(() => {
+    if (weekHasMore && !weekFetching) fetchMoreWeek();
+  }, [weekHasMore, weekFetching, fetchMoreWeek]);
   const [dragOverDate, setDragOverDate] = useState<string | null>(null);
   
   // Touch drag state
   const touchDragRef = useRef<TouchDragState | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // Group tasks by scheduled date
-  const { scheduledTasks, unscheduledTasks } = useMemo(() => {
+  // Group this week's tasks by scheduled date
+  const scheduledTasks = useMemo(() => {
     const scheduled: Record<string, Task[]> = {};
-    const unscheduled: Task[] = [];
 
     // Initialize all week days
     weekDays.forEach(day => {
-      scheduled[formatDateKey(day)] = [];
+      scheduled[day] = [];
     });
 
-    // Filter out completed tasks and sort
-    const incompleteTasks = tasks.filter(t => !t.isCompleted);
-
-    incompleteTasks.forEach(task => {
-      if (task.scheduledCompleteDate) {
-        // Check if the scheduled date is in the current week
-        if (scheduled[task.scheduledCompleteDate]) {
-          scheduled[task.scheduledCompleteDate].push(task);
-        } else {
-          // Task scheduled for a different week, show as unscheduled
-          unscheduled.push(task);
-        }
-      } else {
-        unscheduled.push(task);
-      }
-    });
+    weekQuery.data?.pages.forEach(page => page.items.forEach(task => {
+      scheduled[task.scheduledCompleteDate as string]?.push(task);
+    }));
 
-    return { scheduledTasks: scheduled, unscheduledTasks: unscheduled };
-  }, [tasks, weekDays]);
+    return scheduled;
+  }, [weekQuery.data, weekDays]);
+
+  // Unscheduled, or scheduled for a different week
+  const unscheduledTasks = useMemo(
+    () => backlogQuery.data?.pages.flatMap(page => page.items) ?? [],
+    [backlogQuery.data]
+  );
 
   const handleDragStart = (e: DragEvent<HTMLDivElement>, taskId: string) => {
     e.dataTransfer.setData('taskId', taskId);
@@ -324,20 +310,19 @@ export function WeeklyCalendarView() {
       {/* Week header with month/year */}
       <div className="text-center">
         <span className="text-sm text-gray-400">
-          {weekDays[0].toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          {formatDate(weekDays[0], { month: 'long', year: 'numeric' })}
         </span>
       </div>
 
       {/* 7-day grid - 2 cols on mobile (with today full width), 7 cols on desktop */}
       <div className="grid grid-cols-2 md:grid-cols-7 gap-2">
-        {weekDays.map((day) => {
-          const dateKey = formatDateKey(day);
+        {weekDays.map((dateKey) => {
           return (
             <DayColumn
               key={dateKey}
-              date={day}
+              dateKey={dateKey}
               tasks={scheduledTasks[dateKey] || []}
-              isCurrentDay={isToday(day)}
+              isCurrentDay={dateKey === today}
               onDragStart={handleDragStart}
               onDragOver={(e) => handleDragOver(e, dateKey)}
               onDrop={handleDrop}
@@ -364,7 +349,7 @@ export function WeeklyCalendarView() {
         `}
       >
         <h3 className="text-sm font-medium text-gray-400 mb-3">
-          Unscheduled Tasks ({unscheduledTasks.length})
+          Unscheduled Tasks ({unscheduledTasks.length}{backlogQuery.hasNextPage ? '+' : ''})
         </h3>
         
         {unscheduledTasks.length === 0 ? (
@@ -385,6 +370,16 @@ export function WeeklyCalendarView() {
             ))}
           </div>
         )}
+
+        {backlogQuery.hasNextPage && (
+          <button
+            onClick={() => backlogQuery.fetchNextPage()}
+            disabled={backlogQuery.isFetchingNextPage}
+            className="w-full mt-3 py-2 text-sm text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            {backlogQuery.isFetchingNextPage ? 'Loading...' : 'Load more'}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -1,5 +1,6 @@
 import { Link } from 'react-router-dom';
 import { useGoals, useWeeklySummary } from '@/hooks';
+import { goalProgressPercent } from '@/types';
 
 export function WeeklyStats() {
   const { data: goals } = useGoals();
@@ -18,7 +19,7 @@ export function WeeklyStats() {
         percentage = g.targetValue > 0 ? Math.round((g.currentValue / g.targetValue) * 100) : 0;
       } else {
         value = `${g.currentValue}/${g.targetValue}`;
-        percentage = g.targetValue > 0 ? Math.round((g.currentValue / g.targetValue) * 100) : 0;
+        percentage = goalProgressPercent(g);
       }
 
       return {
@@ -12,4 +12,11 @@ export { GoalCard } from './GoalCard';
 export { GoalFormModal } from './GoalFormModal';
 export { TaskEditModal } from './TaskEditModal';
 export { WeeklyCalendarView } from './WeeklyCalendarView';
+export { FieldErrorText } from './FieldErrorText';
 
+export { ApiTokensPanel } from './ApiTokensPanel';
+export { GoalPeriodStrip } from './GoalPeriodStrip';
+export { GoalProgressChart } from './GoalProgressChart';
+export { ArchiveGoalModal } from './ArchiveGoalModal';
+export { AttachSubGoalModal } from './AttachSubGoalModal';
+export { BackfillLogsModal } from './BackfillLogsModal';
@@ -3,4 +3,9 @@ export * from './useWorkLogs';
 export * from './useExpenses';
 export * from './useGoals';
 export * from './useWeeklySummary';
-
+export * from './useWeeklyReflections';
+export * from './useExpenseImports';
+export * from './useSettings';
+export * from './useAuth';
+export * from './useApiTokens';
+export * from './useSeasons';
@@ -0,0 +1,32 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import type { CreateApiTokenRequest } from '@/types';
+
+export function useApiTokens(purpose = 'Load API tokens') {
+  return useQuery({
+    queryKey: ['apiTokens'],
+    queryFn: () => api.tokens.list({}, purpose),
+  });
+}
+
+export function useCreateApiToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateApiTokenRequest) => api.tokens.create({ body: data }, 'Create API token'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['apiTokens'] });
+    },
+  });
+}
+
+export function useRevokeApiToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.tokens.revoke({ params: { id } }, 'Revoke API token'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['apiTokens'] });
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import { useAuthStore } from '@/store/authStore';
+import type { LoginRequest, RegisterRequest } from '@/types';
+
+export function useLogin() {
+  const setSession = useAuthStore((state) => state.setSession);
+
+  return useMutation({
+    mutationFn: (data: LoginRequest) => api.auth.login({ body: data }, 'Sign in'),
+    onSuccess: setSession,
+  });
+}
+
+export function useRegister() {
+  const setSession = useAuthStore((state) => state.setSession);
+
+  return useMutation({
+    mutationFn: (data: RegisterRequest) => api.auth.register({ body: data }, 'Create account'),
+    onSuccess: setSession,
+  });
+}
+
+export function useLogout() {
+  const queryClient = useQueryClient();
+  const clearSession = useAuthStore((state) => state.clearSession);
+
+  return useMutation({
+    mutationFn: () => api.auth.logout({}, 'Sign out'),
+    // Sign out locally even if the server couldn't be reached
+    onSettled: () => {
+      clearSession();
+      queryClient.clear();
+    },
+  });
+}
@@ -0,0 +1,42 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import type { ExpenseImportMapping, ExpenseImportPreviewRequest, CommitExpenseImportRequest } from '@/types';
+
+export function useExpenseImportProfiles(purpose = 'Load saved bank mappings') {
+  return useQuery({
+    queryKey: ['expenseImportProfiles'],
+    queryFn: () => api.expenseImports.listProfiles({}, purpose),
+  });
+}
+
+export function useSaveExpenseImportProfile() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ bankName, mapping }: { bankName: string; mapping: ExpenseImportMapping }) =>
+      api.expenseImports.saveProfile({ params: { bankName }, body: { mapping } }, 'Save bank mapping'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['expenseImportProfiles'] });
+    },
+  });
+}
+
+export function usePreviewExpenseImport() {
+  return useMutation({
+    mutationFn: (data: ExpenseImportPreviewRequest) =>
+      api.expenseImports.preview({ body: data }, 'Preview bank CSV import'),
+  });
+}
+
+export function useCommitExpenseImport() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (data: CommitExpenseImportRequest) =>
+      api.expenseImports.commit({ body: data }, 'Import bank CSV expenses'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
+    },
+  });
+}
@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { expensesApi, recurringExpensesApi } from '@/api/client';
+import { api } from '@/api/client';
 import type { 
   CreateExpenseRequest, 
   UpdateExpenseRequest,
@@ -12,14 +12,14 @@ import type {
 export function useExpenses(purpose = 'Load all expenses') {
   return useQuery({
     queryKey: ['expenses'],
-    queryFn: () => expensesApi.getAll(purpose),
+    queryFn: () => api.expenses.list({}, purpose),
   });
 }
 
 export function useExpense(id: number | undefined, purpose = 'Load expense details') {
   return useQuery({
     queryKey: ['expenses', id],
-    queryFn: () => expensesApi.getById(id!, purpose),
+    queryFn: () => api.expenses.get({ params: { id: id! } }, purpose),
     enabled: id !== undefined,
   });
 }
@@ -27,7 +27,7 @@ export function useExpense(id: number | undefined, purpose = 'Load expense detai
 export function useExpensesByDateRange(start: string, end: string, purpose = 'View expenses list') {
   return useQuery({
     queryKey: ['expenses', 'range', start, end],
-    queryFn: () => expensesApi.getByDateRange(start, end, purpose),
+    queryFn: () => api.expenses.list({ query: { start, end } }, purpose),
     enabled: !!start && !!end,
   });
 }
@@ -36,7 +36,7 @@ export function useCreateExpense() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (data: CreateExpenseRequest) => expensesApi.create(data, 'Add expense'),
+    mutationFn: (data: CreateExpenseRequest) => api.expenses.create({ body: data }, 'Add expense'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
@@ -49,7 +49,7 @@ export function useUpdateExpense() {
   
   return useMutation({
     mutationFn: ({ id, data }: { id: number; data: UpdateExpenseRequest }) => 
-      expensesApi.update(id, data, 'Update expense'),
+      api.expenses.update({ params: { id }, body: data }, 'Update expense'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
@@ -61,7 +61,7 @@ export function useDeleteExpense() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (id: number) => expensesApi.delete(id, 'Delete expense'),
+    mutationFn: (id: number) => api.expenses.delete({ params: { id } }, 'Delete expense'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
@@ -74,7 +74,7 @@ export function useDeleteExpense() {
 export function useRecurringExpenses(purpose = 'Load recurring expenses') {
   return useQuery({
     queryKey: ['recurringExpenses'],
-    queryFn: () => recurringExpensesApi.getAll(purpose),
+    queryFn: () => api.recurringExpenses.list({}, purpose),
   });
 }
 
@@ -83,7 +83,7 @@ export function useCreateRecurringExpense() {
   
   return useMutation({
     mutationFn: (data: CreateRecurringExpenseRequest) => 
-      recurringExpensesApi.create(data, 'Create recurring expense'),
+      api.recurringExpenses.create({ body: data }, 'Create recurring expense'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['recurringExpenses'] });
     },
@@ -95,7 +95,7 @@ export function useUpdateRecurringExpense() {
   
   return useMutation({
     mutationFn: ({ id, data }: { id: number; data: UpdateRecurringExpenseRequest }) => 
-      recurringExpensesApi.update(id, data, 'Update recurring expense'),
+      api.recurringExpenses.update({ params: { id }, body: data }, 'Update recurring expense'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['recurringExpenses'] });
     },
@@ -106,7 +106,7 @@ export function useDeleteRecurringExpense() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (id: number) => recurringExpensesApi.delete(id, 'Delete recurring expense'),
+    mutationFn: (id: number) => api.recurringExpenses.delete({ params: { id } }, 'Delete recurring expense'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['recurringExpenses'] });
     },
@@ -117,7 +117,7 @@ export function useGenerateRecurringExpenses() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: () => recurringExpensesApi.generate('Generate recurring expenses'),
+    mutationFn: () => api.recurringExpenses.generate({}, 'Generate recurring expenses'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
@@ -1,34 +1,85 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { goalsApi } from '@/api/client';
-import type { CreateGoalRequest, UpdateGoalRequest, CreateGoalLogRequest, UpdateGoalLogRequest } from '@/types';
+import { api } from '@/api/client';
+import type {
+  CreateGoalRequest, UpdateGoalRequest, CreateGoalLogRequest, UpdateGoalLogRequest, GoalSeriesQuery, ArchiveReason,
+  SetGoalParentsRequest, UpdateSubGoalRequest, BulkGoalLogRequest,
+} from '@/types';
 
 export function useGoals(purpose = 'Load goals list') {
   return useQuery({
     queryKey: ['goals'],
-    queryFn: () => goalsApi.getAll(purpose),
+    queryFn: () => api.goals.list({}, purpose),
+  });
+}
+
+export function useArchivedGoals(purpose = 'Load archived goals') {
+  return useQuery({
+    queryKey: ['goals', 'archived'],
+    queryFn: () => api.goals.listArchived({}, purpose),
+  });
+}
+
+export function useGoalGraph(purpose = 'Load goal hierarchy') {
+  return useQuery({
+    queryKey: ['goals', 'graph'],
+    queryFn: () => api.goals.getGraph({}, purpose),
+  });
+}
+
+export function useGoalTrees(purpose = 'Load goal roll-ups') {
+  return useQuery({
+    queryKey: ['goals', 'tree'],
+    queryFn: () => api.goals.listTrees({}, purpose),
+  });
+}
+
+export function useGoalTree(id: string, purpose = 'View goal roll-up') {
+  return useQuery({
+    queryKey: ['goals', id, 'tree'],
+    queryFn: () => api.goals.getTree({ params: { id } }, purpose),
+    enabled: !!id,
   });
 }
 
 export function useGoal(id: string, purpose = 'View goal') {
   return useQuery({
     queryKey: ['goals', id],
-    queryFn: () => goalsApi.getById(id, purpose),
+    queryFn: () => api.goals.get({ params: { id } }, purpose),
+    enabled: !!id,
+  });
+}
+
+export function useGoalStats(id: string, window?: number, purpose = 'View goal details') {
+  return useQuery({
+    queryKey: ['goals', id, 'stats', window],
+    queryFn: () => api.goals.getStats({ params: { id }, query: { window } }, purpose),
+    enabled: !!id,
+    // Keep showing the goal while another window loads
+    placeholderData: previous => previous?.goal.id === id ? previous : undefined,
+  });
+}
+
+export function useGoalPeriods(id: string, purpose = 'View goal period history') {
+  return useQuery({
+    queryKey: ['goals', id, 'periods'],
+    queryFn: () => api.goals.listPeriods({ params: { id } }, purpose),
     enabled: !!id,
   });
 }
 
-export function useGoalStats(id: string, purpose = 'View goal details') {
+export function useGoalSeries(id: string, query: GoalSeriesQuery, purpose = 'View goal progress chart') {
   return useQuery({
-    queryKey: ['goals', id, 'stats'],
-    queryFn: () => goalsApi.getStats(id, purpose),
+    queryKey: ['goals', id, 'series', query],
+    queryFn: () => api.goals.getSeries({ params: { id }, query }, purpose),
     enabled: !!id,
+    placeholderData: previous => previous,
   });
 }
 
 export function useGoalLogs(id: string, limit = 30, purpose = 'View goal progress history') {
   return useQuery({
     queryKey: ['goals', id, 'logs', limit],
-    queryFn: () => goalsApi.getLogs(id, limit, purpose),
+    queryFn: () => api.goals.listLogs({ params: { id }, query: { limit } }, purpose),
     enabled: !!id,
   });
 }
@@ -37,9 +88,10 @@ export function useCreateGoal() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (data: CreateGoalRequest) => goalsApi.create(data, 'Create new goal'),
+    mutationFn: (data: CreateGoalRequest) => api.goals.create({ body: data }, 'Create new goal'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['goals'] });
+      queryClient.invalidateQueries({ queryKey: ['seasons'] });
     },
   });
 }
@@ -49,11 +101,12 @@ export function useUpdateGoal() {
   
   return useMutation({
     mutationFn: ({ id, data }: { id: string; data: UpdateGoalRequest }) =>
-      goalsApi.update(id, data, 'Update goal'),
+      api.goals.update({ params: { id }, body: data }, 'Update goal'),
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['goals'] });
       queryClient.invalidateQueries({ queryKey: ['goals', id] });
       queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
+      queryClient.invalidateQueries({ queryKey: ['seasons'] });
     },
   });
 }
@@ -63,7 +116,21 @@ export function useLogGoalProgress() {
   
   return useMutation({
     mutationFn: ({ id, data }: { id: string; data: CreateGoalLogRequest }) =>
-      goalsApi.logProgress(id, data, 'Log goal progress'),
+      api.goals.logProgress({ params: { id }, body: data }, 'Log goal progress'),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+      queryClient.invalidateQueries({ queryKey: ['goals', id] });
+      queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
+    },
+  });
+}
+
+export function useBulkLogGoalProgress() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: BulkGoalLogRequest }) =>
+      api.goals.bulkLog({ params: { id }, body: data }, 'Backfill goal progress'),
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['goals'] });
       queryClient.invalidateQueries({ queryKey: ['goals', id] });
@@ -77,7 +144,21 @@ export function useUpdateGoalLog() {
   
   return useMutation({
     mutationFn: ({ goalId, logId, data }: { goalId: string; logId: number; data: UpdateGoalLogRequest }) =>
-      goalsApi.updateLog(goalId, logId, data, 'Update goal log'),
+      api.goals.updateLog({ params: { goalId, logId }, body: data }, 'Update goal log'),
+    onSuccess: (_, { goalId }) => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+      queryClient.invalidateQueries({ queryKey: ['goals', goalId] });
+      queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
+    },
+  });
+}
+
+export function useDeleteGoalLog() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ goalId, logId }: { goalId: string; logId: number }) =>
+      api.goals.deleteLog({ params: { goalId, logId } }, 'Delete goal log'),
     onSuccess: (_, { goalId }) => {
       queryClient.invalidateQueries({ queryKey: ['goals'] });
       queryClient.invalidateQueries({ queryKey: ['goals', goalId] });
@@ -86,11 +167,84 @@ export function useUpdateGoalLog() {
   });
 }
 
+export function useLinkSubGoal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, childId }: { id: string; childId: string }) =>
+      api.goals.linkSubGoal({ params: { id }, body: { childId } }, 'Attach existing goal as sub-goal'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+    },
+  });
+}
+
+export function useUnlinkSubGoal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, childId }: { id: string; childId: string }) =>
+      api.goals.unlinkSubGoal({ params: { id, childId } }, 'Detach sub-goal'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+    },
+  });
+}
+
+export function useUpdateSubGoal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, childId, data }: { id: string; childId: string; data: UpdateSubGoalRequest }) =>
+      api.goals.updateSubGoal({ params: { id, childId }, body: data }, 'Change sub-goal weight'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+    },
+  });
+}
+
+export function useSetGoalParents() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SetGoalParentsRequest }) =>
+      api.goals.setParents({ params: { id }, body: data }, 'Move goal'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+    },
+  });
+}
+
 export function useDeleteGoal() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (id: string) => goalsApi.delete(id, 'Archive goal'),
+    mutationFn: ({ id, reason }: { id: string; reason?: ArchiveReason }) =>
+      api.goals.delete({ params: { id }, query: { reason } }, 'Archive goal'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+      queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
+    },
+  });
+}
+
+export function useRestoreGoal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.goals.restore({ params: { id } }, 'Restore archived goal'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+      queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
+    },
+  });
+}
+
+export function usePurgeGoal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.goals.purge({ params: { id } }, 'Permanently delete goal'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['goals'] });
     },
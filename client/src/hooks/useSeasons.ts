@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import type { CreateSeasonRequest, UpdateSeasonRequest } from '@/types';
+
+export function useSeasons(purpose = 'Load seasons') {
+  return useQuery({
+    queryKey: ['seasons'],
+    queryFn: () => api.seasons.list({}, purpose),
+  });
+}
+
+export function useSeason(id: string, purpose = 'View season summary') {
+  return useQuery({
+    queryKey: ['seasons', id],
+    queryFn: () => api.seasons.get({ params: { id } }, purpose),
+    enabled: !!id,
+  });
+}
+
+export function useCreateSeason() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateSeasonRequest) => api.seasons.create({ body: data }, 'Create season'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['seasons'] });
+    },
+  });
+}
+
+export function useUpdateSeason() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateSeasonRequest }) =>
+      api.seasons.update({ params: { id }, body: data }, 'Update season'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['seasons'] });
+    },
+  });
+}
+
+export function useDeleteSeason() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.seasons.delete({ params: { id } }, 'Delete season'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['seasons'] });
+      // Its goals are left outside any season
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+    },
+  });
+}
+
+export function useReviewSeason() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.seasons.review({ params: { id } }, 'Review season'),
+    onSuccess: (summary) => {
+      queryClient.setQueryData(['seasons', summary.season.id], summary);
+      queryClient.invalidateQueries({ queryKey: ['seasons'] });
+      // Reviewing closes the periods of its habit goals
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import type { UpdateSettingsRequest, WeekStartDay } from '@/types';
+
+export function useSettings(purpose = 'Load settings') {
+  return useQuery({
+    queryKey: ['settings'],
+    queryFn: () => api.settings.get({}, purpose),
+    staleTime: Infinity,
+  });
+}
+
+export function useUpdateSettings() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (data: UpdateSettingsRequest) => api.settings.update({ body: data }, 'Update settings'),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['settings'], settings);
+      // "Today" and week boundaries may have moved, so everything date-based is stale
+      queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] !== 'settings' });
+    },
+  });
+}
+
+// The user's configured timezone, falling back to this device's until settings load
+export function useTimezone(): string {
+  const { data } = useSettings();
+  return data?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function useWeekStart(): WeekStartDay {
+  const { data } = useSettings();
+  return data?.weekStart ?? 'sunday';
+}
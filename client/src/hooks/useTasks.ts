@@ -1,18 +1,21 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { tasksApi } from '@/api/client';
-import type { CreateTaskRequest, UpdateTaskRequest, CreateSubTaskRequest, UpdateSubTaskRequest } from '@/types';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import type { CreateTaskRequest, UpdateTaskRequest, CreateSubTaskRequest, UpdateSubTaskRequest, TaskFilters } from '@/types';
 
-export function useTasks(purpose = 'Load tasks list') {
-  return useQuery({
-    queryKey: ['tasks'],
-    queryFn: () => tasksApi.getAll(purpose),
+// Paged task listing; flatten data.pages[].items to render, fetchNextPage() for more
+export function useTasks(filters: TaskFilters = {}, purpose = 'Load tasks list') {
+  return useInfiniteQuery({
+    queryKey: ['tasks', 'list', filters],
+    queryFn: ({ pageParam }) => api.tasks.list({ query: { ...filters, cursor: pageParam } }, purpose),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 }
 
 export function useTask(id: string, purpose = 'View task details') {
   return useQuery({
     queryKey: ['tasks', id],
-    queryFn: () => tasksApi.getById(id, purpose),
+    queryFn: () => api.tasks.get({ params: { id } }, purpose),
     enabled: !!id,
   });
 }
@@ -21,7 +24,7 @@ export function useCreateTask() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (data: CreateTaskRequest) => tasksApi.create(data, 'Create new task'),
+    mutationFn: (data: CreateTaskRequest) => api.tasks.create({ body: data }, 'Create new task'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
     },
@@ -33,7 +36,7 @@ export function useUpdateTask() {
   
   return useMutation({
     mutationFn: ({ id, data }: { id: string; data: UpdateTaskRequest }) =>
-      tasksApi.update(id, data, 'Update task'),
+      api.tasks.update({ params: { id }, body: data }, 'Update task'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
     },
@@ -44,7 +47,7 @@ export function useDeleteTask() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (id: string) => tasksApi.delete(id, 'Delete task'),
+    mutationFn: (id: string) => api.tasks.delete({ params: { id } }, 'Delete task'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
     },
@@ -55,7 +58,8 @@ export function useAddSubTask() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (data: CreateSubTaskRequest) => tasksApi.addSubTask(data, 'Add subtask'),
+    mutationFn: ({ taskId, ...body }: CreateSubTaskRequest) =>
+      api.tasks.addSubTask({ params: { taskId }, body }, 'Add subtask'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
     },
@@ -67,7 +71,7 @@ export function useUpdateSubTask() {
   
   return useMutation({
     mutationFn: ({ taskId, subTaskId, data }: { taskId: string; subTaskId: string; data: UpdateSubTaskRequest }) =>
-      tasksApi.updateSubTask(taskId, subTaskId, data, 'Update subtask'),
+      api.tasks.updateSubTask({ params: { taskId, subTaskId }, body: data }, 'Update subtask'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
     },
@@ -79,7 +83,7 @@ export function useDeleteSubTask() {
   
   return useMutation({
     mutationFn: ({ taskId, subTaskId }: { taskId: string; subTaskId: string }) =>
-      tasksApi.deleteSubTask(taskId, subTaskId, 'Delete subtask'),
+      api.tasks.deleteSubTask({ params: { taskId, subTaskId } }, 'Delete subtask'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
     },
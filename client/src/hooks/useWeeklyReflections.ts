@@ -0,0 +1,24 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/client';
+import type { UpsertWeeklyReflectionRequest } from '@/types';
+
+export function useWeeklyReflections(limit = 52, purpose = 'Browse past reflections') {
+  return useQuery({
+    queryKey: ['weeklyReflections', 'history', limit],
+    queryFn: () => api.weeklyReflections.list({ query: { limit } }, purpose),
+  });
+}
+
+export function useSaveWeeklyReflection() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ weekStart, data }: { weekStart: string; data: UpsertWeeklyReflectionRequest }) =>
+      api.weeklyReflections.upsert({ params: { weekStart }, body: data }, 'Autosave weekly reflection'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['weeklyReflections', 'history'] });
+      // Mark summaries stale without refetching so the open editor isn't reset mid-typing
+      queryClient.invalidateQueries({ queryKey: ['weeklySummary'], refetchType: 'none' });
+    },
+  });
+}
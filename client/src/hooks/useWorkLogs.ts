@@ -1,25 +1,25 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { workLogsApi } from '@/api/client';
-import type { CreateWorkLogRequest } from '@/types';
+import { api } from '@/api/client';
+import type { CreateWorkLogRequest, UpdateWorkLogRequest } from '@/types';
 
 export function useWorkLogs(purpose = 'Load work logs') {
   return useQuery({
     queryKey: ['workLogs'],
-    queryFn: () => workLogsApi.getAll(purpose),
+    queryFn: () => api.workLogs.list({}, purpose),
   });
 }
 
 export function useTodayWorkLog(purpose = 'Check daily integrity status') {
   return useQuery({
     queryKey: ['workLogs', 'today'],
-    queryFn: () => workLogsApi.getToday(purpose),
+    queryFn: () => api.workLogs.getToday({}, purpose),
   });
 }
 
 export function useWorkLogByDate(date: string, purpose = 'View work log') {
   return useQuery({
     queryKey: ['workLogs', 'date', date],
-    queryFn: () => workLogsApi.getByDate(date, purpose),
+    queryFn: () => api.workLogs.getByDate({ params: { date } }, purpose),
     enabled: !!date,
   });
 }
@@ -28,7 +28,7 @@ export function useCreateWorkLog() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (data: CreateWorkLogRequest) => workLogsApi.create(data, 'Log daily integrity'),
+    mutationFn: (data: CreateWorkLogRequest) => api.workLogs.save({ body: data }, 'Log daily integrity'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['workLogs'] });
       queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
@@ -40,8 +40,8 @@ export function useUpdateWorkLog() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ({ id, data }: { id: number; data: Partial<CreateWorkLogRequest> }) =>
-      workLogsApi.update(id, data, 'Update integrity log'),
+    mutationFn: ({ id, data }: { id: number; data: UpdateWorkLogRequest }) =>
+      api.workLogs.update({ params: { id }, body: data }, 'Update integrity log'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['workLogs'] });
       queryClient.invalidateQueries({ queryKey: ['weeklySummary'] });
@@ -0,0 +1,42 @@
+import type { WeekStartDay } from '@/types';
+
+// Calendar dates are YYYY-MM-DD strings. Arithmetic is done in UTC so results never
+// depend on the browser's zone; "today" comes from the timezone saved in settings.
+
+export function todayIn(timezone: string): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date());
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// 0 = Sunday ... 6 = Saturday
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// First day of the week containing the date
+export function weekStartOf(date: string, weekStart: WeekStartDay): string {
+  const firstDay = weekStart === 'monday' ? 1 : 0;
+  return addDays(date, -((weekdayOf(date) - firstDay + 7) % 7));
+}
+
+// Weekday numbers (0 = Sunday) in display order for the preference
+export function orderedWeekdays(weekStart: WeekStartDay): number[] {
+  const firstDay = weekStart === 'monday' ? 1 : 0;
+  return Array.from({ length: 7 }, (_, i) => (firstDay + i) % 7);
+}
+
+// Format a calendar date without shifting it through the browser's zone
+export function formatDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
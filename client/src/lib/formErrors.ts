@@ -0,0 +1,29 @@
+import { ApiError } from '@/api/client';
+
+export interface FormErrors {
+  // Message per body field path, for the inputs the form renders
+  fields: Record<string, string>;
+  // Everything that can't be shown next to an input
+  general: string | null;
+}
+
+export const NO_FORM_ERRORS: FormErrors = { fields: {}, general: null };
+
+// Split a failed request into per-field messages and a general one for the rest
+export function formErrors(error: unknown, fields: readonly string[]): FormErrors {
+  if (!error) return NO_FORM_ERRORS;
+  if (!(error instanceof ApiError) || error.fieldErrors.length === 0) {
+    return { fields: {}, general: error instanceof Error ? error.message : 'Request failed' };
+  }
+
+  const byField: Record<string, string> = {};
+  const rest: string[] = [];
+  for (const fieldError of error.fieldErrors) {
+    if (fieldError.in === 'body' && fields.includes(fieldError.path)) {
+      byField[fieldError.path] ??= fieldError.message;
+    } else {
+      rest.push(fieldError.path ? `${fieldError.path}: ${fieldError.message}` : fieldError.message);
+    }
+  }
+  return { fields: byField, general: rest.length > 0 ? rest.join('; ') : null };
+}
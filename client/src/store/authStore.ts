@@ -0,0 +1,23 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Session, User } from '@/types';
+
+interface AuthState {
+  token: string | null;
+  user: User | null;
+  setSession: (session: Session) => void;
+  clearSession: () => void;
+}
+
+// The session token survives reloads; the API client attaches it to every request
+export const useAuthStore = create<AuthState>()(
+  persist(
+    (set) => ({
+      token: null,
+      user: null,
+      setSession: ({ token, user }) => set({ token, user }),
+      clearSession: () => set({ token: null, user: null }),
+    }),
+    { name: 'auditor-session' }
+  )
+);
@@ -1,209 +1,96 @@
-// Core domain types matching SQL schema
-
-export interface SubTask {
-  id: string;
-  text: string;
-  completed: boolean;
-}
-
-export interface Task {
-  id: string;
-  parentId: string | null;
-  title: string;
-  subTasks: SubTask[];
-  category: 'Work' | 'Admin' | 'Personal';
-  deadline: string | null;
-  scheduledCompleteDate: string | null;
-  isCompleted: boolean;
-  createdAt: string;
-}
-
-export interface WorkLog {
-  id: number;
-  logDate: string;
-  integrityScore: 0 | 1 | null;
-  missedOpportunityNote: string | null;
-  successNote: string | null;
-  createdAt: string;
-}
-
-export interface Expense {
-  id: number;
-  amount: number;
-  category: string;
-  note: string | null;
-  createdAt: string;
-}
-
-export type RecurrenceType = 'weekly' | 'monthly';
-
-export interface RecurringExpense {
-  id: number;
-  amount: number;
-  category: string;
-  note: string | null;
-  recurrenceType: RecurrenceType;
-  recurrenceDay: number;
-  isActive: boolean;
-  lastGeneratedDate: string | null;
-  createdAt: string;
-}
-
-export type GoalType = 'reading' | 'frequency' | 'numeric';
-export type FrequencyPeriod = 'daily' | 'weekly' | 'monthly';
-
-export interface Goal {
-  id: string;
-  parentId: string | null;
-  title: string;
-  goalType: GoalType;
-  targetValue: number;
-  unit: string;
-  currentValue: number;
-  totalPages: number | null;
-  currentPage: number;
-  frequencyPeriod: FrequencyPeriod | null;
-  startDate: string;
-  targetDate: string | null;
-  isActive: boolean;
-  createdAt: string;
-}
-
-export interface GoalLog {
-  id: number;
-  goalId: string;
-  logDate: string;
-  value: number;
-  note: string | null;
-  createdAt: string;
-}
-
-export interface GoalStats {
-  goal: Goal;
-  logs: GoalLog[];
-  subGoals: Goal[];
-  subGoalsCompleted: number;
-  velocity: number | null;
-  estimatedFinishDate: string | null;
-  daysRemaining: number | null;
-  progressPercent: number;
-  streak: number;
-  periodProgress: { current: number; target: number } | null;
-}
-
-export interface WeeklySummary {
-  weekStart: string;
-  weekEnd: string;
-  workLogs: WorkLog[];
-  expenses: Expense[];
-  expensesByCategory: Record<string, number>;
-  totalExpenses: number;
-  integrityRate: number;
-  goals: Goal[];
-  missedOpportunityNotes: string[];
-}
-
-// API request types
-export interface CreateTaskRequest {
-  title: string;
-  category: 'Work' | 'Admin' | 'Personal';
-  deadline?: string;
-  parentId?: string;
-}
-
-export interface UpdateTaskRequest {
-  title?: string;
-  category?: 'Work' | 'Admin' | 'Personal';
-  deadline?: string;
-  scheduledCompleteDate?: string | null;
-  isCompleted?: boolean;
-}
-
-export interface CreateSubTaskRequest {
+import type { CreateSubTaskRequest as CreateSubTaskBody } from '@contracts';
+
+// Request and response shapes come from the server's route contracts, so both
+// sides are checked against the same schemas
+export type {
+  ApiRoutes,
+  RouteContract,
+  RouteInput,
+  RouteResponse,
+  User,
+  Session,
+  RegisterRequest,
+  LoginRequest,
+  TokenScope,
+  ApiToken,
+  CreatedApiToken,
+  CreateApiTokenRequest,
+  TaskCategory,
+  TaskFilters,
+  RecurrenceType,
+  GoalType,
+  FrequencyPeriod,
+  NumericMode,
+  ArchiveReason,
+  PaceStatus,
+  SeriesBucket,
+  CsvDateFormat,
+  ExpenseImportMapping,
+  WeekStartDay,
+  FieldError,
+  ValidationErrorResponse,
+  SubTask,
+  Task,
+  TaskPage,
+  WorkLog,
+  Expense,
+  RecurringExpense,
+  Goal,
+  GoalLog,
+  GoalRelation,
+  GoalGraph,
+  GoalTreeNode,
+  GoalStats,
+  GoalPace,
+  GoalSeries,
+  GoalSeriesPoint,
+  GoalSeriesQuery,
+  GoalPeriod,
+  GoalPeriodHistory,
+  Season,
+  SeasonGoal,
+  SeasonSummary,
+  WeeklyReflection,
+  WeeklySummary,
+  ExpenseImportProfile,
+  ImportRowStatus,
+  ImportPreviewRow,
+  ExpenseImportPreview,
+  CommitExpenseImportResult,
+  Settings,
+  CreateTaskRequest,
+  UpdateTaskRequest,
+  UpdateSubTaskRequest,
+  CreateWorkLogRequest,
+  UpdateWorkLogRequest,
+  CreateExpenseRequest,
+  UpdateExpenseRequest,
+  CreateRecurringExpenseRequest,
+  UpdateRecurringExpenseRequest,
+  CreateGoalRequest,
+  UpdateGoalRequest,
+  LinkSubGoalRequest,
+  SetGoalParentsRequest,
+  UpdateSubGoalRequest,
+  CreateSeasonRequest,
+  UpdateSeasonRequest,
+  CreateGoalLogRequest,
+  UpdateGoalLogRequest,
+  BulkGoalLogRequest,
+  UpsertWeeklyReflectionRequest,
+  ExpenseImportPreviewRequest,
+  CommitExpenseImportRequest,
+  UpdateSettingsRequest,
+} from '@contracts';
+
+export { TOKEN_SCOPES, TOKEN_SCOPE_DESCRIPTIONS, goalProgressPercent, requiredPace } from '@contracts';
+
+// Subtasks are created under /tasks/:taskId, so the client carries the task id alongside the body
+export interface CreateSubTaskRequest extends CreateSubTaskBody {
   taskId: string;
-  text: string;
-}
-
-export interface UpdateSubTaskRequest {
-  completed?: boolean;
-  text?: string;
-}
-
-export interface CreateWorkLogRequest {
-  logDate: string;
-  integrityScore: 0 | 1;
-  missedOpportunityNote?: string;
-  successNote?: string;
-}
-
-export interface CreateExpenseRequest {
-  amount: number;
-  category: string;
-  note?: string;
-  createdAt?: string;
-}
-
-export interface UpdateExpenseRequest {
-  amount?: number;
-  category?: string;
-  note?: string;
-  createdAt?: string;
-}
-
-export interface CreateRecurringExpenseRequest {
-  amount: number;
-  category: string;
-  note?: string;
-  recurrenceType: RecurrenceType;
-  recurrenceDay: number;
-}
-
-export interface UpdateRecurringExpenseRequest {
-  amount?: number;
-  category?: string;
-  note?: string;
-  recurrenceType?: RecurrenceType;
-  recurrenceDay?: number;
-  isActive?: boolean;
-}
-
-export interface CreateGoalRequest {
-  title: string;
-  goalType: GoalType;
-  targetValue: number;
-  unit?: string;
-  totalPages?: number;
-  frequencyPeriod?: FrequencyPeriod;
-  targetDate?: string;
-  parentId?: string;
-}
-
-export interface UpdateGoalRequest {
-  title?: string;
-  targetValue?: number;
-  unit?: string;
-  currentValue?: number;
-  currentPage?: number;
-  totalPages?: number;
-  targetDate?: string;
-  isActive?: boolean;
-}
-
-export interface CreateGoalLogRequest {
-  value: number;
-  note?: string;
-  logDate?: string;
-}
-
-export interface UpdateGoalLogRequest {
-  value?: number;
-  note?: string;
-  logDate?: string;
 }
 
 // UI State types
-export type TaskCategory = 'Work' | 'Admin' | 'Personal';
-
 export const EXPENSE_CATEGORIES = [
   'Food',
   'Transport',
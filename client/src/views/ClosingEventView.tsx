@@ -1,11 +1,29 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { useWeeklySummary, useUpdateWorkLog } from '@/hooks';
+import { useWeeklySummary, useUpdateWorkLog, useWeeklyReflections, useSaveWeeklyReflection } from '@/hooks';
 import { IntegrityHeatmap } from '@/components/IntegrityHeatmap';
 import { SpendingChart } from '@/components/SpendingChart';
 import { GoalsProgress } from '@/components/GoalsProgress';
 import type { WorkLog } from '@/types';
 
+// Delay after the last keystroke before a reflection draft is saved
+const AUTOSAVE_DELAY_MS = 1000;
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+// Move a YYYY-MM-DD week start by a number of weeks
+function shiftWeek(weekStart: string, weeks: number): string {
+  const date = new Date(weekStart + 'T00:00:00Z');
+  date.setUTCDate(date.getUTCDate() + weeks * 7);
+  return date.toISOString().split('T')[0];
+}
+
+// First non-empty line of a markdown reflection, without heading/list markers
+function reflectionExcerpt(text: string): string {
+  const line = text.split('\n').map(l => l.trim()).find(l => l.length > 0) || '';
+  return line.replace(/^(#+|[-*]|\d+\.)\s*/, '');
+}
+
 // Shared Notes Content Component (view mode)
 function DayNotesContent({ log }: { log: WorkLog }) {
   return (
@@ -304,11 +322,22 @@ function DayNotesInline({
 }
 
 export function ClosingEventView() {
-  const { data: summary, isLoading } = useWeeklySummary();
+  // undefined means "the current week" as decided by the server
+  const [selectedWeek, setSelectedWeek] = useState<string | undefined>(undefined);
+  const { data: summary, isLoading } = useWeeklySummary(selectedWeek);
+  const { data: history = [] } = useWeeklyReflections();
+  const { mutate: saveReflection } = useSaveWeeklyReflection();
   const [reflection, setReflection] = useState('');
+  const [draftWeek, setDraftWeek] = useState<string | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const [showHistory, setShowHistory] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [selectedDay, setSelectedDay] = useState<{ log: WorkLog | null; date: string } | null>(null);
   const [isMobile, setIsMobile] = useState(false);
+  const currentWeekRef = useRef<string | null>(null);
+  const savedTextRef = useRef<string | null>(null);
+  const latestDraftRef = useRef<{ weekStart: string | null; text: string }>({ weekStart: null, text: '' });
+  latestDraftRef.current = { weekStart: draftWeek, text: reflection };
 
   // Detect mobile vs desktop based on screen width (matches Tailwind lg: breakpoint)
   useEffect(() => {
@@ -318,6 +347,60 @@ export function ClosingEventView() {
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
+  const persistDraft = useCallback((weekStart: string, text: string) => {
+    if (text === savedTextRef.current) return;
+    savedTextRef.current = text;
+    setSaveState('saving');
+    saveReflection(
+      { weekStart, data: { reflectionText: text } },
+      {
+        onSuccess: () => setSaveState('saved'),
+        onError: () => {
+          // Forget the optimistic marker so the next edit retries
+          savedTextRef.current = null;
+          setSaveState('error');
+        },
+      }
+    );
+  }, [saveReflection]);
+
+  // Load the saved reflection whenever a different week arrives
+  useEffect(() => {
+    if (!summary || summary.weekStart === draftWeek) return;
+    if (!selectedWeek) {
+      currentWeekRef.current = summary.weekStart;
+    }
+    const savedText = summary.reflection?.reflectionText ?? '';
+    savedTextRef.current = savedText;
+    setReflection(savedText);
+    setDraftWeek(summary.weekStart);
+    setSaveState('idle');
+  }, [summary, draftWeek, selectedWeek]);
+
+  // Autosave the draft shortly after typing stops
+  useEffect(() => {
+    if (!draftWeek) return;
+    const timer = setTimeout(() => persistDraft(draftWeek, reflection), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draftWeek, reflection, persistDraft]);
+
+  // Flush any unsaved draft when leaving the view
+  useEffect(() => {
+    return () => {
+      const { weekStart, text } = latestDraftRef.current;
+      if (weekStart) persistDraft(weekStart, text);
+    };
+  }, [persistDraft]);
+
+  const goToWeek = (weekStart: string) => {
+    if (draftWeek) persistDraft(draftWeek, reflection);
+    setSelectedDay(null);
+    setShowHistory(false);
+    setSelectedWeek(weekStart === currentWeekRef.current ? undefined : weekStart);
+  };
+
+  const isCurrentWeek = !selectedWeek || selectedWeek === currentWeekRef.current;
+
   // Auto-populate reflection with missed opportunity notes
   const autoPopulatedContent = useMemo(() => {
     if (!summary || summary.missedOpportunityNotes.length === 0) return '';
@@ -330,17 +413,17 @@ export function ClosingEventView() {
     return content;
   }, [summary]);
 
-  // Set auto-populated content when summary loads
-  useState(() => {
-    if (autoPopulatedContent && !reflection) {
-      setReflection(autoPopulatedContent);
-    }
-  });
-
   const handleUseTemplate = () => {
     setReflection(autoPopulatedContent);
   };
 
+  const saveStateLabel: Record<SaveState, string> = {
+    idle: '',
+    saving: 'Saving…',
+    saved: 'Saved',
+    error: 'Save failed – will retry on next edit',
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-surface-900 flex items-center justify-center">
@@ -366,9 +449,34 @@ export function ClosingEventView() {
             <h1 className="text-lg font-semibold text-gray-100 mt-1">
               Weekly Closing Event
             </h1>
-            <p className="text-xs text-gray-500 font-mono">
-              {summary.weekStart} → {summary.weekEnd}
-            </p>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => goToWeek(shiftWeek(summary.weekStart, -1))}
+                className="text-gray-500 hover:text-gray-300 text-sm"
+                title="Previous week"
+              >
+                ‹
+              </button>
+              <p className="text-xs text-gray-500 font-mono">
+                {summary.weekStart} → {summary.weekEnd}
+              </p>
+              <button
+                onClick={() => goToWeek(shiftWeek(summary.weekStart, 1))}
+                disabled={isCurrentWeek}
+                className="text-gray-500 hover:text-gray-300 text-sm disabled:opacity-30"
+                title="Next week"
+              >
+                ›
+              </button>
+              {!isCurrentWeek && currentWeekRef.current && (
+                <button
+                  onClick={() => goToWeek(currentWeekRef.current!)}
+                  className="text-xs text-accent-blue hover:text-blue-400"
+                >
+                  This week
+                </button>
+              )}
+            </div>
           </div>
           <div className="text-right">
             <div className="text-2xl font-mono font-bold text-gray-100">
@@ -443,6 +551,12 @@ export function ClosingEventView() {
               Weekly Reflection
             </h2>
             <div className="flex gap-2">
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="text-xs text-gray-500 hover:text-gray-300"
+              >
+                {showHistory ? 'Hide History' : 'History'}
+              </button>
               {autoPopulatedContent && !reflection && (
                 <button
                   onClick={handleUseTemplate}
@@ -460,6 +574,30 @@ export function ClosingEventView() {
             </div>
           </div>
 
+          {/* Past reflections */}
+          {showHistory && (
+            <div className="bg-surface-700 rounded-lg divide-y divide-surface-600">
+              {history.length === 0 ? (
+                <div className="p-3 text-sm text-gray-500">No saved reflections yet</div>
+              ) : (
+                history.map((item) => (
+                  <button
+                    key={item.id}
+                    onClick={() => goToWeek(item.weekStart)}
+                    className={`w-full text-left p-3 hover:bg-surface-600 transition-colors ${
+                      item.weekStart === summary.weekStart ? 'bg-surface-600' : ''
+                    }`}
+                  >
+                    <div className="text-xs text-gray-500 font-mono">{item.weekStart}</div>
+                    <div className="text-sm text-gray-300 truncate">
+                      {reflectionExcerpt(item.reflectionText) || 'Empty reflection'}
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+
           {/* Auto-populated notes hint */}
           {summary.missedOpportunityNotes.length > 0 && !reflection && (
             <div className="bg-surface-700 rounded-lg p-3 border-l-2 border-accent-amber">
@@ -503,7 +641,14 @@ Use markdown for formatting..."
           {/* Save indicator */}
           <div className="flex items-center justify-between text-xs text-gray-500">
             <span>Supports Markdown</span>
-            <span>{reflection.length} characters</span>
+            <span>
+              {saveStateLabel[saveState] && (
+                <span className={saveState === 'error' ? 'text-accent-red' : ''}>
+                  {saveStateLabel[saveState]} ·{' '}
+                </span>
+              )}
+              {reflection.length} characters
+            </span>
           </div>
         </div>
       </div>
@@ -0,0 +1,339 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  useExpenseImportProfiles,
+  useSaveExpenseImportProfile,
+  usePreviewExpenseImport,
+  useCommitExpenseImport,
+} from '@/hooks';
+import type { CsvDateFormat, ExpenseImportMapping, ImportPreviewRow, ImportRowStatus } from '@/types';
+
+const CATEGORIES = ['Food', 'Groceries', 'Transport', 'Shopping', 'Bills', 'Entertainment', 'Health', 'Other'];
+
+const DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: 'text-accent-green',
+  duplicate: 'text-accent-amber',
+  invalid: 'text-accent-red',
+  skipped: 'text-gray-500',
+};
+
+const EMPTY_MAPPING: ExpenseImportMapping = {
+  amountColumn: '',
+  dateColumn: '',
+  noteColumn: null,
+  categoryColumn: null,
+  dateFormat: 'DD/MM/YYYY',
+  expenseSign: 'negative',
+  defaultCategory: 'Other',
+};
+
+// Guess a column by common header names, e.g. "Amount" or "Transaction Date"
+function guessColumn(headers: string[], hints: string[]): string {
+  return headers.find(h => hints.some(hint => h.toLowerCase().includes(hint))) || '';
+}
+
+export function ExpenseImportView() {
+  const navigate = useNavigate();
+  const { data: profiles = [] } = useExpenseImportProfiles();
+  const saveProfile = useSaveExpenseImportProfile();
+  const preview = usePreviewExpenseImport();
+  const commitImport = useCommitExpenseImport();
+
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [bankName, setBankName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ExpenseImportMapping>(EMPTY_MAPPING);
+  const [rows, setRows] = useState<ImportPreviewRow[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const isMapped = !!mapping.amountColumn && !!mapping.dateColumn;
+  const isPending = saveProfile.isPending || commitImport.isPending;
+  // Matched here, so typing a bank name only uploads the file again once it names a saved one
+  const savedBankName = profiles.find(p => p.bankName === bankName.trim())?.bankName;
+
+  // Load headers (and the saved mapping, if this bank has one) whenever the file or saved bank changes
+  useEffect(() => {
+    if (!csv) return;
+    setError(null);
+    preview.mutate({ csv, bankName: savedBankName }, {
+      onSuccess: (result) => {
+        setHeaders(result.headers);
+        if (result.mapping) {
+          applyPreview(result.mapping, result.rows);
+        } else {
+          setMapping(prev => ({
+            ...prev,
+            amountColumn: result.headers.includes(prev.amountColumn)
+              ? prev.amountColumn
+              : guessColumn(result.headers, ['amount', 'debit', 'sum']),
+            dateColumn: result.headers.includes(prev.dateColumn)
+              ? prev.dateColumn
+              : guessColumn(result.headers, ['date']),
+          }));
+          setRows([]);
+        }
+      },
+      onError: (err) => setError((err as Error).message),
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [csv, savedBankName]);
+
+  const applyPreview = (used: ExpenseImportMapping, previewRows: ImportPreviewRow[]) => {
+    setMapping(used);
+    setRows(previewRows);
+    // Duplicates start unchecked so they are only imported on purpose
+    setSelected(new Set(previewRows.filter(r => r.status === 'new').map(r => r.line)));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+  };
+
+  const handlePreview = () => {
+    setError(null);
+    preview.mutate({ csv, mapping }, {
+      onSuccess: (result) => applyPreview(result.mapping || mapping, result.rows),
+      onError: (err) => setError((err as Error).message),
+    });
+  };
+
+  const toggleRow = (line: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(line)) {
+        next.delete(line);
+      } else {
+        next.add(line);
+      }
+      return next;
+    });
+  };
+
+  const updateMapping = (changes: Partial<ExpenseImportMapping>) => {
+    setMapping(prev => ({ ...prev, ...changes }));
+    setRows([]);
+  };
+
+  const handleImport = async () => {
+    const chosen = rows.filter(r => selected.has(r.line) && r.amount !== null && r.date);
+    if (chosen.length === 0) return;
+    setError(null);
+
+    try {
+      if (bankName.trim()) {
+        await saveProfile.mutateAsync({ bankName: bankName.trim(), mapping });
+      }
+      const result = await commitImport.mutateAsync({
+        rows: chosen.map(r => ({
+          amount: r.amount as number,
+          date: r.date as string,
+          note: r.note || undefined,
+          category: r.category,
+        })),
+      });
+      if (result.errors.length > 0) {
+        setError(`${result.created.length} imported, ${result.errors.length} rejected: ${result.errors[0].message}`);
+        return;
+      }
+      navigate('/expenses');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const counts = rows.reduce<Record<ImportRowStatus, number>>(
+    (acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }),
+    { new: 0, duplicate: 0, invalid: 0, skipped: 0 }
+  );
+
+  return (
+    <div className="min-h-screen bg-surface-900 flex flex-col pb-24">
+      {/* Header */}
+      <header className="bg-surface-800 px-4 py-3 flex items-center justify-between border-b border-surface-700">
+        <button
+          onClick={() => navigate(-1)}
+          className="p-2 -ml-2 text-gray-400 hover:text-gray-200"
+        >
+          <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h1 className="text-gray-200 font-medium">Import Bank CSV</h1>
+        <div className="w-10" />
+      </header>
+
+      <div className="px-4 py-4 space-y-4">
+        {/* File & Bank */}
+        <div className="bg-surface-800 rounded-xl p-4 space-y-3">
+          <label className="block">
+            <span className="text-gray-400 text-sm">Statement file</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFile}
+              className="mt-1 block w-full text-sm text-gray-300 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-surface-600 file:text-gray-200"
+            />
+          </label>
+          {fileName && <p className="text-gray-500 text-xs">{fileName}</p>}
+
+          <label className="block">
+            <span className="text-gray-400 text-sm">Bank</span>
+            <input
+              type="text"
+              list="import-profiles"
+              value={bankName}
+              onChange={(e) => setBankName(e.target.value)}
+              placeholder="e.g. Leumi (mapping is saved per bank)"
+              className="mt-1 w-full bg-surface-700 border-0 rounded-xl px-4 py-2 text-gray-200 placeholder-gray-500"
+            />
+            <datalist id="import-profiles">
+              {profiles.map(p => <option key={p.id} value={p.bankName} />)}
+            </datalist>
+          </label>
+        </div>
+
+        {/* Column Mapping */}
+        {headers.length > 0 && (
+          <div className="bg-surface-800 rounded-xl p-4 space-y-3">
+            <p className="text-gray-200 font-medium">Columns</p>
+            <div className="grid grid-cols-2 gap-3">
+              <ColumnSelect label="Amount" value={mapping.amountColumn} headers={headers}
+                onChange={(v) => updateMapping({ amountColumn: v })} />
+              <ColumnSelect label="Date" value={mapping.dateColumn} headers={headers}
+                onChange={(v) => updateMapping({ dateColumn: v })} />
+              <ColumnSelect label="Note" value={mapping.noteColumn || ''} headers={headers} optional
+                onChange={(v) => updateMapping({ noteColumn: v || null })} />
+              <ColumnSelect label="Category" value={mapping.categoryColumn || ''} headers={headers} optional
+                onChange={(v) => updateMapping({ categoryColumn: v || null })} />
+
+              <label className="block">
+                <span className="text-gray-400 text-xs">Date format</span>
+                <select
+                  value={mapping.dateFormat}
+                  onChange={(e) => updateMapping({ dateFormat: e.target.value as CsvDateFormat })}
+                  className="mt-1 w-full bg-surface-700 rounded-lg px-3 py-2 text-gray-200 text-sm"
+                >
+                  {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-400 text-xs">Expenses are</span>
+                <select
+                  value={mapping.expenseSign}
+                  onChange={(e) => updateMapping({ expenseSign: e.target.value as ExpenseImportMapping['expenseSign'] })}
+                  className="mt-1 w-full bg-surface-700 rounded-lg px-3 py-2 text-gray-200 text-sm"
+                >
+                  <option value="negative">Negative amounts</option>
+                  <option value="positive">Positive amounts</option>
+                </select>
+              </label>
+              <label className="block col-span-2">
+                <span className="text-gray-400 text-xs">Default category</span>
+                <select
+                  value={mapping.defaultCategory}
+                  onChange={(e) => updateMapping({ defaultCategory: e.target.value })}
+                  className="mt-1 w-full bg-surface-700 rounded-lg px-3 py-2 text-gray-200 text-sm"
+                >
+                  {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </label>
+            </div>
+            <button
+              onClick={handlePreview}
+              disabled={!isMapped || preview.isPending}
+              className="btn btn-ghost w-full"
+            >
+              {preview.isPending ? 'Parsing...' : 'Preview'}
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-accent-red text-sm bg-red-500/10 rounded-xl px-4 py-3">{error}</p>
+        )}
+
+        {/* Preview */}
+        {rows.length > 0 && (
+          <div className="bg-surface-800 rounded-xl p-4">
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-gray-200 font-medium">{rows.length} rows</p>
+              <p className="text-gray-500 text-xs">
+                {counts.new} new · {counts.duplicate} duplicate · {counts.invalid + counts.skipped} ignored
+              </p>
+            </div>
+            <div className="space-y-1 max-h-[50vh] overflow-y-auto">
+              {rows.map(row => {
+                const selectable = row.status === 'new' || row.status === 'duplicate';
+                return (
+                  <label
+                    key={row.line}
+                    className={`flex items-center gap-3 p-2 rounded-lg ${selectable ? 'hover:bg-surface-700 cursor-pointer' : 'opacity-60'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(row.line)}
+                      disabled={!selectable}
+                      onChange={() => toggleRow(row.line)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-gray-200 text-sm truncate">{row.note || row.category}</p>
+                      <p className="text-gray-500 text-xs">
+                        {row.date || '—'} · {row.category} ·{' '}
+                        <span className={STATUS_STYLES[row.status]}>{row.error || row.status}</span>
+                      </p>
+                    </div>
+                    <p className="text-gray-200 text-sm">
+                      {row.amount !== null ? `₪${row.amount.toFixed(2)}` : '—'}
+                    </p>
+                  </label>
+                );
+              })}
+            </div>
+            <button
+              onClick={handleImport}
+              disabled={isPending || selected.size === 0}
+              className="btn btn-primary w-full mt-4"
+            >
+              {isPending ? 'Importing...' : `Import ${selected.size} expense${selected.size !== 1 ? 's' : ''}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ColumnSelect({
+  label,
+  value,
+  headers,
+  optional = false,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  headers: string[];
+  optional?: boolean;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="block">
+      <span className="text-gray-400 text-xs">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 w-full bg-surface-700 rounded-lg px-3 py-2 text-gray-200 text-sm"
+      >
+        <option value="">{optional ? '(none)' : 'Choose column'}</option>
+        {headers.map(h => <option key={h} value={h}>{h}</option>)}
+      </select>
+    </label>
+  );
+}
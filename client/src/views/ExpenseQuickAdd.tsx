@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { useCreateExpense, useUpdateExpense, useExpense, useCreateRecurringExpense } from '@/hooks';
-import type { RecurrenceType } from '@/types';
+import { useCreateExpense, useUpdateExpense, useExpense, useCreateRecurringExpense, useWeekStart } from '@/hooks';
+import { orderedWeekdays } from '@/lib/dates';
+import type { RecurrenceType, WeekStartDay } from '@/types';
+import { formErrors } from '@/lib/formErrors';
+import { FieldErrorText } from '@/components/FieldErrorText';
 
 // Categories with icons and colors
 const CATEGORIES = [
@@ -17,8 +20,14 @@ const CATEGORIES = [
 
 type CategoryId = typeof CATEGORIES[number]['id'];
 
+// Indexed by recurrence_day for weekly recurring expenses (Mon=0 ... Sun=6)
 const DAYS_OF_WEEK = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
 
+// Recurrence days in display order for the week-start preference
+function recurrenceDaysInOrder(weekStart: WeekStartDay): number[] {
+  return orderedWeekdays(weekStart).map(weekday => (weekday + 6) % 7);
+}
+
 export function ExpenseQuickAdd() {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
@@ -55,6 +64,10 @@ export function ExpenseQuickAdd() {
   const selectedCat = CATEGORIES.find(c => c.id === category)!;
 
   const isPending = createExpense.isPending || updateExpense.isPending || createRecurringExpense.isPending;
+  const errors = formErrors(
+    createRecurringExpense.error ?? updateExpense.error ?? createExpense.error,
+    ['amount', 'note', 'recurrenceDay']
+  );
 
   // Handle keypad input
   const handleKeyPress = (key: string) => {
@@ -244,6 +257,7 @@ export function ExpenseQuickAdd() {
                 {isRecurring && (
                   <p className="text-gray-500 text-sm">{getRecurrenceLabel()}</p>
                 )}
+                <FieldErrorText message={errors.fields.recurrenceDay} />
               </div>
             </div>
             <button
@@ -283,6 +297,7 @@ export function ExpenseQuickAdd() {
         <p className="text-5xl font-light text-gray-100">
           <span className="text-3xl text-accent-blue">₪</span> {amount}
         </p>
+        <FieldErrorText message={errors.fields.amount} />
         
         {/* Notes Input */}
         <input
@@ -292,6 +307,8 @@ export function ExpenseQuickAdd() {
           placeholder="Notes..."
           className="mt-4 w-full max-w-xs text-center bg-surface-700 border-0 rounded-xl px-4 py-3 text-gray-200 placeholder-gray-500"
         />
+        <FieldErrorText message={errors.fields.note} />
+        <FieldErrorText message={errors.general ?? undefined} />
       </div>
 
       {/* Custom Keypad */}
@@ -432,8 +449,7 @@ function RecurringOptionsModal({
 }) {
   const [tempType, setTempType] = useState(recurrenceType);
   const [tempDay, setTempDay] = useState(recurrenceDay);
-
-  const DAYS_OF_WEEK = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+  const weekStart = useWeekStart();
 
   return (
     <div 
@@ -456,7 +472,7 @@ function RecurringOptionsModal({
             <button
               onClick={() => {
                 setTempType('weekly');
-                setTempDay(0); // Default to Monday
+                setTempDay(recurrenceDaysInOrder(weekStart)[0]); // Default to the first day of the week
               }}
               className={`flex-1 py-3 rounded-xl font-medium transition-colors ${
                 tempType === 'weekly'
@@ -486,9 +502,9 @@ function RecurringOptionsModal({
             <div>
               <p className="text-gray-500 text-sm mb-2">Day of week</p>
               <div className="grid grid-cols-7 gap-1">
-                {DAYS_OF_WEEK.map((day, index) => (
+                {recurrenceDaysInOrder(weekStart).map((index) => (
                   <button
-                    key={day}
+                    key={index}
                     onClick={() => setTempDay(index)}
                     className={`py-2 rounded-lg text-sm font-medium transition-colors ${
                       tempDay === index
@@ -496,7 +512,7 @@ function RecurringOptionsModal({
                         : 'bg-surface-700 text-gray-400 hover:bg-surface-600'
                     }`}
                   >
-                    {day}
+                    {DAYS_OF_WEEK[index]}
                   </button>
                 ))}
               </div>
@@ -555,8 +571,10 @@ function DatePickerModal({
 }) {
   const [viewDate, setViewDate] = useState(new Date(selectedDate));
   const [tempDate, setTempDate] = useState(new Date(selectedDate));
+  const weekStart = useWeekStart();
 
-  const DAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+  const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+  const DAYS = orderedWeekdays(weekStart).map(weekday => WEEKDAY_LETTERS[weekday]);
   const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 
                   'July', 'August', 'September', 'October', 'November', 'December'];
 
@@ -568,9 +586,8 @@ function DatePickerModal({
     const firstDay = new Date(year, month, 1);
     const lastDay = new Date(year, month + 1, 0);
     
-    // Adjust for Monday start (0 = Sunday, so we convert)
-    let startDay = firstDay.getDay() - 1;
-    if (startDay < 0) startDay = 6;
+    // Blank cells before the 1st, counted from the preferred first weekday
+    const startDay = orderedWeekdays(weekStart).indexOf(firstDay.getDay());
     
     const days: (number | null)[] = [];
     
@@ -1,6 +1,7 @@
 import { useMemo, useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useExpensesByDateRange, useDeleteExpense, useGenerateRecurringExpenses } from '@/hooks';
+import { useExpensesByDateRange, useDeleteExpense, useGenerateRecurringExpenses, useTimezone } from '@/hooks';
+import { todayIn, addDays, formatDate } from '@/lib/dates';
 import type { Expense } from '@/types';
 
 // Category icons mapping
@@ -45,6 +46,7 @@ export function ExpensesView() {
   const navigate = useNavigate();
   const deleteExpense = useDeleteExpense();
   const generateRecurring = useGenerateRecurringExpenses();
+  const timezone = useTimezone();
   
   const [viewMode, setViewMode] = useState<ViewMode>('timeline');
 
@@ -55,16 +57,16 @@ export function ExpensesView() {
   }, []);
 
   // Get first day of current month and last day of current month
+  const today = todayIn(timezone);
   const { startDate, endDate, monthName } = useMemo(() => {
-    const now = new Date();
-    const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
-    const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+    const firstDay = `${today.slice(0, 7)}-01`;
+    const lastDay = addDays(`${addDays(firstDay, 31).slice(0, 7)}-01`, -1);
     return {
-      startDate: firstDay.toISOString().split('T')[0],
-      endDate: lastDay.toISOString().split('T')[0],
-      monthName: now.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+      startDate: firstDay,
+      endDate: lastDay,
+      monthName: formatDate(firstDay, { month: 'long', year: 'numeric' }),
     };
-  }, []);
+  }, [today]);
 
   const { data: expenses = [], isLoading } = useExpensesByDateRange(startDate, endDate);
 
@@ -77,6 +79,7 @@ export function ExpensesView() {
         weekday: 'short',
         month: 'short',
         day: 'numeric',
+        timeZone: timezone,
       });
       if (!groups[date]) {
         groups[date] = [];
@@ -86,14 +89,14 @@ export function ExpensesView() {
 
     return Object.entries(groups).sort((a, b) => {
       const dateA = new Date(expenses.find(e => 
-        new Date(e.createdAt).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }) === a[0]
+        new Date(e.createdAt).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: timezone }) === a[0]
       )?.createdAt || 0);
       const dateB = new Date(expenses.find(e => 
-        new Date(e.createdAt).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }) === b[0]
+        new Date(e.createdAt).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: timezone }) === b[0]
       )?.createdAt || 0);
       return dateB.getTime() - dateA.getTime();
     });
-  }, [expenses]);
+  }, [expenses, timezone]);
 
   // Group expenses by category for category view
   const categoryBreakdown = useMemo(() => {
@@ -134,6 +137,7 @@ export function ExpensesView() {
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
+      timeZone: timezone,
     });
   };
 
@@ -184,6 +188,14 @@ export function ExpensesView() {
           <span className="text-xl">+</span>
           <span>Add</span>
         </button>
+
+        {/* Import CSV Button */}
+        <button
+          onClick={() => navigate('/expense/import')}
+          className="bg-surface-700 hover:bg-surface-600 text-gray-200 px-4 py-2 rounded-xl transition-colors"
+        >
+          Import
+        </button>
       </div>
 
       {/* Content */}
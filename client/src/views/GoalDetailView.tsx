@@ -1,27 +1,58 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { useGoalStats, useLogGoalProgress, useDeleteGoal, useUpdateGoalLog } from '@/hooks';
+import {
+  useGoalStats, useGoalGraph, useGoalTree, useLogGoalProgress, useUpdateGoalLog, useDeleteGoalLog, useUnlinkSubGoal,
+  useUpdateSubGoal,
+} from '@/hooks';
 import { GoalFormModal } from '@/components/GoalFormModal';
-import type { Goal, GoalLog } from '@/types';
+import { GoalPeriodStrip } from '@/components/GoalPeriodStrip';
+import { GoalProgressChart } from '@/components/GoalProgressChart';
+import { ArchiveGoalModal } from '@/components/ArchiveGoalModal';
+import { AttachSubGoalModal } from '@/components/AttachSubGoalModal';
+import { BackfillLogsModal } from '@/components/BackfillLogsModal';
+import { FieldErrorText } from '@/components/FieldErrorText';
+import { formErrors } from '@/lib/formErrors';
+import { formatDate } from '@/lib/dates';
+import { goalProgressPercent } from '@/types';
+import type { Goal, GoalLog, GoalTreeNode, PaceStatus } from '@/types';
+
+// How long the undo bar stays up after deleting a log
+const UNDO_WINDOW_MS = 6000;
+
+// Offered for a sub-goal's weight in its numeric parent's roll-up
+const SUB_GOAL_WEIGHTS = [1, 2, 3, 5];
+
+// Days of history the velocity can be fitted over
+const VELOCITY_WINDOWS = [7, 30, 90];
+
+const PACE_LABELS: Record<PaceStatus, { label: string; className: string }> = {
+  ahead: { label: 'Ahead', className: 'bg-accent-green/20 text-accent-green' },
+  on_track: { label: 'On track', className: 'bg-accent-blue/20 text-accent-blue' },
+  behind: { label: 'Behind', className: 'bg-accent-red/20 text-accent-red' },
+};
 
 // Goal Log Edit Modal Component
 function GoalLogEditModal({ 
   log, 
   goal, 
-  onClose 
+  onClose,
+  onDeleted
 }: { 
   log: GoalLog; 
   goal: Goal; 
   onClose: () => void;
+  onDeleted: (log: GoalLog) => void;
 }) {
   const updateGoalLog = useUpdateGoalLog();
+  const deleteGoalLog = useDeleteGoalLog();
   const [value, setValue] = useState(log.value.toString());
   const [note, setNote] = useState(log.note || '');
   const [logDate, setLogDate] = useState(log.logDate);
+  const errors = formErrors(updateGoalLog.error, ['logDate', 'value', 'note']);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const numValue = parseInt(value);
+    const numValue = goal.goalType === 'numeric' ? parseFloat(value) : parseInt(value);
     if (isNaN(numValue)) return;
 
     updateGoalLog.mutate(
@@ -38,6 +69,13 @@ function GoalLogEditModal({
     );
   };
 
+  const handleDelete = () => {
+    deleteGoalLog.mutate(
+      { goalId: goal.id, logId: log.id },
+      { onSuccess: (result) => onDeleted(result.log) }
+    );
+  };
+
   // For frequency goals, use toggle buttons instead of number input
   const handleToggleValue = (newValue: 0 | 1) => {
     setValue(newValue.toString());
@@ -64,6 +102,7 @@ function GoalLogEditModal({
               onChange={(e) => setLogDate(e.target.value)}
               className="w-full"
             />
+            <FieldErrorText message={errors.fields.logDate} />
           </div>
 
           {/* Value - depends on goal type */}
@@ -94,6 +133,7 @@ function GoalLogEditModal({
                   ✗ Didn't
                 </button>
               </div>
+              <FieldErrorText message={errors.fields.value} />
             </div>
           ) : (
             <div>
@@ -102,10 +142,12 @@ function GoalLogEditModal({
               </label>
               <input
                 type="number"
+                step={goal.goalType === 'numeric' ? 'any' : undefined}
                 value={value}
                 onChange={(e) => setValue(e.target.value)}
                 className="w-full text-lg font-mono"
               />
+              <FieldErrorText message={errors.fields.value} />
             </div>
           )}
 
@@ -119,9 +161,21 @@ function GoalLogEditModal({
               placeholder="Any notes..."
               className="w-full"
             />
+            <FieldErrorText message={errors.fields.note} />
           </div>
 
+          <FieldErrorText message={errors.general ?? undefined} />
+          <FieldErrorText message={deleteGoalLog.error?.message} />
+
           <div className="flex gap-2 pt-2">
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={deleteGoalLog.isPending || updateGoalLog.isPending}
+              className="btn bg-accent-red/20 text-accent-red hover:bg-accent-red/30"
+            >
+              {deleteGoalLog.isPending ? 'Deleting...' : 'Delete'}
+            </button>
             <button
               type="button"
               onClick={onClose}
@@ -146,21 +200,35 @@ function GoalLogEditModal({
 export function GoalDetailView() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { data: stats, isLoading } = useGoalStats(id!);
+  const [velocityWindow, setVelocityWindow] = useState(30);
+  const { data: stats, isLoading } = useGoalStats(id!, velocityWindow);
+  const { data: graph } = useGoalGraph();
+  const { data: tree } = useGoalTree(id!);
   const logProgress = useLogGoalProgress();
-  const deleteGoal = useDeleteGoal();
+  const unlinkSubGoal = useUnlinkSubGoal();
+  const updateSubGoal = useUpdateSubGoal();
 
   const [logValue, setLogValue] = useState('');
   const [logNote, setLogNote] = useState('');
   const [showLogForm, setShowLogForm] = useState(false);
   const [showAddSubGoal, setShowAddSubGoal] = useState(false);
+  const [showAttachSubGoal, setShowAttachSubGoal] = useState(false);
   const [showEditGoal, setShowEditGoal] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [showBackfill, setShowBackfill] = useState(false);
   
   // Habit-specific state
   const [habitNote, setHabitNote] = useState('');
   const [showHabitNoteFor, setShowHabitNoteFor] = useState<'did' | 'didnt' | null>(null);
   const [historyFilter, setHistoryFilter] = useState<'positive' | 'negative' | null>(null);
   const [editingLog, setEditingLog] = useState<GoalLog | null>(null);
+  const [deletedLog, setDeletedLog] = useState<GoalLog | null>(null);
+
+  useEffect(() => {
+    if (!deletedLog) return;
+    const timer = setTimeout(() => setDeletedLog(null), UNDO_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [deletedLog]);
 
   if (isLoading || !stats) {
     return (
@@ -170,11 +238,20 @@ export function GoalDetailView() {
     );
   }
 
-  const { goal, logs, subGoals, subGoalsCompleted, velocity, estimatedFinishDate, daysRemaining, progressPercent, streak, periodProgress } = stats;
+  const {
+    goal, logs, subGoals, subGoalsCompleted, velocity, estimatedFinishDate, daysRemaining, pace, progressPercent, streak,
+    periodProgress,
+  } = stats;
+
+  // A goal can sit under several parents
+  const parents = (graph?.edges ?? [])
+    .filter(edge => edge.childId === goal.id)
+    .flatMap(edge => graph?.nodes.filter(node => node.id === edge.parentId) ?? []);
+  const paceUnit = goal.goalType === 'reading' ? 'pages' : goal.goalType === 'frequency' ? 'times' : goal.unit || 'units';
 
   const handleLogSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const value = parseInt(logValue);
+    const value = goal.goalType === 'numeric' ? parseFloat(logValue) : parseInt(logValue);
     if (isNaN(value)) return;
 
     logProgress.mutate(
@@ -202,27 +279,28 @@ export function GoalDetailView() {
     );
   };
 
-  const handleDelete = () => {
-    if (confirm('Archive this goal? You can reactivate it later.')) {
-      deleteGoal.mutate(goal.id, {
-        onSuccess: () => navigate('/goals'),
-      });
-    }
+  // Logging the deleted entry's date again restores it
+  const handleUndoDelete = () => {
+    if (!deletedLog) return;
+    logProgress.mutate(
+      {
+        id: goal.id,
+        data: { value: deletedLog.value, note: deletedLog.note ?? undefined, logDate: deletedLog.logDate },
+      },
+      { onSuccess: () => setDeletedLog(null) }
+    );
   };
 
-  // Helper to get progress percentage for any sub-goal type
-  const getSubGoalProgress = (sg: Goal): number => {
-    if (sg.goalType === 'reading' && sg.totalPages) {
-      return Math.min(Math.round(((sg.currentPage ?? 0) / sg.totalPages) * 100), 100);
-    }
-    if (sg.targetValue > 0) {
-      return Math.min(Math.round((sg.currentValue / sg.targetValue) * 100), 100);
-    }
-    return 0;
-  };
+  // Sub-goals as they stand in this goal's roll-up, with their weight in it
+  const subGoalNodes = new Map<string, GoalTreeNode>(tree?.children.map(node => [node.goal.id, node]));
+  const rollsUp = goal.goalType === 'numeric';
 
   // Helper to get progress text for any sub-goal type
   const getSubGoalProgressText = (sg: Goal): string => {
+    const node = subGoalNodes.get(sg.id);
+    if (sg.goalType === 'numeric' && node && node.children.length > 0) {
+      return `${node.rollupPercent}% of ${node.children.length} sub-goals`;
+    }
     if (sg.goalType === 'reading' && sg.totalPages) {
       return `${sg.currentPage ?? 0}/${sg.totalPages} pg`;
     }
@@ -240,9 +318,24 @@ export function GoalDetailView() {
       {/* Header */}
       <header className="sticky top-0 z-30 bg-surface-900/95 backdrop-blur-sm border-b border-surface-700">
         <div className="px-4 py-3">
-          <Link to="/goals" className="text-xs text-accent-blue hover:text-blue-400">
-            ← All Goals
-          </Link>
+          <div className="text-xs text-gray-500">
+            <Link to="/goals" className="text-accent-blue hover:text-blue-400">
+              ← All Goals
+            </Link>
+            {parents.length > 0 && (
+              <>
+                {' · under '}
+                {parents.map((parent, i) => (
+                  <span key={parent.id}>
+                    {i > 0 && ', '}
+                    <Link to={`/goals/${parent.id}`} className="text-gray-400 hover:text-gray-200">
+                      {parent.title}
+                    </Link>
+                  </span>
+                ))}
+              </>
+            )}
+          </div>
           <div className="flex items-center justify-between mt-1">
             <h1 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
               <span>{typeIcon}</span>
@@ -259,7 +352,7 @@ export function GoalDetailView() {
                 Edit
               </button>
               <button
-                onClick={handleDelete}
+                onClick={() => setShowArchive(true)}
                 className="text-xs text-gray-500 hover:text-accent-red"
               >
                 Archive
@@ -302,8 +395,12 @@ export function GoalDetailView() {
 
           {goal.goalType === 'numeric' && (
             <div className="text-sm text-gray-400">
-              <span className="font-mono text-gray-100">{goal.currentValue}</span> of{' '}
+              <span className="font-mono text-gray-100">{goal.currentValue}</span>
+              {goal.numericMode === 'cumulative' ? ' of ' : ' → '}
               <span className="font-mono text-gray-100">{goal.targetValue}</span> {goal.unit}
+              {goal.baseline !== null && (
+                <span className="text-gray-500"> (from {goal.baseline})</span>
+              )}
             </div>
           )}
 
@@ -315,26 +412,73 @@ export function GoalDetailView() {
           )}
         </div>
 
-        {/* Velocity & Projections (Reading goals) */}
-        {goal.goalType === 'reading' && (
-          <div className="grid grid-cols-2 gap-3">
-            <div className="bg-surface-700 rounded-lg p-4">
-              <div className="text-xs text-gray-500 mb-1">Reading Velocity</div>
-              <div className="font-mono text-xl font-bold text-accent-blue">
-                {velocity !== null ? `${velocity}` : '—'}
-              </div>
-              <div className="text-xs text-gray-500">pages/day</div>
+        {/* Period history (Frequency goals) */}
+        {goal.goalType === 'frequency' && <GoalPeriodStrip goal={goal} />}
+
+        {/* Keyed so switching goals doesn't show the last goal's chart while loading */}
+        <GoalProgressChart key={goal.id} goal={goal} />
+
+        {/* Velocity & Projections */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-surface-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-gray-500">
+                {goal.goalType === 'reading' ? 'Reading Velocity' : 'Velocity'}
+              </span>
+              <select
+                value={velocityWindow}
+                onChange={(e) => setVelocityWindow(Number(e.target.value))}
+                className="text-xs py-0 px-1 bg-surface-600"
+                title="Days of history the velocity is fitted over"
+              >
+                {VELOCITY_WINDOWS.map(days => (
+                  <option key={days} value={days}>{days}d</option>
+                ))}
+              </select>
             </div>
-            <div className="bg-surface-700 rounded-lg p-4">
-              <div className="text-xs text-gray-500 mb-1">Est. Finish</div>
-              <div className="font-mono text-xl font-bold text-accent-green">
-                {estimatedFinishDate 
-                  ? new Date(estimatedFinishDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
-                  : '—'}
-              </div>
-              <div className="text-xs text-gray-500">
-                {daysRemaining !== null ? `${daysRemaining} days left` : 'Keep reading!'}
-              </div>
+            <div className="font-mono text-xl font-bold text-accent-blue">
+              {velocity !== null ? `${velocity > 0 && goal.goalType === 'numeric' ? '+' : ''}${velocity}` : '—'}
+            </div>
+            <div className="text-xs text-gray-500">{paceUnit}/day</div>
+          </div>
+          <div className="bg-surface-700 rounded-lg p-4">
+            <div className="text-xs text-gray-500 mb-1">Est. Finish</div>
+            <div className="font-mono text-xl font-bold text-accent-green">
+              {estimatedFinishDate 
+                ? new Date(estimatedFinishDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                : '—'}
+            </div>
+            <div className="text-xs text-gray-500">
+              {daysRemaining !== null
+                ? `${daysRemaining} days left`
+                : goal.goalType === 'reading' ? 'Keep reading!' : 'Not on pace yet'}
+            </div>
+          </div>
+        </div>
+
+        {/* Pace against the target date, or the current period for habits */}
+        {pace && (
+          <div className="bg-surface-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs text-gray-500">
+                {goal.goalType === 'frequency' ? `Pace this ${streak.unit}` : 'Pace'}
+                {' · '}{pace.daysLeft} days left
+              </span>
+              <span className={`text-xs px-2 py-0.5 rounded-full ${PACE_LABELS[pace.status].className}`}>
+                {PACE_LABELS[pace.status].label}
+              </span>
+            </div>
+            <div className="text-sm text-gray-300">
+              {pace.requiredPerDay !== null ? (
+                <>
+                  Need <span className="font-mono text-gray-100">{pace.requiredPerDay}</span> {paceUnit}/day
+                  to finish on time
+                </>
+              ) : pace.status === 'ahead' ? 'Target reached' : 'Target date has passed'}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              At this pace: <span className="font-mono">{pace.projectedValue}</span> {paceUnit} by{' '}
+              {formatDate(pace.deadline, { month: 'short', day: 'numeric' })}
             </div>
           </div>
         )}
@@ -345,12 +489,20 @@ export function GoalDetailView() {
             <h2 className="text-sm font-medium text-gray-400 uppercase tracking-wider">
               Sub-Goals ({subGoalsCompleted}/{subGoals.length})
             </h2>
-            <button
-              onClick={() => setShowAddSubGoal(true)}
-              className="text-xs text-accent-blue hover:text-blue-400"
-            >
-              + Add Sub-Goal
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowAttachSubGoal(true)}
+                className="text-xs text-gray-400 hover:text-gray-200"
+              >
+                Attach Existing
+              </button>
+              <button
+                onClick={() => setShowAddSubGoal(true)}
+                className="text-xs text-accent-blue hover:text-blue-400"
+              >
+                + Add Sub-Goal
+              </button>
+            </div>
           </div>
 
           {subGoals.length === 0 ? (
@@ -366,17 +518,16 @@ export function GoalDetailView() {
           ) : (
             <div className="space-y-2">
               {subGoals.map((sg) => {
-                const isComplete = sg.goalType === 'numeric' || sg.goalType === 'reading'
-                  ? sg.currentValue >= sg.targetValue || (sg.currentPage ?? 0) >= (sg.totalPages ?? 1)
-                  : sg.currentValue >= sg.targetValue;
-                const sgPercent = getSubGoalProgress(sg);
+                const node = subGoalNodes.get(sg.id);
+                const sgPercent = node?.rollupPercent ?? goalProgressPercent(sg);
+                const isComplete = sgPercent >= 100;
                 const sgTypeIcon = sg.goalType === 'reading' ? '📖' : sg.goalType === 'frequency' ? '🔄' : '📊';
 
                 return (
                   <Link
                     key={sg.id}
                     to={`/goals/${sg.id}`}
-                    className={`block bg-surface-700 rounded-lg p-3 hover:bg-surface-600 transition-colors ${isComplete ? 'opacity-60' : ''}`}
+                    className={`block bg-surface-700 rounded-lg p-3 hover:bg-surface-600 transition-colors group ${isComplete ? 'opacity-60' : ''}`}
                   >
                     <div className="flex items-center gap-3">
                       <span className="text-sm">{sgTypeIcon}</span>
@@ -385,8 +536,43 @@ export function GoalDetailView() {
                           <span className={`text-sm ${isComplete ? 'text-gray-500 line-through' : 'text-gray-100'}`}>
                             {sg.title}
                           </span>
-                          <span className="font-mono text-xs text-gray-400">
-                            {getSubGoalProgressText(sg)}
+                          <span className="flex items-center gap-2">
+                            <span className="font-mono text-xs text-gray-400">
+                              {getSubGoalProgressText(sg)}
+                            </span>
+                            {rollsUp && node && (
+                              <select
+                                value={node.weight}
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  e.stopPropagation();
+                                }}
+                                onChange={(e) => updateSubGoal.mutate({
+                                  id: goal.id,
+                                  childId: sg.id,
+                                  data: { weight: Number(e.target.value) },
+                                })}
+                                className="py-0 px-1 text-xs bg-surface-600"
+                                title="Weight in this goal's progress"
+                              >
+                                {[...new Set([...SUB_GOAL_WEIGHTS, node.weight])].sort((a, b) => a - b).map(w => (
+                                  <option key={w} value={w}>×{w}</option>
+                                ))}
+                              </select>
+                            )}
+                            {/* Detaching keeps the goal; without other parents it moves back to the top level */}
+                            <button
+                              onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                unlinkSubGoal.mutate({ id: goal.id, childId: sg.id });
+                              }}
+                              disabled={unlinkSubGoal.isPending}
+                              className="opacity-0 group-hover:opacity-100 text-gray-600 hover:text-accent-red text-xs transition-opacity"
+                              title="Detach sub-goal"
+                            >
+                              ✕
+                            </button>
                           </span>
                         </div>
                         <div className="h-1 bg-surface-500 rounded-full overflow-hidden mt-1">
@@ -406,9 +592,15 @@ export function GoalDetailView() {
 
         {/* Stats Grid */}
         <div className="grid grid-cols-3 gap-3">
-          <div className="bg-surface-700 rounded-lg p-3 text-center">
-            <div className="font-mono text-xl font-bold text-accent-amber">{streak}</div>
-            <div className="text-xs text-gray-500">Day Streak</div>
+          <div
+            className="bg-surface-700 rounded-lg p-3 text-center"
+            title={streak.best.startDate
+              ? `Best: ${streak.best.length} (${formatDate(streak.best.startDate, { month: 'short', day: 'numeric', year: 'numeric' })} – ${formatDate(streak.best.endDate!, { month: 'short', day: 'numeric', year: 'numeric' })})`
+              : undefined}
+          >
+            <div className="font-mono text-xl font-bold text-accent-amber">{streak.current.length}</div>
+            <div className="text-xs text-gray-500 capitalize">{streak.unit} Streak</div>
+            <div className="text-xs text-gray-600">best {streak.best.length}</div>
           </div>
           <div className="bg-surface-700 rounded-lg p-3 text-center">
             <div className="font-mono text-xl font-bold text-gray-100">{logs.length}</div>
@@ -519,10 +711,13 @@ export function GoalDetailView() {
               <label className="block text-xs text-gray-500 mb-1">
                 {goal.goalType === 'reading' 
                   ? 'Current Page' 
-                  : `Current ${goal.unit || 'Value'}`}
+                  : goal.numericMode === 'cumulative'
+                    ? `${goal.unit || 'Amount'} to add`
+                    : `Current ${goal.unit || 'Value'}`}
               </label>
               <input
                 type="number"
+                step={goal.goalType === 'numeric' ? 'any' : undefined}
                 value={logValue}
                 onChange={(e) => setLogValue(e.target.value)}
                 placeholder={goal.goalType === 'reading' ? 'e.g., 85' : 'Enter value'}
@@ -559,6 +754,13 @@ export function GoalDetailView() {
           </form>
         )}
 
+        <button
+          onClick={() => setShowBackfill(true)}
+          className="w-full text-sm text-accent-blue hover:text-blue-400"
+        >
+          Backfill missed days
+        </button>
+
         {/* Progress History */}
         <div>
           <div className="flex items-center justify-between mb-3">
@@ -625,7 +827,8 @@ export function GoalDetailView() {
               <div className="space-y-2">
                 {filteredLogs.map((log, index) => {
                   const prevLog = filteredLogs[index + 1];
-                  const diff = prevLog ? log.value - prevLog.value : null;
+                  // Cumulative logs are amounts in their own right, not readings to compare
+                  const diff = prevLog && goal.numericMode !== 'cumulative' ? log.value - prevLog.value : null;
                   const isPositive = log.value === 1;
                   
                   return (
@@ -658,7 +861,7 @@ export function GoalDetailView() {
                         ) : (
                           <>
                             <div className="font-mono text-gray-100">
-                              {log.value}
+                              {goal.numericMode === 'cumulative' && '+'}{log.value}
                               {goal.goalType === 'reading' && <span className="text-xs text-gray-500"> pg</span>}
                             </div>
                             {diff !== null && diff !== 0 && (
@@ -688,6 +891,11 @@ export function GoalDetailView() {
         />
       )}
 
+      {/* Attach Sub-Goal Modal */}
+      {showAttachSubGoal && (
+        <AttachSubGoalModal goal={goal} onClose={() => setShowAttachSubGoal(false)} />
+      )}
+
       {/* Edit Goal Modal */}
       {showEditGoal && (
         <GoalFormModal 
@@ -696,14 +904,48 @@ export function GoalDetailView() {
         />
       )}
 
+      {/* Archive Modal */}
+      {showArchive && (
+        <ArchiveGoalModal
+          goal={goal}
+          onClose={() => setShowArchive(false)}
+          onArchived={() => navigate('/goals')}
+        />
+      )}
+
+      {/* Backfill Modal */}
+      {showBackfill && (
+        <BackfillLogsModal goal={goal} onClose={() => setShowBackfill(false)} />
+      )}
+
       {/* Edit Log Modal */}
       {editingLog && (
         <GoalLogEditModal
           log={editingLog}
           goal={goal}
           onClose={() => setEditingLog(null)}
+          onDeleted={(log) => {
+            setEditingLog(null);
+            setDeletedLog(log);
+          }}
         />
       )}
+
+      {/* Undo bar for a just-deleted log */}
+      {deletedLog && (
+        <div className="fixed bottom-6 left-4 right-4 z-40 bg-surface-700 rounded-xl px-4 py-3 flex items-center justify-between shadow-lg">
+          <span className="text-sm text-gray-300">
+            Log for {formatDate(deletedLog.logDate, { month: 'short', day: 'numeric' })} deleted
+          </span>
+          <button
+            onClick={handleUndoDelete}
+            disabled={logProgress.isPending}
+            className="text-sm font-medium text-accent-blue hover:underline"
+          >
+            {logProgress.isPending ? 'Restoring...' : 'Undo'}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
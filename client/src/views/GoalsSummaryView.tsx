@@ -1,18 +1,19 @@
 import { useState } from 'react';
-import { useGoals, useDeleteGoal } from '@/hooks';
+import { Link } from 'react-router-dom';
+import { useGoals, useArchivedGoals, useRestoreGoal, usePurgeGoal } from '@/hooks';
 import { GoalCard } from '@/components/GoalCard';
 import { GoalFormModal } from '@/components/GoalFormModal';
+import { ArchiveGoalModal } from '@/components/ArchiveGoalModal';
+import { goalProgressPercent } from '@/types';
 import type { Goal } from '@/types';
 
 export function GoalsSummaryView() {
   const { data: goals, isLoading } = useGoals();
-  const deleteGoal = useDeleteGoal();
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [archiving, setArchiving] = useState<Goal | null>(null);
 
   const handleDelete = (id: string) => {
-    if (confirm('Archive this goal?')) {
-      deleteGoal.mutate(id);
-    }
+    setArchiving(goals?.find(g => g.id === id) ?? null);
   };
 
   // Group goals by type
@@ -39,12 +40,17 @@ export function GoalsSummaryView() {
                 Goals Tracker
               </h1>
             </div>
-            <button
-              onClick={() => setShowCreateModal(true)}
-              className="btn btn-primary"
-            >
-              + New Goal
-            </button>
+            <div className="flex items-center gap-3">
+              <Link to="/seasons" className="text-sm text-accent-blue hover:text-blue-400">
+                Seasons
+              </Link>
+              <button
+                onClick={() => setShowCreateModal(true)}
+                className="btn btn-primary"
+              >
+                + New Goal
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -102,6 +108,8 @@ export function GoalsSummaryView() {
           />
         )}
 
+        <ArchivedGoals />
+
         {/* Empty state */}
         {(!goals || goals.length === 0) && (
           <div className="text-center py-12">
@@ -124,6 +132,11 @@ export function GoalsSummaryView() {
       {showCreateModal && (
         <GoalFormModal onClose={() => setShowCreateModal(false)} />
       )}
+
+      {/* Archive Modal */}
+      {archiving && (
+        <ArchiveGoalModal goal={archiving} onClose={() => setArchiving(null)} />
+      )}
     </div>
   );
 }
@@ -152,3 +165,77 @@ function GoalSection({ title, icon, goals, onDelete }: GoalSectionProps) {
   );
 }
 
+// Archived goals, collapsed until opened; each can be restored or deleted for good
+function ArchivedGoals() {
+  const { data: archived = [] } = useArchivedGoals();
+  const restoreGoal = useRestoreGoal();
+  const purgeGoal = usePurgeGoal();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (archived.length === 0) return null;
+
+  const completed = archived.filter(g => g.archiveReason === 'completed').length;
+
+  const handlePurge = (goal: Goal) => {
+    if (confirm(`Delete "${goal.title}" and its whole history for good? This cannot be undone.`)) {
+      purgeGoal.mutate(goal.id);
+    }
+  };
+
+  return (
+    <section>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full text-sm font-medium text-gray-400 uppercase tracking-wider mb-3 flex items-center gap-2"
+      >
+        <span>🗄️</span>
+        Archived
+        <span className="text-gray-600">({archived.length})</span>
+        <span className="ml-auto text-xs normal-case tracking-normal text-gray-500">
+          {completed} completed · {archived.length - completed} not {isOpen ? '▾' : '▸'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-2">
+          {archived.map(goal => (
+            <div key={goal.id} className="bg-surface-700 rounded-lg p-3 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <Link to={`/goals/${goal.id}`} className="text-sm text-gray-300 hover:text-white truncate block">
+                  {goal.title}
+                </Link>
+                <div className="text-xs text-gray-500 mt-0.5">
+                  {goal.archiveReason === 'completed' ? (
+                    <span className="text-accent-green">✓ Completed</span>
+                  ) : goal.archiveReason === 'abandoned' ? (
+                    <span className="text-gray-400">✗ Abandoned</span>
+                  ) : (
+                    <span>Archived</span>
+                  )}
+                  {goal.archivedAt && (
+                    <> · {new Date(goal.archivedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</>
+                  )}
+                  {' · '}{goalProgressPercent(goal)}%
+                </div>
+              </div>
+              <button
+                onClick={() => restoreGoal.mutate(goal.id)}
+                disabled={restoreGoal.isPending}
+                className="text-xs text-accent-blue hover:text-blue-400"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => handlePurge(goal)}
+                disabled={purgeGoal.isPending}
+                className="text-xs text-gray-500 hover:text-accent-red"
+              >
+                Delete forever
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
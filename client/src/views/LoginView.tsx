@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { useLogin, useRegister } from '@/hooks';
+import { formErrors } from '@/lib/formErrors';
+import { FieldErrorText } from '@/components/FieldErrorText';
+
+type Mode = 'login' | 'register';
+
+// Shown instead of the app whenever there is no session
+export function LoginView() {
+  const login = useLogin();
+  const register = useRegister();
+
+  const [mode, setMode] = useState<Mode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+
+  const active = mode === 'login' ? login : register;
+  const errors = formErrors(active.error, ['email', 'password', 'name']);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'login') {
+      login.mutate({ email, password });
+    } else {
+      register.mutate({ email, password, name: name || undefined });
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    login.reset();
+    register.reset();
+  };
+
+  return (
+    <div className="min-h-screen bg-surface-900 flex items-center justify-center px-4">
+      <div className="w-full max-w-sm">
+        <h1 className="text-2xl font-semibold text-gray-100 tracking-tight text-center mb-1">
+          The Auditor
+        </h1>
+        <p className="text-gray-500 text-sm text-center mb-6">
+          {mode === 'login' ? 'Sign in to continue' : 'Create your account'}
+        </p>
+
+        <form onSubmit={handleSubmit} className="bg-surface-800 rounded-xl p-4 space-y-4">
+          {mode === 'register' && (
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Name (optional)</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoComplete="name"
+                className="w-full"
+              />
+              <FieldErrorText message={errors.fields.name} />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              className="w-full"
+              autoFocus
+            />
+            <FieldErrorText message={errors.fields.email} />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              placeholder={mode === 'register' ? 'At least 8 characters' : undefined}
+              className="w-full"
+            />
+            <FieldErrorText message={errors.fields.password} />
+          </div>
+
+          {errors.general && <p className="text-accent-red text-sm">{errors.general}</p>}
+
+          <button
+            type="submit"
+            disabled={!email || !password || active.isPending}
+            className="btn btn-primary w-full"
+          >
+            {active.isPending
+              ? (mode === 'login' ? 'Signing in...' : 'Creating account...')
+              : (mode === 'login' ? 'Sign in' : 'Create account')}
+          </button>
+        </form>
+
+        <button
+          onClick={switchMode}
+          className="w-full mt-4 text-sm text-accent-blue hover:underline"
+        >
+          {mode === 'login' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { WeeklyStats } from '@/components/WeeklyStats';
 import { FocusList } from '@/components/FocusList';
 import { IntegrityLogger } from '@/components/IntegrityLogger';
@@ -35,9 +36,18 @@ export function PulseDashboard() {
       {/* Header */}
       <header className="bg-surface-900/95 border-b border-surface-700">
         <div className="px-4 py-3">
-          <h1 className="text-lg font-semibold text-gray-100 tracking-tight mb-3">
-            The Auditor
-          </h1>
+          <div className="flex items-center justify-between mb-3">
+            <h1 className="text-lg font-semibold text-gray-100 tracking-tight">
+              The Auditor
+            </h1>
+            <Link
+              to="/settings"
+              className="p-1 text-gray-500 hover:text-gray-300 transition-colors"
+              title="Settings"
+            >
+              ⚙️
+            </Link>
+          </div>
           
           {/* Weekly Stats - horizontal scroll */}
           <WeeklyStats />
@@ -0,0 +1,179 @@
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import ReactMarkdown from 'react-markdown';
+import { useSeason, useReviewSeason, useDeleteSeason, useTimezone } from '@/hooks';
+import { todayIn, formatDate, addDays } from '@/lib/dates';
+import type { SeasonGoal } from '@/types';
+import { SeasonStatus, formatSeasonDates } from './SeasonsView';
+
+const TYPE_ICONS = { reading: '📖', frequency: '🔄', numeric: '📊' } as const;
+
+export function SeasonDetailView() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { data: summary, isLoading } = useSeason(id || '');
+  const reviewSeason = useReviewSeason();
+  const deleteSeason = useDeleteSeason();
+  const today = todayIn(useTimezone());
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-surface-900 flex items-center justify-center">
+        <div className="text-gray-500">Loading season...</div>
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <div className="min-h-screen bg-surface-900 flex flex-col items-center justify-center gap-4">
+        <div className="text-gray-500">Season not found</div>
+        <Link to="/seasons" className="text-accent-blue hover:text-blue-400">
+          ← All Seasons
+        </Link>
+      </div>
+    );
+  }
+
+  const { season, goals, reflections } = summary;
+  const isReviewed = !!season.reviewedAt;
+  const canReview = !isReviewed && today > season.endDate;
+  // Until the season is reviewed its average is worked out here from the live scores
+  const average = isReviewed
+    ? season.score
+    : goals.length > 0 ? goals.reduce((sum, g) => sum + g.score, 0) / goals.length : null;
+
+  const handleReview = () => {
+    if (confirm(`Review "${season.name}"? Its goals' scores are frozen and can't be changed afterwards.`)) {
+      reviewSeason.mutate(season.id);
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete "${season.name}"? Its goals are kept; its scores are not.`)) {
+      deleteSeason.mutate(season.id, { onSuccess: () => navigate('/seasons') });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-surface-900 pb-24">
+      {/* Header */}
+      <header className="sticky top-0 z-30 bg-surface-900/95 backdrop-blur-sm border-b border-surface-700">
+        <div className="px-4 py-3">
+          <div className="text-xs text-gray-500">
+            <Link to="/seasons" className="text-accent-blue hover:text-blue-400">
+              ← All Seasons
+            </Link>
+          </div>
+          <div className="flex items-center justify-between mt-1">
+            <h1 className="text-lg font-semibold text-gray-100">{season.name}</h1>
+            <SeasonStatus season={season} today={today} />
+          </div>
+          <div className="text-xs text-gray-500 mt-0.5">{formatSeasonDates(season)}</div>
+        </div>
+      </header>
+
+      <main className="px-4 py-4 space-y-6">
+        {/* Score */}
+        <div className="bg-surface-700 rounded-lg p-4 text-center">
+          <div className="text-3xl font-mono font-bold text-accent-blue">
+            {average === null ? '–' : `${Math.round(average * 100)}%`}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            {season.reviewedAt
+              ? `Final score, reviewed ${new Date(season.reviewedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+              : 'Score if reviewed today'}
+          </div>
+          {canReview && (
+            <button
+              onClick={handleReview}
+              disabled={reviewSeason.isPending}
+              className="btn btn-primary mt-3"
+            >
+              {reviewSeason.isPending ? 'Reviewing...' : 'Review Season'}
+            </button>
+          )}
+          {!isReviewed && !canReview && (
+            <div className="text-xs text-gray-600 mt-2">
+              Can be reviewed from {formatDate(addDays(season.endDate, 1), { month: 'short', day: 'numeric' })}
+            </div>
+          )}
+          {reviewSeason.error && (
+            <div className="text-xs text-accent-red mt-2">{reviewSeason.error.message}</div>
+          )}
+        </div>
+
+        {/* Goals */}
+        <section>
+          <h2 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-3">
+            Goals <span className="text-gray-600">({goals.length})</span>
+          </h2>
+          {goals.length === 0 ? (
+            <div className="text-sm text-gray-500 bg-surface-700 rounded-lg p-3">
+              No goals in this season yet. Pick it in a goal's edit form to add one.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {goals.map(item => (
+                <SeasonGoalRow key={item.goal.id} item={item} />
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Weekly Closing Event reflections */}
+        <section>
+          <h2 className="text-sm font-medium text-gray-400 uppercase tracking-wider mb-3">
+            Weekly Reflections <span className="text-gray-600">({reflections.length})</span>
+          </h2>
+          {reflections.length === 0 ? (
+            <div className="text-sm text-gray-500 bg-surface-700 rounded-lg p-3">
+              No reflections written during this season
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {reflections.map(reflection => (
+                <details key={reflection.id} className="bg-surface-700 rounded-lg p-3">
+                  <summary className="text-xs text-gray-400 font-mono cursor-pointer">
+                    Week of {formatDate(reflection.weekStart, { month: 'short', day: 'numeric' })}
+                  </summary>
+                  <div className="markdown-content text-sm mt-2">
+                    <ReactMarkdown>{reflection.reflectionText}</ReactMarkdown>
+                  </div>
+                </details>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <button onClick={handleDelete} disabled={deleteSeason.isPending} className="btn btn-ghost w-full text-gray-500">
+          Delete Season
+        </button>
+      </main>
+    </div>
+  );
+}
+
+function SeasonGoalRow({ item }: { item: SeasonGoal }) {
+  const { goal, progressPercent, score } = item;
+  const percent = Math.round(score * 100);
+  const color = percent >= 100 ? 'bg-accent-green' : percent >= 50 ? 'bg-accent-blue' : 'bg-accent-amber';
+
+  return (
+    <div className="bg-surface-700 rounded-lg p-3">
+      <div className="flex items-center justify-between gap-3">
+        <Link to={`/goals/${goal.id}`} className="text-sm text-gray-100 hover:text-white truncate">
+          {TYPE_ICONS[goal.goalType]} {goal.title}
+        </Link>
+        <span className="text-sm font-mono text-gray-300 shrink-0">{percent}%</span>
+      </div>
+      <div className="h-1.5 bg-surface-600 rounded-full mt-2 overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${Math.min(percent, 100)}%` }} />
+      </div>
+      <div className="text-xs text-gray-500 mt-1">
+        {goal.goalType === 'frequency' ? `Target met in ${progressPercent}% of periods` : `${progressPercent}% progress`}
+        {goal.archiveReason === 'completed' && <span className="text-accent-green"> · ✓ Completed</span>}
+        {goal.archiveReason === 'abandoned' && <span className="text-gray-400"> · ✗ Abandoned</span>}
+      </div>
+    </div>
+  );
+}
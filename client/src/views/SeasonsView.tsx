@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useSeasons, useCreateSeason, useTimezone } from '@/hooks';
+import { FieldErrorText } from '@/components/FieldErrorText';
+import { formErrors } from '@/lib/formErrors';
+import { todayIn, formatDate } from '@/lib/dates';
+import type { Season } from '@/types';
+
+// "Jul 1 – Sep 30, 2026"
+export function formatSeasonDates(season: Season): string {
+  const start = formatDate(season.startDate, { month: 'short', day: 'numeric' });
+  const end = formatDate(season.endDate, { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${start} – ${end}`;
+}
+
+export function SeasonsView() {
+  const { data: seasons = [], isLoading } = useSeasons();
+  const [showForm, setShowForm] = useState(false);
+  const today = todayIn(useTimezone());
+
+  return (
+    <div className="min-h-screen bg-surface-900 pb-24">
+      {/* Header */}
+      <header className="sticky top-0 z-30 bg-surface-900/95 backdrop-blur-sm border-b border-surface-700">
+        <div className="px-4 py-3">
+          <div className="text-xs text-gray-500">
+            <Link to="/goals" className="text-accent-blue hover:text-blue-400">
+              ← All Goals
+            </Link>
+          </div>
+          <div className="flex items-center justify-between mt-1">
+            <h1 className="text-lg font-semibold text-gray-100">Seasons</h1>
+            <button onClick={() => setShowForm(open => !open)} className="btn btn-primary">
+              {showForm ? 'Cancel' : '+ New Season'}
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-4 space-y-4">
+        {showForm && <SeasonForm onCreated={() => setShowForm(false)} />}
+
+        {isLoading ? (
+          <div className="text-center text-gray-500 py-12">Loading seasons...</div>
+        ) : seasons.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="text-4xl mb-4">🗓️</div>
+            <div className="text-gray-400 mb-2">No seasons yet</div>
+            <div className="text-gray-600 text-sm">
+              A season is a stretch of time, like a quarter, that goals are scored over when it ends
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {seasons.map(season => (
+              <Link
+                key={season.id}
+                to={`/seasons/${season.id}`}
+                className="block bg-surface-700 hover:bg-surface-600 rounded-lg p-3 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-100 truncate">{season.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {formatSeasonDates(season)} · {season.goalCount} goal{season.goalCount === 1 ? '' : 's'}
+                    </div>
+                  </div>
+                  <SeasonStatus season={season} today={today} />
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export function SeasonStatus({ season, today }: { season: Season; today: string }) {
+  if (season.reviewedAt) {
+    return (
+      <span className="text-sm font-mono text-accent-green shrink-0">
+        {season.score === null ? '–' : `${Math.round(season.score * 100)}%`}
+      </span>
+    );
+  }
+  if (today < season.startDate) {
+    return <span className="text-xs text-gray-500 shrink-0">Upcoming</span>;
+  }
+  if (today <= season.endDate) {
+    return <span className="text-xs text-accent-blue shrink-0">Running</span>;
+  }
+  return <span className="text-xs text-accent-amber shrink-0">Ready to review</span>;
+}
+
+function SeasonForm({ onCreated }: { onCreated: () => void }) {
+  const createSeason = useCreateSeason();
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const errors = formErrors(createSeason.error, ['name', 'startDate', 'endDate']);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !startDate || !endDate) return;
+    createSeason.mutate({ name: name.trim(), startDate, endDate }, { onSuccess: onCreated });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-surface-800 rounded-xl p-4 space-y-3">
+      {errors.general && (
+        <div className="bg-accent-red/20 border border-accent-red/50 rounded-lg p-3 text-sm text-accent-red">
+          {errors.general}
+        </div>
+      )}
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Q3 2026"
+          className="w-full"
+          autoFocus
+        />
+        <FieldErrorText message={errors.fields.name} />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">First day</label>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="w-full" />
+          <FieldErrorText message={errors.fields.startDate} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Last day</label>
+          <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="w-full" />
+          <FieldErrorText message={errors.fields.endDate} />
+        </div>
+      </div>
+      <button
+        type="submit"
+        disabled={!name.trim() || !startDate || !endDate || createSeason.isPending}
+        className="btn btn-primary w-full"
+      >
+        {createSeason.isPending ? 'Creating...' : 'Create Season'}
+      </button>
+    </form>
+  );
+}
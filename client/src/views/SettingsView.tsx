@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSettings, useUpdateSettings, useLogout } from '@/hooks';
+import { useAuthStore } from '@/store/authStore';
+import { todayIn, formatDate } from '@/lib/dates';
+import type { WeekStartDay } from '@/types';
+import { formErrors } from '@/lib/formErrors';
+import { FieldErrorText } from '@/components/FieldErrorText';
+import { ApiTokensPanel } from '@/components/ApiTokensPanel';
+
+// Not in the ES2020 lib typings, but available in every browser we target
+const supportedValuesOf = (Intl as { supportedValuesOf?: (key: 'timeZone') => string[] }).supportedValuesOf;
+const TIMEZONES: string[] = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+
+const DEVICE_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export function SettingsView() {
+  const navigate = useNavigate();
+  const { data: settings, isLoading } = useSettings();
+  const updateSettings = useUpdateSettings();
+  const logout = useLogout();
+  const user = useAuthStore((state) => state.user);
+
+  const [timezone, setTimezone] = useState('');
+  const [weekStart, setWeekStart] = useState<WeekStartDay>('sunday');
+
+  useEffect(() => {
+    if (settings) {
+      setTimezone(settings.timezone);
+      setWeekStart(settings.weekStart);
+    }
+  }, [settings]);
+
+  const errors = formErrors(updateSettings.error, ['timezone', 'weekStart']);
+
+  const isDirty = !!settings && (timezone !== settings.timezone || weekStart !== settings.weekStart);
+
+  const handleSave = () => {
+    updateSettings.mutate({ timezone, weekStart });
+  };
+
+  const preview = (() => {
+    try {
+      return formatDate(todayIn(timezone), { weekday: 'long', month: 'long', day: 'numeric' });
+    } catch {
+      return null;
+    }
+  })();
+
+  return (
+    <div className="min-h-screen bg-surface-900 pb-24">
+      {/* Header */}
+      <header className="bg-surface-800 px-4 py-3 flex items-center justify-between border-b border-surface-700">
+        <button
+          onClick={() => navigate(-1)}
+          className="p-2 -ml-2 text-gray-400 hover:text-gray-200"
+        >
+          <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h1 className="text-gray-200 font-medium">Settings</h1>
+        <div className="w-10" />
+      </header>
+
+      <div className="px-4 py-4 space-y-4">
+        {isLoading ? (
+          <div className="py-12 text-center text-gray-500">Loading...</div>
+        ) : (
+          <div className="bg-surface-800 rounded-xl p-4 space-y-3">
+            <div>
+              <p className="text-gray-200 font-medium">Timezone</p>
+              <p className="text-gray-500 text-sm">
+                Decides when your day and week roll over for work logs, goals, recurring expenses and the weekly summary.
+              </p>
+            </div>
+
+            <input
+              type="text"
+              list="timezones"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              className="w-full bg-surface-700 border-0 rounded-xl px-4 py-2 text-gray-200 placeholder-gray-500"
+              placeholder="e.g. Asia/Jerusalem"
+            />
+            <datalist id="timezones">
+              {TIMEZONES.map(tz => <option key={tz} value={tz} />)}
+            </datalist>
+            <FieldErrorText message={errors.fields.timezone} />
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-500">
+                {preview ? `Today there: ${preview}` : 'Unknown timezone'}
+              </span>
+              {timezone !== DEVICE_TIMEZONE && (
+                <button
+                  onClick={() => setTimezone(DEVICE_TIMEZONE)}
+                  className="text-accent-blue hover:underline"
+                >
+                  Use this device ({DEVICE_TIMEZONE})
+                </button>
+              )}
+            </div>
+
+            <div className="pt-3 border-t border-surface-700">
+              <p className="text-gray-200 font-medium">Week starts on</p>
+              <p className="text-gray-500 text-sm mb-2">
+                Used by the weekly summary, weekly goals, the calendar and recurring expense days.
+              </p>
+              <div className="flex bg-surface-700 rounded-xl p-1">
+                {(['sunday', 'monday'] as const).map(day => (
+                  <button
+                    key={day}
+                    onClick={() => setWeekStart(day)}
+                    className={`flex-1 py-2 rounded-lg text-sm font-medium capitalize transition-colors ${
+                      weekStart === day
+                        ? 'bg-surface-600 text-white'
+                        : 'text-gray-400 hover:text-gray-200'
+                    }`}
+                  >
+                    {day}
+                  </button>
+                ))}
+              </div>
+              <FieldErrorText message={errors.fields.weekStart} />
+            </div>
+
+            {errors.general && <p className="text-accent-red text-sm">{errors.general}</p>}
+
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || !preview || updateSettings.isPending}
+              className="btn btn-primary w-full"
+            >
+              {updateSettings.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+
+        <div className="bg-surface-800 rounded-xl p-4 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-gray-200 font-medium">Account</p>
+            <p className="text-gray-500 text-sm truncate">
+              {user ? (user.name ? `${user.name} · ${user.email}` : user.email) : 'Signed in'}
+            </p>
+          </div>
+          <button
+            onClick={() => logout.mutate()}
+            disabled={logout.isPending}
+            className="btn btn-ghost shrink-0"
+          >
+            {logout.isPending ? 'Signing out...' : 'Sign out'}
+          </button>
+        </div>
+
+        <ApiTokensPanel />
+      </div>
+    </div>
+  );
+}
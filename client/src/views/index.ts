@@ -2,4 +2,6 @@ export { PulseDashboard } from './PulseDashboard';
 export { ClosingEventView } from './ClosingEventView';
 export { GoalsSummaryView } from './GoalsSummaryView';
 export { GoalDetailView } from './GoalDetailView';
+export { SeasonsView } from './SeasonsView';
+export { SeasonDetailView } from './SeasonDetailView';
 
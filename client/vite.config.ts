@@ -44,8 +44,12 @@ export default defineConfig({
   ],
   resolve: {
     alias: {
-      '@': path.resolve(__dirname, './src')
-    }
+      '@': path.resolve(__dirname, './src'),
+      // Route contracts live with the server (Railway only ships server/) and are shared from there
+      '@contracts': path.resolve(__dirname, '../server/src/contracts/index.ts')
+    },
+    // Resolve zod from the client's own dependencies, not relative to server/
+    dedupe: ['zod']
   },
   server: {
     port: 5173,
@@ -0,0 +1,33 @@
+import { authRoutes } from './auth.js';
+import { tokenRoutes } from './tokens.js';
+import { taskRoutes } from './tasks.js';
+import { workLogRoutes } from './workLogs.js';
+import { expenseRoutes, recurringExpenseRoutes } from './expenses.js';
+import { expenseImportRoutes } from './expenseImports.js';
+import { goalRoutes } from './goals.js';
+import { seasonRoutes } from './seasons.js';
+import { weeklyRoutes, weeklyReflectionRoutes } from './weekly.js';
+import { settingsRoutes } from './settings.js';
+import { backupRoutes } from './backup.js';
+import { logRoutes, systemRoutes } from './system.js';
+
+// Every endpoint of the API, grouped the way the client SDK exposes them
+export const apiRoutes = {
+  auth: authRoutes,
+  tokens: tokenRoutes,
+  tasks: taskRoutes,
+  workLogs: workLogRoutes,
+  expenses: expenseRoutes,
+  recurringExpenses: recurringExpenseRoutes,
+  expenseImports: expenseImportRoutes,
+  goals: goalRoutes,
+  seasons: seasonRoutes,
+  weekly: weeklyRoutes,
+  weeklyReflections: weeklyReflectionRoutes,
+  settings: settingsRoutes,
+  backup: backupRoutes,
+  logs: logRoutes,
+  system: systemRoutes,
+};
+
+export type ApiRoutes = typeof apiRoutes;
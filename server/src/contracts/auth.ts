@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { defineRoute } from './http.js';
+
+// Emails are stored lowercased so sign-in is case-insensitive
+const email = z.string().trim().toLowerCase().pipe(z.email({ error: 'Must be an email address' }));
+
+export const registerBody = z.object({
+  email,
+  password: z.string().min(8, 'Must be at least 8 characters').max(200, 'Must be at most 200 characters'),
+  name: z.string().trim().max(100).optional(),
+});
+
+export const loginBody = z.object({
+  email,
+  password: z.string().min(1, 'Required'),
+});
+
+export const user = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  createdAt: z.string(),
+}).meta({ id: 'User' });
+
+export const session = z.object({
+  token: z.string().meta({ description: 'Send as `Authorization: Bearer <token>` on every other request' }),
+  expiresAt: z.string(),
+  user,
+}).meta({ id: 'Session' });
+
+export const authRoutes = {
+  register: defineRoute({
+    method: 'post',
+    path: '/auth/register',
+    tag: 'Auth',
+    summary: 'Create an account and sign in',
+    description: 'The first account adopts any data stored before accounts existed. ' +
+      'Further accounts can only be created when the server sets ALLOW_SIGNUP=true.',
+    public: true,
+    body: registerBody,
+    response: session,
+    status: 201,
+    errors: { 403: 'Sign-ups are closed', 409: 'Email already registered' },
+  }),
+  login: defineRoute({
+    method: 'post',
+    path: '/auth/login',
+    tag: 'Auth',
+    summary: 'Sign in with email and password',
+    public: true,
+    body: loginBody,
+    response: session,
+    errors: { 401: 'Wrong email or password' },
+  }),
+  logout: defineRoute({
+    method: 'post',
+    path: '/auth/logout',
+    tag: 'Auth',
+    summary: 'End the current session',
+    response: null,
+  }),
+  me: defineRoute({
+    method: 'get',
+    path: '/auth/me',
+    tag: 'Auth',
+    scope: 'read',
+    summary: 'Get the signed-in user',
+    response: user,
+  }),
+};
+
+export type User = z.output<typeof user>;
+export type Session = z.output<typeof session>;
+export type RegisterRequest = z.input<typeof registerBody>;
+export type LoginRequest = z.input<typeof loginBody>;
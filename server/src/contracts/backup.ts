@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { defineRoute } from './http.js';
+
+export const IMPORT_MODES = ['replace', 'merge'] as const;
+export type ImportMode = typeof IMPORT_MODES[number];
+
+export const importBackupQuery = z.object({
+  mode: z.enum(IMPORT_MODES, { error: 'Must be replace or merge' }).optional(),
+});
+
+// Only the envelope is checked here; the backup service checks every row and
+// the references between tables before writing anything
+export const backupDocument = z.object({
+  format: z.literal('auditor-backup'),
+  version: z.number().int(),
+  schemaVersion: z.number().int().optional(),
+  exportedAt: z.string().optional(),
+  data: z.record(z.string(), z.array(z.record(z.string(), z.unknown()))).meta({ description: 'Raw rows keyed by table name' }),
+}).meta({ id: 'BackupDocument' });
+
+export const importBackupResult = z.object({
+  mode: z.enum(IMPORT_MODES),
+  // Rows restored per table
+  imported: z.record(z.string(), z.number().int()),
+});
+
+export const backupRoutes = {
+  export: defineRoute({
+    method: 'get',
+    path: '/export',
+    tag: 'Backup',
+    scope: 'read',
+    summary: 'Export all of your data as a versioned JSON backup',
+    response: backupDocument,
+  }),
+  import: defineRoute({
+    method: 'post',
+    path: '/import',
+    tag: 'Backup',
+    scope: 'backup:restore',
+    summary: 'Restore a JSON backup',
+    description: 'Validates the whole document, including references between seasons, goals, relations, '
+      + 'scores, logs, tasks and subtasks, before writing anything. `replace` wipes your existing data first; '
+      + '`merge` (the default) upserts rows by id (or by natural key for logs, relations, season scores and '
+      + 'reflections). Rows whose ids belong to another account are rejected.',
+    query: importBackupQuery,
+    body: backupDocument,
+    response: importBackupResult,
+  }),
+};
+
+export type ImportBackupQuery = z.output<typeof importBackupQuery>;
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+
+// Request contracts are imported by the client as well (see client/vite.config.ts),
+// so nothing in this folder may depend on server-only modules.
+
+export const dateString = z.iso.date({ error: 'Must be a YYYY-MM-DD date' });
+
+// ISO timestamps, with or without an offset (datetime-local inputs send none)
+export const dateTimeString = z.iso.datetime({ local: true, offset: true, error: 'Must be an ISO date-time' });
+
+export const dateOrDateTime = z.union([dateString, dateTimeString], {
+  error: 'Must be a YYYY-MM-DD date or an ISO date-time',
+});
+
+export const requiredText = z.string().trim().min(1, 'Required');
+
+// Ids that arrive as path segments of integer primary keys
+export const numericId = z.string().regex(/^\d+$/, 'Must be a numeric id');
+
+export const pageLimit = (max: number) => z.coerce.number().int().min(1).max(max);
+
+// Requires at least one field in partial-update bodies
+export function nonEmptyUpdate(body: object): boolean {
+  return Object.values(body).some(value => value !== undefined);
+}
+
+export const fieldError = z.object({
+  in: z.enum(['params', 'query', 'body']),
+  path: z.string().meta({ description: 'Dotted path inside the location, e.g. "rows.2.amount"; empty for the whole value' }),
+  message: z.string(),
+}).meta({ id: 'FieldError' });
+
+// Body of every failed request; contract violations (400) also list the failing fields
+export const errorResponse = z.object({
+  message: z.string(),
+  errors: z.array(fieldError).optional(),
+}).meta({ id: 'Error' });
+
+export type FieldError = z.output<typeof fieldError>;
+export type RequestLocation = FieldError['in'];
+export type ErrorResponse = z.output<typeof errorResponse>;
+export type ValidationErrorResponse = Required<ErrorResponse>;
+
+// Friendlier defaults than zod's for the issues users actually hit in forms
+export const contractErrorMap: z.core.$ZodErrorMap = (issue) => {
+  if (issue.code === 'invalid_type') {
+    return issue.input === undefined || issue.input === null ? 'Required' : `Expected ${issue.expected}`;
+  }
+  return undefined;
+};
+
+export function toFieldErrors(error: z.ZodError, location: RequestLocation): FieldError[] {
+  return error.issues.map(issue => ({
+    in: location,
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+}
+
+// One-line summary such as "title: Required; deadline: Must be a YYYY-MM-DD date"
+export function describeFieldErrors(errors: FieldError[]): string {
+  const described = errors.map(e => (e.path ? `${e.path}: ${e.message}` : e.message));
+  const extra = described.length > 5 ? ` (+${described.length - 5} more)` : '';
+  return `${described.slice(0, 5).join('; ')}${extra}`;
+}
+
+export function validationErrorResponse(errors: FieldError[]): ValidationErrorResponse {
+  return { message: `Invalid request: ${describeFieldErrors(errors)}`, errors };
+}
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { dateString, requiredText, fieldError } from './common.js';
+import { createExpenseBody, expense } from './expenses.js';
+import { defineRoute } from './http.js';
+
+export const CSV_DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'] as const;
+export type CsvDateFormat = typeof CSV_DATE_FORMATS[number];
+
+const optionalColumn = z.string().nullish().transform(column => column || null).pipe(z.string().nullable());
+
+// How a bank's CSV columns map onto expense fields (stored per bank)
+export const expenseImportMapping = z.object({
+  amountColumn: requiredText,
+  dateColumn: requiredText,
+  noteColumn: optionalColumn,
+  categoryColumn: optionalColumn,
+  dateFormat: z.enum(CSV_DATE_FORMATS, { error: `Must be one of ${CSV_DATE_FORMATS.join(', ')}` }),
+  // Which sign the bank uses for money going out; rows with the other sign are skipped
+  expenseSign: z.enum(['positive', 'negative'], { error: 'Must be positive or negative' }),
+  defaultCategory: requiredText,
+});
+
+export const importProfileParams = z.object({ bankName: requiredText });
+
+export const saveImportProfileBody = z.object({
+  mapping: expenseImportMapping,
+});
+
+export const importPreviewBody = z.object({
+  csv: z.string().refine(csv => csv.trim().length > 0, 'Required'),
+  bankName: z.string().optional(),
+  mapping: expenseImportMapping.nullish(),
+});
+
+// Bank rows carry a calendar date instead of a timestamp
+export const importCommitRow = createExpenseBody.omit({ createdAt: true }).extend({
+  date: dateString,
+});
+
+// Rows are checked one by one so a bad row is reported without rejecting the rest
+export const importCommitBody = z.object({
+  rows: z.array(z.unknown()).min(1, 'At least one row is required'),
+});
+
+export const expenseImportProfile = z.object({
+  id: z.number().int(),
+  bankName: z.string(),
+  mapping: expenseImportMapping,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).meta({ id: 'ExpenseImportProfile' });
+
+export const IMPORT_ROW_STATUSES = ['new', 'duplicate', 'invalid', 'skipped'] as const;
+export type ImportRowStatus = typeof IMPORT_ROW_STATUSES[number];
+
+export const importPreviewRow = z.object({
+  // 1-based line in the CSV, counting the header
+  line: z.number().int(),
+  amount: z.number().nullable(),
+  date: z.string().nullable(),
+  note: z.string().nullable(),
+  category: z.string(),
+  status: z.enum(IMPORT_ROW_STATUSES),
+  duplicateOfId: z.number().int().nullable(),
+  error: z.string().nullable(),
+});
+
+export const expenseImportPreview = z.object({
+  headers: z.array(z.string()),
+  // Empty until a mapping is known
+  rows: z.array(importPreviewRow),
+  mapping: expenseImportMapping.nullable(),
+});
+
+export const commitExpenseImportResult = z.object({
+  created: z.array(expense),
+  errors: z.array(z.object({
+    // Position of the failed row in the request
+    index: z.number().int(),
+    message: z.string(),
+    errors: z.array(fieldError),
+  })),
+});
+
+export const expenseImportRoutes = {
+  listProfiles: defineRoute({
+    method: 'get',
+    path: '/expense-imports/profiles',
+    tag: 'Expense Import',
+    scope: 'read',
+    summary: 'List saved CSV column mappings per bank',
+    response: z.array(expenseImportProfile),
+  }),
+  saveProfile: defineRoute({
+    method: 'put',
+    path: '/expense-imports/profiles/:bankName',
+    tag: 'Expense Import',
+    scope: 'expenses:write',
+    summary: 'Save the column mapping for a bank',
+    params: importProfileParams,
+    body: saveImportProfileBody,
+    response: expenseImportProfile,
+  }),
+  deleteProfile: defineRoute({
+    method: 'delete',
+    path: '/expense-imports/profiles/:bankName',
+    tag: 'Expense Import',
+    scope: 'expenses:write',
+    summary: 'Delete a saved bank mapping',
+    params: importProfileParams,
+    response: null,
+    status: 204,
+    errors: { 404: 'Import profile not found' },
+  }),
+  preview: defineRoute({
+    method: 'post',
+    path: '/expense-imports/preview',
+    tag: 'Expense Import',
+    scope: 'expenses:write',
+    summary: 'Parse a bank CSV and flag likely duplicates',
+    description: 'Without a mapping (and no saved profile for `bankName`) only the CSV headers are returned, '
+      + 'so the client can build one. With a mapping every row is parsed and marked as '
+      + 'new, duplicate (same amount and day, similar note), invalid or skipped (income).',
+    body: importPreviewBody,
+    response: expenseImportPreview,
+    errors: { 400: 'The mapping names columns the CSV does not have' },
+  }),
+  commit: defineRoute({
+    method: 'post',
+    path: '/expense-imports/commit',
+    tag: 'Expense Import',
+    scope: 'expenses:write',
+    summary: 'Create expenses from reviewed import rows',
+    description: 'Each row goes through the same validation as POST /expenses. Rows that fail are reported and skipped.',
+    body: importCommitBody,
+    response: commitExpenseImportResult,
+    status: 201,
+  }),
+};
+
+export type ExpenseImportProfile = z.output<typeof expenseImportProfile>;
+export type ImportPreviewRow = z.output<typeof importPreviewRow>;
+export type ExpenseImportPreview = z.output<typeof expenseImportPreview>;
+export type CommitExpenseImportResult = z.output<typeof commitExpenseImportResult>;
+export type ExpenseImportMapping = z.output<typeof expenseImportMapping>;
+export type ExpenseImportPreviewRequest = z.input<typeof importPreviewBody>;
+export type ImportCommitRow = z.input<typeof importCommitRow>;
+
+export interface CommitExpenseImportRequest {
+  rows: ImportCommitRow[];
+}
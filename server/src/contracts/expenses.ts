@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { dateString, dateTimeString, requiredText, numericId, nonEmptyUpdate } from './common.js';
+import { defineRoute } from './http.js';
+
+export const RECURRENCE_TYPES = ['weekly', 'monthly'] as const;
+export type RecurrenceType = typeof RECURRENCE_TYPES[number];
+
+export const expenseAmount = z.number().positive('Must be greater than 0');
+
+export const expenseIdParams = z.object({ id: numericId });
+
+export const expenseRangeQuery = z.object({
+  start: dateString.optional(),
+  end: dateString.optional(),
+});
+
+// Also applied to every row of a CSV import commit
+export const createExpenseBody = z.object({
+  amount: expenseAmount,
+  category: requiredText,
+  note: z.string().nullish(),
+  createdAt: dateTimeString.optional(),
+});
+
+export const updateExpenseBody = z.object({
+  amount: expenseAmount.optional(),
+  category: requiredText.optional(),
+  note: z.string().nullish(),
+  createdAt: dateTimeString.optional(),
+}).refine(nonEmptyUpdate, 'No fields to update');
+
+const recurrenceDay = z.number().int('Must be a whole number');
+
+// Weekly days count Monday as 0; monthly days are calendar days
+export function recurrenceDayError(recurrenceType: RecurrenceType, day: number): string | null {
+  if (recurrenceType === 'weekly' && (day < 0 || day > 6)) return 'Weekly recurrence day must be 0-6 (Mon-Sun)';
+  if (recurrenceType === 'monthly' && (day < 1 || day > 31)) return 'Monthly recurrence day must be 1-31';
+  return null;
+}
+
+// Updates that change only one of the two are checked against the stored other by the route
+function checkRecurrenceDay(
+  body: { recurrenceType?: RecurrenceType; recurrenceDay?: number },
+  ctx: z.RefinementCtx
+): void {
+  const { recurrenceType, recurrenceDay: day } = body;
+  if (day === undefined || recurrenceType === undefined) return;
+  const message = recurrenceDayError(recurrenceType, day);
+  if (message) {
+    ctx.addIssue({ code: 'custom', path: ['recurrenceDay'], message });
+  }
+}
+
+export const recurringExpenseIdParams = z.object({ id: numericId });
+
+export const createRecurringExpenseBody = z.object({
+  amount: expenseAmount,
+  category: requiredText,
+  note: z.string().nullish(),
+  recurrenceType: z.enum(RECURRENCE_TYPES, { error: 'Must be weekly or monthly' }),
+  recurrenceDay,
+}).superRefine(checkRecurrenceDay);
+
+export const updateRecurringExpenseBody = z.object({
+  amount: expenseAmount.optional(),
+  category: requiredText.optional(),
+  note: z.string().nullish(),
+  recurrenceType: z.enum(RECURRENCE_TYPES, { error: 'Must be weekly or monthly' }).optional(),
+  recurrenceDay: recurrenceDay.optional(),
+  isActive: z.boolean().optional(),
+}).superRefine(checkRecurrenceDay).refine(nonEmptyUpdate, 'No fields to update');
+
+export const expense = z.object({
+  id: z.number().int(),
+  amount: z.number(),
+  category: z.string(),
+  note: z.string().nullable(),
+  createdAt: z.string(),
+}).meta({ id: 'Expense' });
+
+export const recurringExpense = z.object({
+  id: z.number().int(),
+  amount: z.number(),
+  category: z.string(),
+  note: z.string().nullable(),
+  recurrenceType: z.enum(RECURRENCE_TYPES),
+  recurrenceDay: z.number().int(),
+  isActive: z.boolean(),
+  lastGeneratedDate: z.string().nullable(),
+  createdAt: z.string(),
+}).meta({ id: 'RecurringExpense' });
+
+export const generatedExpenses = z.object({
+  generated: z.array(expense),
+  count: z.number().int(),
+});
+
+export const expenseRoutes = {
+  list: defineRoute({
+    method: 'get',
+    path: '/expenses',
+    tag: 'Expenses',
+    scope: 'read',
+    summary: 'Get all expenses',
+    description: 'Pass both start and end to limit the list to those calendar days in the configured timezone.',
+    query: expenseRangeQuery,
+    response: z.array(expense),
+  }),
+  get: defineRoute({
+    method: 'get',
+    path: '/expenses/:id',
+    tag: 'Expenses',
+    scope: 'read',
+    summary: 'Get a single expense by ID',
+    params: expenseIdParams,
+    response: expense,
+    errors: { 404: 'Expense not found' },
+  }),
+  create: defineRoute({
+    method: 'post',
+    path: '/expenses',
+    tag: 'Expenses',
+    scope: 'expenses:write',
+    summary: 'Create a new expense (Quick-Add)',
+    body: createExpenseBody,
+    response: expense,
+    status: 201,
+  }),
+  update: defineRoute({
+    method: 'put',
+    path: '/expenses/:id',
+    tag: 'Expenses',
+    scope: 'expenses:write',
+    summary: 'Update an expense',
+    params: expenseIdParams,
+    body: updateExpenseBody,
+    response: expense,
+    errors: { 404: 'Expense not found' },
+  }),
+  delete: defineRoute({
+    method: 'delete',
+    path: '/expenses/:id',
+    tag: 'Expenses',
+    scope: 'expenses:write',
+    summary: 'Delete an expense',
+    params: expenseIdParams,
+    response: null,
+    status: 204,
+    errors: { 404: 'Expense not found' },
+  }),
+};
+
+export const recurringExpenseRoutes = {
+  list: defineRoute({
+    method: 'get',
+    path: '/recurring-expenses',
+    tag: 'Recurring Expenses',
+    scope: 'read',
+    summary: 'Get all recurring expense templates',
+    response: z.array(recurringExpense),
+  }),
+  create: defineRoute({
+    method: 'post',
+    path: '/recurring-expenses',
+    tag: 'Recurring Expenses',
+    scope: 'expenses:write',
+    summary: 'Create a new recurring expense template',
+    description: 'Weekly days count Monday as 0 (0-6); monthly days are calendar days (1-31).',
+    body: createRecurringExpenseBody,
+    response: recurringExpense,
+    status: 201,
+  }),
+  update: defineRoute({
+    method: 'put',
+    path: '/recurring-expenses/:id',
+    tag: 'Recurring Expenses',
+    scope: 'expenses:write',
+    summary: 'Update a recurring expense template',
+    params: recurringExpenseIdParams,
+    body: updateRecurringExpenseBody,
+    response: recurringExpense,
+    errors: { 400: 'Recurrence day out of range for the recurrence type', 404: 'Recurring expense not found' },
+  }),
+  delete: defineRoute({
+    method: 'delete',
+    path: '/recurring-expenses/:id',
+    tag: 'Recurring Expenses',
+    scope: 'expenses:write',
+    summary: 'Delete a recurring expense template',
+    params: recurringExpenseIdParams,
+    response: null,
+    status: 204,
+    errors: { 404: 'Recurring expense not found' },
+  }),
+  generate: defineRoute({
+    method: 'post',
+    path: '/recurring-expenses/generate',
+    tag: 'Recurring Expenses',
+    scope: 'expenses:write',
+    summary: 'Generate due recurring expenses',
+    description: 'Checks all active recurring expenses and generates actual expense records for any that are due',
+    response: generatedExpenses,
+  }),
+};
+
+export type Expense = z.output<typeof expense>;
+export type RecurringExpense = z.output<typeof recurringExpense>;
+export type ExpenseRangeQuery = z.output<typeof expenseRangeQuery>;
+export type CreateExpenseRequest = z.input<typeof createExpenseBody>;
+export type CreateExpenseInput = z.output<typeof createExpenseBody>;
+export type UpdateExpenseRequest = z.input<typeof updateExpenseBody>;
+export type CreateRecurringExpenseRequest = z.input<typeof createRecurringExpenseBody>;
+export type UpdateRecurringExpenseRequest = z.input<typeof updateRecurringExpenseBody>;
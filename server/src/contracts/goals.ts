@@ -0,0 +1,682 @@
+import { z } from 'zod';
+import { dateString, requiredText, numericId, pageLimit } from './common.js';
+import { defineRoute } from './http.js';
+
+export const GOAL_TYPES = ['reading', 'frequency', 'numeric'] as const;
+export type GoalType = typeof GOAL_TYPES[number];
+
+export const FREQUENCY_PERIODS = ['daily', 'weekly', 'monthly'] as const;
+export type FrequencyPeriod = typeof FREQUENCY_PERIODS[number];
+
+// Numeric goals either take their latest log or add up all of them
+export const NUMERIC_MODES = ['latest', 'cumulative'] as const;
+export type NumericMode = typeof NUMERIC_MODES[number];
+
+export const PACE_STATUSES = ['ahead', 'on_track', 'behind'] as const;
+export type PaceStatus = typeof PACE_STATUSES[number];
+
+export const ARCHIVE_REASONS = ['completed', 'abandoned'] as const;
+export type ArchiveReason = typeof ARCHIVE_REASONS[number];
+
+export const SERIES_BUCKETS = ['day', 'week', 'month'] as const;
+export type SeriesBucket = typeof SERIES_BUCKETS[number];
+
+export const STREAK_UNITS = ['day', 'week', 'month'] as const;
+export type StreakUnit = typeof STREAK_UNITS[number];
+
+// Most logs one bulk request may write: a year of days
+export const MAX_BULK_GOAL_LOGS = 366;
+
+const numericMode = z.enum(NUMERIC_MODES, { error: 'Must be latest or cumulative' });
+
+const count = z.number().int('Must be a whole number').min(0, 'Cannot be negative');
+
+export const goalIdParams = z.object({ id: requiredText });
+
+export const goalLogParams = z.object({ goalId: requiredText, logId: numericId });
+
+export const subGoalParams = z.object({ id: requiredText, childId: requiredText });
+
+export const goalLogsQuery = z.object({
+  limit: pageLimit(1000).optional(),
+});
+
+export const goalStatsQuery = z.object({
+  // Days of history the velocity is fitted over, ending today
+  window: z.coerce.number().int().min(7, 'Must be at least 7 days').max(365, 'Must be at most 365 days').optional(),
+});
+
+export const goalSeriesQuery = z.object({
+  // Default to the goal's start date (or first log, if earlier) through today
+  from: dateString.optional(),
+  to: dateString.optional(),
+  bucket: z.enum(SERIES_BUCKETS, { error: 'Must be day, week or month' }).optional(),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  path: ['to'],
+  message: 'Must not be before from',
+});
+
+export const createGoalBody = z.object({
+  title: requiredText,
+  goalType: z.enum(GOAL_TYPES, { error: 'Must be reading, frequency or numeric' }).optional(),
+  targetValue: z.number().min(0, 'Cannot be negative').optional(),
+  unit: z.string().optional(),
+  totalPages: count.min(1, 'Must be at least 1').nullish(),
+  frequencyPeriod: z.enum(FREQUENCY_PERIODS, { error: 'Must be daily, weekly or monthly' }).optional(),
+  numericMode: numericMode.optional(),
+  baseline: z.number().nullish(),
+  targetDate: dateString.nullish(),
+  parentId: z.string().nullish(),
+  seasonId: z.string().nullish(),
+}).refine(body => body.goalType !== 'reading' || !!body.totalPages, {
+  path: ['totalPages'],
+  message: 'Required for reading goals',
+});
+
+export const updateGoalBody = z.object({
+  title: requiredText.optional(),
+  targetValue: z.number().min(0, 'Cannot be negative').optional(),
+  unit: z.string().optional(),
+  totalPages: count.min(1, 'Must be at least 1').nullish(),
+  numericMode: numericMode.optional(),
+  baseline: z.number().nullish(),
+  targetDate: dateString.nullish(),
+  // Null takes the goal out of its season
+  seasonId: z.string().nullish(),
+});
+
+export const archiveGoalQuery = z.object({
+  // Defaults to completed when the goal reached its target, abandoned otherwise
+  reason: z.enum(ARCHIVE_REASONS, { error: 'Must be completed or abandoned' }).optional(),
+});
+
+// How much a sub-goal counts towards its parent's rolled-up progress, relative to its siblings
+const relationWeight = z.number().positive('Must be more than 0').max(100, 'Must be at most 100');
+
+export const linkSubGoalBody = z.object({
+  childId: requiredText,
+  // Defaults to 1
+  weight: relationWeight.optional(),
+});
+
+export const updateSubGoalBody = z.object({
+  weight: relationWeight,
+});
+
+export const setGoalParentsBody = z.object({
+  // Every goal this one should sit under; an empty list makes it a top-level goal
+  parentIds: z.array(requiredText).max(50, 'At most 50 parents'),
+});
+
+export const createGoalLogBody = z.object({
+  value: z.number(),
+  note: z.string().nullish(),
+  // Defaults to today in the configured timezone
+  logDate: dateString.optional(),
+});
+
+export const bulkGoalLogEntry = z.object({
+  logDate: dateString,
+  value: z.number(),
+  note: z.string().nullish(),
+});
+
+export const bulkGoalLogBody = z.object({
+  entries: z.array(bulkGoalLogEntry).min(1, 'At least one entry is required').optional(),
+  // Lines of date,value[,note], optionally under a header line naming the columns
+  csv: z.string().refine(csv => csv.trim().length > 0, 'Required').optional(),
+}).refine(body => (body.entries === undefined) !== (body.csv === undefined), {
+  message: 'Send either entries or csv',
+});
+
+export const updateGoalLogBody = z.object({
+  value: z.number().optional(),
+  note: z.string().nullish(),
+  logDate: dateString.optional(),
+});
+
+export const goal = z.object({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  title: z.string(),
+  goalType: z.enum(GOAL_TYPES),
+  targetValue: z.number(),
+  unit: z.string(),
+  currentValue: z.number(),
+  totalPages: z.number().int().nullable(),
+  currentPage: z.number().int(),
+  frequencyPeriod: z.enum(FREQUENCY_PERIODS).nullable(),
+  // Numeric goals only
+  numericMode: z.enum(NUMERIC_MODES).nullable(),
+  // Numeric goals: the value before any log, which progress is measured from (0 when null).
+  // A target below it makes the goal count down.
+  baseline: z.number().nullable(),
+  // Frequency goals: first day of the open period that currentValue counts
+  periodStart: z.string().nullable(),
+  startDate: z.string(),
+  targetDate: z.string().nullable(),
+  isActive: z.boolean(),
+  // Set while the goal is archived; goals archived before reasons were kept have none
+  archivedAt: z.string().nullable(),
+  archiveReason: z.enum(ARCHIVE_REASONS).nullable(),
+  // The season the goal is planned in, if any
+  seasonId: z.string().nullable(),
+  createdAt: z.string(),
+}).meta({ id: 'Goal' });
+
+export const goalLog = z.object({
+  id: z.number().int(),
+  goalId: z.string(),
+  logDate: z.string(),
+  value: z.number(),
+  note: z.string().nullable(),
+  createdAt: z.string(),
+}).meta({ id: 'GoalLog' });
+
+// A parent-child link; a goal may sit under several parents, as long as no goal
+// ends up below itself
+export const goalRelation = z.object({
+  id: z.number().int(),
+  parentId: z.string(),
+  childId: z.string(),
+  relationType: z.string(),
+  weight: z.number(),
+  createdAt: z.string(),
+}).meta({ id: 'GoalRelation' });
+
+export const goalGraph = z.object({
+  // Active goals, top-level and sub-goals alike
+  nodes: z.array(goal),
+  // Links between them, oldest first
+  edges: z.array(goalRelation),
+}).meta({ id: 'GoalGraph' });
+
+// A goal with its active sub-goals, all the way down. A sub-goal under several
+// parents appears under each of them.
+export const goalTreeNode = z.object({
+  goal,
+  // Weight of the link from the parent node; 1 at the root
+  weight: z.number(),
+  // The goal's own progress, 0-100
+  progressPercent: z.number().int(),
+  // Numeric goals with sub-goals: the weighted average of their sub-goals' rollupPercent.
+  // Otherwise the goal's own progress.
+  rollupPercent: z.number().int(),
+  get children(): z.ZodArray<typeof goalTreeNode> {
+    return z.array(goalTreeNode);
+  },
+}).meta({ id: 'GoalTreeNode' });
+
+const streakRun = z.object({
+  length: z.number().int(),
+  // First and last day covered by the run, or null when it is empty
+  startDate: z.string().nullable(),
+  endDate: z.string().nullable(),
+});
+
+// Runs of consecutive periods that met the target: weeks or months for weekly and
+// monthly frequency goals, otherwise days (with a log that made progress, for reading
+// and numeric goals; a value-0 log doesn't count)
+export const goalStreak = z.object({
+  unit: z.enum(STREAK_UNITS),
+  // Ends with the latest period that met its target; a period still in progress doesn't break it
+  current: streakRun,
+  best: streakRun,
+}).meta({ id: 'GoalStreak' });
+
+// Where the goal is heading against its deadline
+export const goalPace = z.object({
+  // targetDate, or the last day of the current period for frequency goals
+  deadline: z.string(),
+  // Today through the deadline; 0 once it has passed
+  daysLeft: z.number().int(),
+  // Change per day still needed to reach the target by the deadline, signed like the goal;
+  // null once the target is reached or the deadline has passed
+  requiredPerDay: z.number().nullable(),
+  // Where the current velocity leaves the goal at the deadline
+  projectedValue: z.number(),
+  // On track while the velocity is within 10% of the required pace
+  status: z.enum(PACE_STATUSES),
+}).meta({ id: 'GoalPace' });
+
+export const goalStats = z.object({
+  goal,
+  // The 30 most recent logs
+  logs: z.array(goalLog),
+  subGoals: z.array(goal),
+  // Sub-goals whose rolled-up progress reached 100%
+  subGoalsCompleted: z.number().int(),
+  // Change in progress per day, a least-squares fit over the window; negative for goals counting down
+  velocity: z.number().nullable(),
+  velocityWindow: z.number().int(),
+  // When the target is reached at that velocity; today once it has been
+  estimatedFinishDate: z.string().nullable(),
+  daysRemaining: z.number().int().nullable(),
+  // Null for goals without a target date, except frequency goals
+  pace: goalPace.nullable(),
+  // Rolled up from the sub-goals for numeric goals that have them, as in GoalTreeNode
+  progressPercent: z.number().int(),
+  streak: goalStreak,
+  // Frequency goals only: logs in the current period against the target
+  periodProgress: z.object({ current: z.number().int(), target: z.number() }).nullable(),
+}).meta({ id: 'GoalStats' });
+
+// A log write also changes the goal's progress, so both come back
+export const goalLogResult = z.object({
+  log: goalLog,
+  goal,
+});
+
+export const goalBulkLogResult = z.object({
+  // The written logs, oldest first
+  logs: z.array(goalLog),
+  goal,
+});
+
+export const goalPeriod = z.object({
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  // The goal's target when the period closed, or its current one for the open period
+  target: z.number(),
+  // Days marked done in the period
+  completed: z.number().int(),
+  met: z.boolean(),
+  // False only for the period in progress
+  closed: z.boolean(),
+}).meta({ id: 'GoalPeriod' });
+
+export const goalPeriodHistory = z.object({
+  // Oldest first; the last one is the open period
+  periods: z.array(goalPeriod),
+  // Share of closed periods that met their target, 0-100, or null before any closed
+  successRate: z.number().int().nullable(),
+  // Most consecutive periods that met their target
+  longestRun: z.number().int(),
+}).meta({ id: 'GoalPeriodHistory' });
+
+export const goalSeriesPoint = z.object({
+  // First and last day of the bucket; weeks follow the week start setting
+  start: z.string(),
+  end: z.string(),
+  // Frequency goals: days done in the bucket. Others: progress at the end of the
+  // bucket (pages read, latest value or running total), null before the first log.
+  value: z.number().nullable(),
+  // Where the value should be: the goal's target, prorated to the bucket's length
+  // for frequency goals
+  target: z.number(),
+});
+
+export const goalSeries = z.object({
+  bucket: z.enum(SERIES_BUCKETS),
+  from: z.string(),
+  to: z.string(),
+  // Where the progress scale starts: a numeric goal's baseline, otherwise 0
+  baseline: z.number(),
+  // Oldest first, covering from through to
+  points: z.array(goalSeriesPoint),
+}).meta({ id: 'GoalSeries' });
+
+export const goalProgressDrift = z.object({
+  goalId: z.string(),
+  title: z.string(),
+  goalType: z.enum(GOAL_TYPES),
+  field: z.enum(['currentPage', 'currentValue']),
+  stored: z.number(),
+  // What the goal's logs add up to today
+  expected: z.number(),
+}).meta({ id: 'GoalProgressDrift' });
+
+export const goalConsistencyReport = z.object({
+  checked: z.number().int(),
+  drifted: z.array(goalProgressDrift),
+});
+
+export const goalRoutes = {
+  list: defineRoute({
+    method: 'get',
+    path: '/goals',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get all top-level goals',
+    response: z.array(goal),
+  }),
+  listArchived: defineRoute({
+    method: 'get',
+    path: '/goals/archived',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get archived goals, most recently archived first',
+    description: 'Includes archived sub-goals.',
+    response: z.array(goal),
+  }),
+  listTrees: defineRoute({
+    method: 'get',
+    path: '/goals/tree',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get every top-level goal with its sub-goal tree and rolled-up progress',
+    response: z.array(goalTreeNode),
+  }),
+  getGraph: defineRoute({
+    method: 'get',
+    path: '/goals/graph',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get every active goal and the links between them',
+    response: goalGraph,
+  }),
+  checkConsistency: defineRoute({
+    method: 'get',
+    path: '/goals/consistency',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Find goals whose progress drifted from their logs',
+    description: 'Progress is recomputed from the logs on every log write, and frequency goals roll over to their ' +
+      'new period before this runs; this lists goals, archived ones included, whose stored progress still does not match.',
+    response: goalConsistencyReport,
+  }),
+  get: defineRoute({
+    method: 'get',
+    path: '/goals/:id',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get goal by ID',
+    params: goalIdParams,
+    response: goal,
+    errors: { 404: 'Goal not found' },
+  }),
+  getStats: defineRoute({
+    method: 'get',
+    path: '/goals/:id/stats',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get goal statistics',
+    description: 'Velocity is fitted over the last `window` days (30 by default) and projected to the target date.',
+    params: goalIdParams,
+    query: goalStatsQuery,
+    response: goalStats,
+    errors: { 404: 'Goal not found' },
+  }),
+  listPeriods: defineRoute({
+    method: 'get',
+    path: '/goals/:id/periods',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get every period of a frequency goal with its result',
+    description: 'Each daily, weekly or monthly period since the goal started, with how many days were done ' +
+      'against the target, plus the success rate and the longest run of periods that met it.',
+    params: goalIdParams,
+    response: goalPeriodHistory,
+    errors: { 400: 'Not a frequency goal', 404: 'Goal not found' },
+  }),
+  getSeries: defineRoute({
+    method: 'get',
+    path: '/goals/:id/series',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get goal progress over time',
+    description: 'Progress per day, week or month between `from` and `to` (by day unless `bucket` says otherwise), ' +
+      'with the target line to plot it against. At most 1000 buckets.',
+    params: goalIdParams,
+    query: goalSeriesQuery,
+    response: goalSeries,
+    errors: { 400: 'Too many buckets', 404: 'Goal not found' },
+  }),
+  listSubGoals: defineRoute({
+    method: 'get',
+    path: '/goals/:id/subgoals',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get the active sub-goals of a goal',
+    params: goalIdParams,
+    response: z.array(goal),
+  }),
+  linkSubGoal: defineRoute({
+    method: 'post',
+    path: '/goals/:id/subgoals',
+    tag: 'Goals',
+    scope: 'goals:write',
+    summary: 'Attach an existing goal as a sub-goal',
+    description: 'The sub-goal keeps any other parents it has. Rejected when the goal already sits, directly or ' +
+      'further down, below the sub-goal, since that would make a goal its own ancestor.',
+    params: goalIdParams,
+    body: linkSubGoalBody,
+    response: goalRelation,
+    status: 201,
+    errors: { 404: 'Goal not found', 409: 'Already linked, or would create a cycle' },
+  }),
+  unlinkSubGoal: defineRoute({
+    method: 'delete',
+    path: '/goals/:id/subgoals/:childId',
+    tag: 'Goals',
+    scope: 'goals:write',
+    summary: 'Detach a sub-goal',
+    description: 'Only the link is removed; a goal left without parents becomes a top-level goal.',
+    params: subGoalParams,
+    response: null,
+    status: 204,
+    errors: { 404: 'Sub-goal link not found' },
+  }),
+  setParents: defineRoute({
+    method: 'put',
+    path: '/goals/:id/parents',
+    tag: 'Goals',
+    scope: 'goals:write',
+    summary: 'Move a goal under a new set of parents',
+    description: 'Replaces all of the goal\'s parent links at once; links it already had keep their creation date.',
+    params: goalIdParams,
+    body: setGoalParentsBody,
+    response: z.array(goalRelation),
+    errors: { 404: 'Goal not found', 409: 'Would create a cycle' },
+  }),
+  getTree: defineRoute({
+    method: 'get',
+    path: '/goals/:id/tree',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get a goal\'s sub-goal tree with rolled-up progress',
+    description: 'Numeric goals with sub-goals take the weighted average of their sub-goals\' progress, whatever ' +
+      'their type, recursively; sub-goals of their own count by what they roll up to.',
+    params: goalIdParams,
+    response: goalTreeNode,
+    errors: { 404: 'Goal not found' },
+  }),
+  updateSubGoal: defineRoute({
+    method: 'patch',
+    path: '/goals/:id/subgoals/:childId',
+    tag: 'Goals',
+    scope: 'goals:write',
+    summary: 'Change how much a sub-goal counts towards its parent',
+    params: subGoalParams,
+    body: updateSubGoalBody,
+    response: goalRelation,
+    errors: { 404: 'Sub-goal link not found' },
+  }),
+  listLogs: defineRoute({
+    method: 'get',
+    path: '/goals/:id/logs',
+    tag: 'Goals',
+    scope: 'read',
+    summary: 'Get goal logs, newest first',
+    params: goalIdParams,
+    query: goalLogsQuery,
+    response: z.array(goalLog),
+  }),
+  create: defineRoute({
+    method: 'post',
+    path: '/goals',
+    tag: 'Goals',
+    scope: 'goals:write',
+    summary: 'Create a new goal',
+    body: createGoalBody,
+    response: goal,
+    status: 201,
+    errors: { 404: 'Parent goal or season not found', 409: 'Season already reviewed' },
+  }),
+  update: defineRoute({
+    method: 'patch',
+    path: '/goals/:id',
+    tag: 'Goals',
+    scope: 'goals:write',
+    summary: 'Update a goal',
+    description: 'Progress is not editable here; it follows from the goal\'s logs. Changing a numeric goal\'s ' +
+      'mode or baseline recomputes it; both are ignored for other goal types. Archive and restore goals with ' +
+      'DELETE /goals/:id and POST /goals/:id/restore.',
+    params: goalIdParams,
+    body: updateGoalBody,
+    response: goal,
+    errors: { 404: 'Goal or season not found', 409: 'Season already reviewed' },
+  }),
+  logProgress: defineRoute({
+    method: 'post',
+    path: '/goals/:id/logs',
+    tag: 'Goals',
+    scope: 'goals:log',
+    summary: 'Log progress for a goal',
+    description: 'One log per goal and day: logging a day again replaces its value and keeps the note unless a new one is given.',
+    params: goalIdParams,
+    body: createGoalLogBody,
+    response: goalLogResult,
+    status: 201,
+    errors: { 404: 'Goal not found' },
+  }),
+  bulkLog: defineRoute({
+    method: 'post',
+    path: '/goals/:id/logs/bulk',
+    tag: 'Goals',
+    scope: 'goals:log',
+    summary: 'Log progress for many days at once',
+    description: `Takes \`entries\` or \`csv\`, up to ${MAX_BULK_GOAL_LOGS} days. Every entry is checked before ` +
+      'any is written; then all are upserted like single logs, and the goal\'s progress recomputed, in one write.',
+    params: goalIdParams,
+    body: bulkGoalLogBody,
+    response: goalBulkLogResult,
+    status: 201,
+    errors: { 404: 'Goal not found' },
+  }),
+  updateLog: defineRoute({
+    method: 'patch',
+    path: '/goals/:goalId/logs/:logId',
+    tag: 'Goals',
+    scope: 'goals:log',
+    summary: 'Update a goal log',
+    params: goalLogParams,
+    body: updateGoalLogBody,
+    response: goalLogResult,
+    errors: { 404: 'Goal log not found' },
+  }),
+  deleteLog: defineRoute({
+    method: 'delete',
+    path: '/goals/:goalId/logs/:logId',
+    tag: 'Goals',
+    scope: 'goals:log',
+    summary: 'Delete a goal log',
+    description: 'Returns the deleted log alongside the recomputed goal; logging its date again undoes the delete.',
+    params: goalLogParams,
+    response: goalLogResult,
+    errors: { 404: 'Goal log not found' },
+  }),
+  delete: defineRoute({
+    method: 'delete',
+    path: '/goals/:id',
+    tag: 'Goals',
+    scope: 'goals:write',
+    summary: 'Archive a goal',
+    description: 'Goals are soft-deleted: they move to the archive with their logs and can be restored.',
+    params: goalIdParams,
+    query: archiveGoalQuery,
+    response: null,
+    status: 204,
+    errors: { 404: 'Goal not found' },
+  }),
+  restore: defineRoute({
+    method: 'post',
+    path: '/goals/:id/restore',
+    tag: 'Goals',
+    scope: 'goals:write',
+    summary: 'Restore an archived goal',
+    description: 'Frequency goals start again from the current period; the time spent archived is not counted as missed.',
+    params: goalIdParams,
+    response: goal,
+    errors: { 404: 'Goal not found', 409: 'Goal is not archived' },
+  }),
+  purge: defineRoute({
+    method: 'delete',
+    path: '/goals/archived/:id',
+    tag: 'Goals',
+    scope: 'goals:write',
+    summary: 'Permanently delete an archived goal',
+    description: 'Removes the goal with its logs, periods, links and season scores. Its sub-goals stay, as top-level goals.',
+    params: goalIdParams,
+    response: null,
+    status: 204,
+    errors: { 404: 'Goal not found', 409: 'Goal is not archived' },
+  }),
+};
+
+export type Goal = z.output<typeof goal>;
+export type GoalLog = z.output<typeof goalLog>;
+export type GoalRelation = z.output<typeof goalRelation>;
+export type GoalGraph = z.output<typeof goalGraph>;
+export type GoalTreeNode = z.output<typeof goalTreeNode>;
+export type GoalStats = z.output<typeof goalStats>;
+export type GoalStreak = z.output<typeof goalStreak>;
+export type GoalPace = z.output<typeof goalPace>;
+export type GoalSeries = z.output<typeof goalSeries>;
+export type GoalSeriesPoint = z.output<typeof goalSeriesPoint>;
+export type GoalSeriesQuery = z.output<typeof goalSeriesQuery>;
+export type GoalStatsQuery = z.output<typeof goalStatsQuery>;
+export type GoalPeriod = z.output<typeof goalPeriod>;
+export type GoalPeriodHistory = z.output<typeof goalPeriodHistory>;
+export type GoalProgressDrift = z.output<typeof goalProgressDrift>;
+export type GoalConsistencyReport = z.output<typeof goalConsistencyReport>;
+export type ArchiveGoalQuery = z.output<typeof archiveGoalQuery>;
+export type GoalLogsQuery = z.output<typeof goalLogsQuery>;
+export type CreateGoalRequest = z.input<typeof createGoalBody>;
+export type UpdateGoalRequest = z.input<typeof updateGoalBody>;
+export type LinkSubGoalRequest = z.input<typeof linkSubGoalBody>;
+export type SetGoalParentsRequest = z.input<typeof setGoalParentsBody>;
+export type UpdateSubGoalRequest = z.input<typeof updateSubGoalBody>;
+export type CreateGoalLogRequest = z.input<typeof createGoalLogBody>;
+export type UpdateGoalLogRequest = z.input<typeof updateGoalLogBody>;
+export type BulkGoalLogEntry = z.output<typeof bulkGoalLogEntry>;
+export type BulkGoalLogRequest = z.input<typeof bulkGoalLogBody>;
+export type GoalBulkLogResult = z.output<typeof goalBulkLogResult>;
+
+// Where a goal's progress starts, stands and should end up, on one scale: pages for
+// reading goals, days done this period for frequency goals, the value for numeric ones
+export function goalProgressScale(goal: Goal): { start: number; current: number; target: number } {
+  if (goal.goalType === 'reading') {
+    return { start: 0, current: goal.currentPage, target: goal.totalPages ?? 0 };
+  }
+  return {
+    start: goal.goalType === 'numeric' ? goal.baseline ?? 0 : 0,
+    current: goal.currentValue,
+    target: goal.targetValue,
+  };
+}
+
+// How far a goal is towards its target, 0-100. Numeric goals measure the distance
+// covered from their baseline, so one with a target below it counts down.
+export function goalProgressPercent(goal: Goal): number {
+  const { start, current, target } = goalProgressScale(goal);
+  if (target === start) return 0;
+  const percent = ((current - start) / (target - start)) * 100;
+  return Math.max(0, Math.min(100, Math.round(percent)));
+}
+
+// Days from today through the deadline, both YYYY-MM-DD; 0 once it has passed
+export function daysLeftUntil(deadline: string, today: string): number {
+  const days = (Date.parse(deadline.slice(0, 10)) - Date.parse(today)) / (1000 * 60 * 60 * 24);
+  return Math.max(0, Math.round(days) + 1);
+}
+
+// Change per day still needed to reach the target by the deadline, signed like the
+// goal; null once the target is reached or the deadline has passed
+export function requiredPace(goal: Goal, deadline: string, today: string): number | null {
+  const { start, current, target } = goalProgressScale(goal);
+  const remaining = target - current;
+  const daysLeft = daysLeftUntil(deadline, today);
+  if (remaining * (Math.sign(target - start) || 1) <= 0 || daysLeft === 0) return null;
+  return remaining / daysLeft;
+}
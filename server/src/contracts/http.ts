@@ -0,0 +1,56 @@
+import type { z } from 'zod';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export type ErrorStatus = 400 | 401 | 403 | 404 | 409;
+
+// What a personal API token may be allowed to do. Signed-in browser sessions may do everything.
+export const TOKEN_SCOPES = [
+  'read', 'tasks:write', 'work-logs:write', 'expenses:write', 'goals:write', 'goals:log',
+  'reflections:write', 'settings:write', 'backup:restore',
+] as const;
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+// One endpoint. The server mounts and validates its handler from this, the
+// OpenAPI document is generated from it and the client SDK is typed by it.
+export interface RouteContract {
+  method: HttpMethod;
+  // Express-style path below /api, e.g. /tasks/:id
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  // Reachable without signing in; every other route requires a session or API token
+  public?: boolean;
+  // Scope an API token needs to call this route; without one, only sessions may
+  scope?: TokenScope;
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+  // Success body; null when the route answers with no content
+  response: z.ZodType | null;
+  status?: 200 | 201 | 204;
+  // For success bodies that aren't JSON, such as file downloads
+  contentType?: string;
+  // Failures worth documenting beyond contract violations (400), missing sessions (401)
+  // and server errors (500)
+  errors?: Partial<Record<ErrorStatus, string>>;
+}
+
+export function defineRoute<const R extends RouteContract>(route: R): R {
+  return route;
+}
+
+// What a handler sees once the request passed validation
+export type RouteParams<R> = R extends { params: infer S extends z.ZodType } ? z.output<S> : Record<string, never>;
+export type RouteQuery<R> = R extends { query: infer S extends z.ZodType } ? z.output<S> : Record<string, never>;
+export type RouteBody<R> = R extends { body: infer S extends z.ZodType } ? z.output<S> : undefined;
+
+export type RouteResponse<R> = R extends { response: infer S extends z.ZodType } ? z.output<S> : void;
+
+// What a caller passes. Path params may be numbers since they are written into the URL,
+// and query values are what the handler will see, before they are turned into strings.
+export type RouteInput<R> =
+  (R extends { params: infer S extends z.ZodType } ? { params: { [K in keyof z.input<S>]: string | number } } : unknown) &
+  (R extends { query: infer S extends z.ZodType } ? { query?: z.output<S> } : unknown) &
+  (R extends { body: infer S extends z.ZodType } ? { body: z.input<S> } : unknown);
@@ -0,0 +1,17 @@
+// Route contracts for the whole API: request and response schemas shared by the
+// server (validation, OpenAPI) and the client (SDK types)
+export * from './common.js';
+export * from './http.js';
+export * from './auth.js';
+export * from './tokens.js';
+export * from './tasks.js';
+export * from './workLogs.js';
+export * from './expenses.js';
+export * from './expenseImports.js';
+export * from './goals.js';
+export * from './seasons.js';
+export * from './weekly.js';
+export * from './settings.js';
+export * from './backup.js';
+export * from './system.js';
+export * from './api.js';
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { dateString, requiredText } from './common.js';
+import { goal } from './goals.js';
+import { weeklyReflection } from './weekly.js';
+import { defineRoute } from './http.js';
+
+export const seasonIdParams = z.object({ id: requiredText });
+
+export const createSeasonBody = z.object({
+  name: requiredText,
+  startDate: dateString,
+  endDate: dateString,
+}).refine(body => body.startDate <= body.endDate, {
+  path: ['endDate'],
+  message: 'Must not be before startDate',
+});
+
+export const updateSeasonBody = z.object({
+  name: requiredText.optional(),
+  startDate: dateString.optional(),
+  endDate: dateString.optional(),
+});
+
+export const season = z.object({
+  id: z.string(),
+  name: z.string(),
+  // First and last day, both included
+  startDate: z.string(),
+  endDate: z.string(),
+  // Set once the season has been reviewed and its scores frozen
+  reviewedAt: z.string().nullable(),
+  goalCount: z.number().int(),
+  // Average score of its goals, 0-1, once reviewed
+  score: z.number().nullable(),
+  createdAt: z.string(),
+}).meta({ id: 'Season' });
+
+export const seasonGoal = z.object({
+  goal,
+  // Frequency goals: share of the season's periods that met the target. Others: the
+  // goal's progress on the season's last day (or today while it runs), rolled up
+  // from its sub-goals where it has them; later logs don't count.
+  progressPercent: z.number().int(),
+  // 0-1: progress as a fraction, or 1 for goals archived as completed. Frozen at
+  // review; until then it is what a review today would give.
+  score: z.number(),
+}).meta({ id: 'SeasonGoal' });
+
+export const seasonSummary = z.object({
+  season,
+  // Best score first
+  goals: z.array(seasonGoal),
+  // Closing Event reflections of the weeks starting in the season, oldest first
+  reflections: z.array(weeklyReflection),
+}).meta({ id: 'SeasonSummary' });
+
+export const seasonRoutes = {
+  list: defineRoute({
+    method: 'get',
+    path: '/seasons',
+    tag: 'Seasons',
+    scope: 'read',
+    summary: 'List seasons, latest first',
+    response: z.array(season),
+  }),
+  get: defineRoute({
+    method: 'get',
+    path: '/seasons/:id',
+    tag: 'Seasons',
+    scope: 'read',
+    summary: 'Get a season with its goals, scores and weekly reflections',
+    params: seasonIdParams,
+    response: seasonSummary,
+    errors: { 404: 'Season not found' },
+  }),
+  create: defineRoute({
+    method: 'post',
+    path: '/seasons',
+    tag: 'Seasons',
+    scope: 'goals:write',
+    summary: 'Create a season',
+    description: 'Assign goals to it with `seasonId` on POST or PATCH /goals.',
+    body: createSeasonBody,
+    response: season,
+    status: 201,
+  }),
+  update: defineRoute({
+    method: 'patch',
+    path: '/seasons/:id',
+    tag: 'Seasons',
+    scope: 'goals:write',
+    summary: 'Rename a season or move its dates',
+    params: seasonIdParams,
+    body: updateSeasonBody,
+    response: season,
+    errors: { 400: 'End date before start date', 404: 'Season not found', 409: 'Season already reviewed' },
+  }),
+  delete: defineRoute({
+    method: 'delete',
+    path: '/seasons/:id',
+    tag: 'Seasons',
+    scope: 'goals:write',
+    summary: 'Delete a season',
+    description: 'Its goals stay, outside any season; its scores go.',
+    params: seasonIdParams,
+    response: null,
+    status: 204,
+    errors: { 404: 'Season not found' },
+  }),
+  review: defineRoute({
+    method: 'post',
+    path: '/seasons/:id/review',
+    tag: 'Seasons',
+    scope: 'goals:write',
+    summary: 'Review a season: freeze and score its goals',
+    description: 'Stores each goal\'s progress as of the season\'s last day and a score from 0 to 1, archived goals included. ' +
+      'Possible from the day after the season\'s last day, once.',
+    params: seasonIdParams,
+    response: seasonSummary,
+    errors: { 404: 'Season not found', 409: 'Season not over yet, or already reviewed' },
+  }),
+};
+
+export type Season = z.output<typeof season>;
+export type SeasonGoal = z.output<typeof seasonGoal>;
+export type SeasonSummary = z.output<typeof seasonSummary>;
+export type CreateSeasonRequest = z.input<typeof createSeasonBody>;
+export type UpdateSeasonRequest = z.input<typeof updateSeasonBody>;
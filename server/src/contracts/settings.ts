@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { defineRoute } from './http.js';
+
+export const WEEK_START_DAYS = ['sunday', 'monday'] as const;
+export type WeekStartDay = typeof WEEK_START_DAYS[number];
+
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const updateSettingsBody = z.object({
+  // IANA zone name, e.g. "Asia/Jerusalem"
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+  weekStart: z.enum(WEEK_START_DAYS, { error: 'Must be sunday or monday' }).optional(),
+});
+
+export const settings = z.object({
+  timezone: z.string().meta({ description: 'IANA timezone used for "today" and week boundaries', example: 'Asia/Jerusalem' }),
+  weekStart: z.enum(WEEK_START_DAYS).meta({ description: 'First day of the week for summaries, goals and calendars' }),
+}).meta({ id: 'Settings' });
+
+export const settingsRoutes = {
+  get: defineRoute({
+    method: 'get',
+    path: '/settings',
+    tag: 'Settings',
+    scope: 'read',
+    summary: 'Get your settings',
+    description: 'Defaults fill in anything never saved.',
+    response: settings,
+  }),
+  update: defineRoute({
+    method: 'put',
+    path: '/settings',
+    tag: 'Settings',
+    scope: 'settings:write',
+    summary: 'Update your settings',
+    description: 'Only the fields provided are changed.',
+    body: updateSettingsBody,
+    response: settings,
+  }),
+};
+
+export type Settings = z.output<typeof settings>;
+export type UpdateSettingsRequest = z.input<typeof updateSettingsBody>;
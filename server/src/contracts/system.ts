@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { defineRoute } from './http.js';
+
+export const logStats = z.object({
+  totalQueries: z.number().int(),
+  byTable: z.record(z.string(), z.number().int()),
+  byQueryType: z.record(z.string(), z.number().int()),
+  byPurpose: z.record(z.string(), z.number().int()),
+  avgDurationMs: z.number(),
+  totalRequests: z.number().int().meta({ description: 'Distinct request IDs seen in the log' }),
+  avgQueriesPerRequest: z.number(),
+}).meta({ id: 'LogStats' });
+
+export const healthStatus = z.object({
+  status: z.literal('ok'),
+  timestamp: z.string(),
+});
+
+export const logRoutes = {
+  download: defineRoute({
+    method: 'get',
+    path: '/logs/download',
+    tag: 'Logs',
+    summary: 'Download and clear your query logs',
+    description: 'Downloads the queries run by your own requests as JSONL and removes them from the log file. '
+      + 'Other users\' entries are neither returned nor cleared.',
+    response: z.string(),
+    contentType: 'application/x-ndjson',
+  }),
+  stats: defineRoute({
+    method: 'get',
+    path: '/logs/stats',
+    tag: 'Logs',
+    summary: 'Get aggregated statistics of your query logs',
+    response: logStats,
+  }),
+};
+
+export const systemRoutes = {
+  health: defineRoute({
+    method: 'get',
+    path: '/health',
+    tag: 'System',
+    summary: 'Check that the API is up',
+    public: true,
+    response: healthStatus,
+  }),
+};
+
+export type LogStats = z.output<typeof logStats>;
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { dateString, dateOrDateTime, requiredText, pageLimit } from './common.js';
+import { defineRoute } from './http.js';
+
+export const TASK_CATEGORIES = ['Work', 'Admin', 'Personal'] as const;
+export type TaskCategory = typeof TASK_CATEGORIES[number];
+
+export const MAX_TASK_PAGE_SIZE = 200;
+
+export const taskCategory = z.enum(TASK_CATEGORIES, { error: 'Must be Work, Admin or Personal' });
+
+export const listTasksQuery = z.object({
+  category: taskCategory.optional(),
+  completed: z.stringbool({ error: 'Must be true or false' }).optional(),
+  scheduledFrom: dateString.optional(),
+  scheduledTo: dateString.optional(),
+  // 'outside' = unscheduled or scheduled outside scheduledFrom..scheduledTo
+  scheduledRange: z.enum(['within', 'outside']).optional(),
+  deadlineFrom: dateString.optional(),
+  deadlineTo: dateString.optional(),
+  limit: pageLimit(MAX_TASK_PAGE_SIZE).optional(),
+  cursor: z.string().optional(),
+});
+
+export const taskIdParams = z.object({ id: requiredText });
+
+export const taskSubTasksParams = z.object({ taskId: requiredText });
+
+export const subTaskParams = taskSubTasksParams.extend({ subTaskId: requiredText });
+
+export const createTaskBody = z.object({
+  title: requiredText,
+  category: taskCategory.optional(),
+  deadline: dateOrDateTime.nullish(),
+  parentId: z.string().nullish(),
+});
+
+export const updateTaskBody = z.object({
+  title: requiredText.optional(),
+  category: taskCategory.optional(),
+  deadline: dateOrDateTime.nullish(),
+  scheduledCompleteDate: dateString.nullish(),
+  isCompleted: z.boolean().optional(),
+});
+
+export const createSubTaskBody = z.object({
+  text: requiredText,
+});
+
+export const updateSubTaskBody = z.object({
+  completed: z.boolean().optional(),
+  text: requiredText.optional(),
+});
+
+export const subTask = z.object({
+  id: z.string(),
+  text: z.string(),
+  completed: z.boolean(),
+}).meta({ id: 'SubTask' });
+
+export const task = z.object({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  title: z.string(),
+  subTasks: z.array(subTask),
+  category: taskCategory,
+  deadline: z.string().nullable(),
+  scheduledCompleteDate: z.string().nullable(),
+  isCompleted: z.boolean(),
+  createdAt: z.string(),
+}).meta({ id: 'Task' });
+
+export const taskPage = z.object({
+  items: z.array(task),
+  nextCursor: z.string().nullable().meta({ description: 'Pass back as ?cursor= for the next page; null on the last page' }),
+}).meta({ id: 'TaskPage' });
+
+export const taskRoutes = {
+  list: defineRoute({
+    method: 'get',
+    path: '/tasks',
+    tag: 'Tasks',
+    scope: 'read',
+    summary: 'List top-level tasks, one page at a time',
+    description: 'Tasks with a deadline come first (soonest first), then the newest. '
+      + '`scheduledRange=outside` returns tasks that are unscheduled or scheduled outside scheduledFrom..scheduledTo.',
+    query: listTasksQuery,
+    response: taskPage,
+  }),
+  get: defineRoute({
+    method: 'get',
+    path: '/tasks/:id',
+    tag: 'Tasks',
+    scope: 'read',
+    summary: 'Get task by ID',
+    params: taskIdParams,
+    response: task,
+    errors: { 404: 'Task not found' },
+  }),
+  create: defineRoute({
+    method: 'post',
+    path: '/tasks',
+    tag: 'Tasks',
+    scope: 'tasks:write',
+    summary: 'Create a new task',
+    body: createTaskBody,
+    response: task,
+    status: 201,
+    errors: { 404: 'Parent task not found' },
+  }),
+  update: defineRoute({
+    method: 'patch',
+    path: '/tasks/:id',
+    tag: 'Tasks',
+    scope: 'tasks:write',
+    summary: 'Update a task',
+    params: taskIdParams,
+    body: updateTaskBody,
+    response: task,
+    errors: { 400: 'Cannot complete a task with incomplete subtasks', 404: 'Task not found' },
+  }),
+  delete: defineRoute({
+    method: 'delete',
+    path: '/tasks/:id',
+    tag: 'Tasks',
+    scope: 'tasks:write',
+    summary: 'Delete a task',
+    params: taskIdParams,
+    response: null,
+    status: 204,
+    errors: { 404: 'Task not found' },
+  }),
+  addSubTask: defineRoute({
+    method: 'post',
+    path: '/tasks/:taskId/subtasks',
+    tag: 'Tasks',
+    scope: 'tasks:write',
+    summary: 'Add a subtask',
+    description: 'Reopens the task if it was completed.',
+    params: taskSubTasksParams,
+    body: createSubTaskBody,
+    response: task,
+    status: 201,
+    errors: { 404: 'Task not found' },
+  }),
+  updateSubTask: defineRoute({
+    method: 'patch',
+    path: '/tasks/:taskId/subtasks/:subTaskId',
+    tag: 'Tasks',
+    scope: 'tasks:write',
+    summary: 'Update a subtask',
+    params: subTaskParams,
+    body: updateSubTaskBody,
+    response: task,
+    errors: { 404: 'Subtask not found' },
+  }),
+  deleteSubTask: defineRoute({
+    method: 'delete',
+    path: '/tasks/:taskId/subtasks/:subTaskId',
+    tag: 'Tasks',
+    scope: 'tasks:write',
+    summary: 'Delete a subtask',
+    params: subTaskParams,
+    response: task,
+    errors: { 404: 'Subtask not found' },
+  }),
+};
+
+export type SubTask = z.output<typeof subTask>;
+export type Task = z.output<typeof task>;
+export type TaskPage = z.output<typeof taskPage>;
+export type TaskListQuery = z.output<typeof listTasksQuery>;
+export type TaskFilters = Omit<TaskListQuery, 'cursor'>;
+export type CreateTaskRequest = z.input<typeof createTaskBody>;
+export type UpdateTaskRequest = z.input<typeof updateTaskBody>;
+export type CreateSubTaskRequest = z.input<typeof createSubTaskBody>;
+export type UpdateSubTaskRequest = z.input<typeof updateSubTaskBody>;
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { defineRoute, TOKEN_SCOPES } from './http.js';
+import type { TokenScope } from './http.js';
+import { dateString, requiredText } from './common.js';
+
+export const TOKEN_SCOPE_DESCRIPTIONS: Record<TokenScope, string> = {
+  'read': 'Read everything: tasks, goals, logs, expenses, summaries, settings and exports',
+  'tasks:write': 'Create, edit, complete and delete tasks and subtasks',
+  'work-logs:write': 'Record and edit daily integrity logs',
+  'expenses:write': 'Add, edit and delete expenses, recurring expenses and bank imports',
+  'goals:write': 'Create, edit and delete goals',
+  'goals:log': 'Log and edit progress on goals',
+  'reflections:write': 'Write weekly reflections',
+  'settings:write': 'Change timezone and week start',
+  'backup:restore': 'Restore backups, which can replace all of your data',
+};
+
+// Plaintext tokens start with this, so they are recognisable in scripts and secret scanners
+export const API_TOKEN_PREFIX = 'aud_';
+
+export const tokenIdParams = z.object({
+  id: z.string(),
+});
+
+export const createApiTokenBody = z.object({
+  name: requiredText.max(100),
+  scopes: z.array(z.enum(TOKEN_SCOPES, { error: `Must be one of: ${TOKEN_SCOPES.join(', ')}` }))
+    .min(1, 'Pick at least one scope'),
+  // Last day the token works; omitted tokens never expire
+  expiresOn: dateString.optional(),
+});
+
+export const apiToken = z.object({
+  id: z.string(),
+  name: z.string(),
+  scopes: z.array(z.enum(TOKEN_SCOPES)),
+  prefix: z.string().meta({ description: 'First characters of the token, to tell tokens apart' }),
+  createdAt: z.string(),
+  lastUsedAt: z.string().nullable(),
+  expiresOn: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+}).meta({ id: 'ApiToken' });
+
+export const createdApiToken = z.object({
+  token: z.string().meta({ description: 'Shown only once; send as `Authorization: Bearer <token>`' }),
+  apiToken,
+});
+
+export const tokenRoutes = {
+  list: defineRoute({
+    method: 'get',
+    path: '/tokens',
+    tag: 'API Tokens',
+    summary: 'List your API tokens',
+    description: 'Revoked tokens are listed too, newest first.',
+    response: z.array(apiToken),
+  }),
+  create: defineRoute({
+    method: 'post',
+    path: '/tokens',
+    tag: 'API Tokens',
+    summary: 'Create an API token',
+    description: 'Only a hash is stored, so the token itself is returned just this once.',
+    body: createApiTokenBody,
+    response: createdApiToken,
+    status: 201,
+  }),
+  revoke: defineRoute({
+    method: 'delete',
+    path: '/tokens/:id',
+    tag: 'API Tokens',
+    summary: 'Revoke an API token',
+    description: 'The token stops working immediately but stays listed.',
+    params: tokenIdParams,
+    response: null,
+    errors: { 404: 'Token not found' },
+  }),
+};
+
+export type ApiToken = z.output<typeof apiToken>;
+export type CreatedApiToken = z.output<typeof createdApiToken>;
+export type CreateApiTokenRequest = z.input<typeof createApiTokenBody>;
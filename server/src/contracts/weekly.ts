@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { dateString, pageLimit } from './common.js';
+import { workLog } from './workLogs.js';
+import { expense } from './expenses.js';
+import { goal } from './goals.js';
+import { defineRoute } from './http.js';
+
+export const weeklySummaryQuery = z.object({
+  // Defaults to the current week in the configured timezone
+  weekStart: dateString.optional(),
+});
+
+export const reflectionHistoryQuery = z.object({
+  limit: pageLimit(520).optional(),
+});
+
+export const reflectionWeekParams = z.object({ weekStart: dateString });
+
+export const upsertReflectionBody = z.object({
+  // May be empty to clear a week's reflection
+  reflectionText: z.string(),
+});
+
+export const weeklyReflection = z.object({
+  id: z.number().int(),
+  weekStart: z.string(),
+  reflectionText: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).meta({ id: 'WeeklyReflection' });
+
+export const weeklySummary = z.object({
+  weekStart: z.string(),
+  weekEnd: z.string(),
+  workLogs: z.array(workLog),
+  expenses: z.array(expense),
+  expensesByCategory: z.record(z.string(), z.number()),
+  totalExpenses: z.number(),
+  // Percentage of scored days with a score of 1
+  integrityRate: z.number().int(),
+  goals: z.array(goal),
+  missedOpportunityNotes: z.array(z.string()),
+  reflection: weeklyReflection.nullable(),
+}).meta({ id: 'WeeklySummary' });
+
+export const weeklyRoutes = {
+  getSummary: defineRoute({
+    method: 'get',
+    path: '/weekly-summary',
+    tag: 'Weekly',
+    scope: 'read',
+    summary: 'Get weekly summary',
+    query: weeklySummaryQuery,
+    response: weeklySummary,
+  }),
+};
+
+export const weeklyReflectionRoutes = {
+  list: defineRoute({
+    method: 'get',
+    path: '/weekly-reflections',
+    tag: 'Weekly',
+    scope: 'read',
+    summary: 'List saved weekly reflections, newest week first',
+    query: reflectionHistoryQuery,
+    response: z.array(weeklyReflection),
+  }),
+  get: defineRoute({
+    method: 'get',
+    path: '/weekly-reflections/:weekStart',
+    tag: 'Weekly',
+    scope: 'read',
+    summary: 'Get the reflection for a week',
+    params: reflectionWeekParams,
+    response: weeklyReflection.nullable(),
+  }),
+  upsert: defineRoute({
+    method: 'put',
+    path: '/weekly-reflections/:weekStart',
+    tag: 'Weekly',
+    scope: 'reflections:write',
+    summary: 'Create or update the reflection for a week',
+    params: reflectionWeekParams,
+    body: upsertReflectionBody,
+    response: weeklyReflection,
+  }),
+};
+
+export type WeeklyReflection = z.output<typeof weeklyReflection>;
+export type WeeklySummary = z.output<typeof weeklySummary>;
+export type WeeklySummaryQuery = z.output<typeof weeklySummaryQuery>;
+export type ReflectionHistoryQuery = z.output<typeof reflectionHistoryQuery>;
+export type UpsertWeeklyReflectionRequest = z.input<typeof upsertReflectionBody>;
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { dateString, numericId } from './common.js';
+import { defineRoute } from './http.js';
+
+export const MISSED_NOTE_REQUIRED = 'Required when integrity score is 0';
+
+export const integrityScore = z.union([z.literal(0), z.literal(1)], { error: 'Must be 0 or 1' });
+
+export const workLogDateParams = z.object({ date: dateString });
+
+export const workLogIdParams = z.object({ id: numericId });
+
+export const createWorkLogBody = z.object({
+  // Omit to log for today in the configured timezone
+  logDate: dateString.optional(),
+  integrityScore,
+  missedOpportunityNote: z.string().nullish(),
+  successNote: z.string().nullish(),
+}).refine(body => body.integrityScore === 1 || !!body.missedOpportunityNote?.trim(), {
+  path: ['missedOpportunityNote'],
+  message: MISSED_NOTE_REQUIRED,
+});
+
+// The "note required for 0" rule depends on the stored row, so the route checks it
+export const updateWorkLogBody = z.object({
+  integrityScore: integrityScore.optional(),
+  missedOpportunityNote: z.string().nullish(),
+  successNote: z.string().nullish(),
+});
+
+export const workLog = z.object({
+  id: z.number().int(),
+  logDate: z.string(),
+  integrityScore: integrityScore.nullable(),
+  missedOpportunityNote: z.string().nullable(),
+  successNote: z.string().nullable(),
+  createdAt: z.string(),
+}).meta({ id: 'WorkLog' });
+
+export const workLogRoutes = {
+  list: defineRoute({
+    method: 'get',
+    path: '/work-logs',
+    tag: 'Work Logs',
+    scope: 'read',
+    summary: 'Get all work logs',
+    response: z.array(workLog),
+  }),
+  getToday: defineRoute({
+    method: 'get',
+    path: '/work-logs/today',
+    tag: 'Work Logs',
+    scope: 'read',
+    summary: "Get today's work log",
+    response: workLog.nullable(),
+  }),
+  getByDate: defineRoute({
+    method: 'get',
+    path: '/work-logs/date/:date',
+    tag: 'Work Logs',
+    scope: 'read',
+    summary: 'Get the work log for a date',
+    params: workLogDateParams,
+    response: workLog.nullable(),
+  }),
+  save: defineRoute({
+    method: 'post',
+    path: '/work-logs',
+    tag: 'Work Logs',
+    scope: 'work-logs:write',
+    summary: 'Create or update work log',
+    description: 'Creates the log for the date (201), or overwrites an existing one (200).',
+    body: createWorkLogBody,
+    response: workLog,
+    status: 201,
+  }),
+  update: defineRoute({
+    method: 'patch',
+    path: '/work-logs/:id',
+    tag: 'Work Logs',
+    scope: 'work-logs:write',
+    summary: 'Update a work log',
+    params: workLogIdParams,
+    body: updateWorkLogBody,
+    response: workLog,
+    errors: { 404: 'Work log not found' },
+  }),
+};
+
+export type WorkLog = z.output<typeof workLog>;
+export type CreateWorkLogRequest = z.input<typeof createWorkLogBody>;
+export type UpdateWorkLogRequest = z.input<typeof updateWorkLogBody>;
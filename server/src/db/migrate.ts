@@ -0,0 +1,100 @@
+import type { Client } from '@libsql/client';
+import { migrations, type Migration } from './migrations/index.js';
+
+export interface MigrationReport {
+  currentVersion: number;
+  applied: string[];
+}
+
+// Thrown when the database has been migrated by a newer build than this one
+export class SchemaVersionError extends Error {
+  constructor(public databaseVersion: number, public codeVersion: number) {
+    super(
+      `Database schema is at version ${databaseVersion} but this build only knows up to version ${codeVersion}. ` +
+      'Refusing to start; deploy a newer build or restore a matching backup.'
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+export function migrationLabel(migration: Migration): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+}
+
+// Latest schema version this build can produce
+export function latestSchemaVersion(): number {
+  return migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+}
+
+// Guard against mistakes in the migration list itself
+function assertMigrationsOrdered() {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version <= migrations[i - 1].version) {
+      throw new Error(
+        `Migration ${migrationLabel(migrations[i])} is out of order after ${migrationLabel(migrations[i - 1])}`
+      );
+    }
+  }
+}
+
+// ALTERs for the migration's ensured columns missing from tables that already exist;
+// tables its statements create from scratch come with them
+async function missingColumnStatements(db: Client, migration: Migration): Promise<string[]> {
+  const statements: string[] = [];
+  for (const { table, column, definition } of migration.ensureColumns ?? []) {
+    const result = await db.execute(`PRAGMA table_info(${table})`);
+    const columns = (result.rows as unknown as { name: string }[]).map(r => r.name);
+    if (columns.length > 0 && !columns.includes(column)) {
+      statements.push(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+  return statements;
+}
+
+// Apply all pending migrations in order, each in its own write batch
+export async function runMigrations(db: Client): Promise<MigrationReport> {
+  assertMigrationsOrdered();
+
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  const appliedResult = await db.execute('SELECT version FROM schema_migrations ORDER BY version ASC');
+  const appliedVersions = new Set(
+    (appliedResult.rows as unknown as { version: number }[]).map(r => Number(r.version))
+  );
+
+  const databaseVersion = Math.max(0, ...appliedVersions);
+  const codeVersion = latestSchemaVersion();
+  if (databaseVersion > codeVersion) {
+    throw new SchemaVersionError(databaseVersion, codeVersion);
+  }
+
+  const pending = migrations.filter(m => !appliedVersions.has(m.version));
+  const applied: string[] = [];
+
+  for (const migration of pending) {
+    const label = migrationLabel(migration);
+    try {
+      await db.batch([
+        ...migration.statements,
+        ...await missingColumnStatements(db, migration),
+        {
+          sql: 'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+          args: [migration.version, migration.name],
+        },
+      ], 'write');
+    } catch (err) {
+      console.error(`[Database] Migration ${label} failed:`, (err as Error).message);
+      throw err;
+    }
+    applied.push(label);
+    console.log(`[Database] Applied migration ${label}`);
+  }
+
+  return { currentVersion: codeVersion, applied };
+}
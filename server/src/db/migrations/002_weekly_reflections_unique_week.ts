@@ -0,0 +1,17 @@
+import type { Migration } from './types.js';
+
+// One reflection per week so it can be upserted by week_start
+const migration: Migration = {
+  version: 2,
+  name: 'weekly_reflections_unique_week',
+  statements: [
+    // Keep only the newest reflection if a week was ever stored twice
+    `DELETE FROM weekly_reflections
+     WHERE id NOT IN (SELECT MAX(id) FROM weekly_reflections GROUP BY week_start)`,
+    'ALTER TABLE weekly_reflections ADD COLUMN updated_at DATETIME',
+    'UPDATE weekly_reflections SET updated_at = created_at',
+    'CREATE UNIQUE INDEX IF NOT EXISTS idx_weekly_reflections_week ON weekly_reflections(week_start)',
+  ],
+};
+
+export default migration;
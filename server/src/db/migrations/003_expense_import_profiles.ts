@@ -0,0 +1,18 @@
+import type { Migration } from './types.js';
+
+// Saved CSV column mappings, one per bank
+const migration: Migration = {
+  version: 3,
+  name: 'expense_import_profiles',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS expense_import_profiles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bank_name TEXT NOT NULL UNIQUE,
+      mapping TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+import type { Migration } from './types.js';
+
+// Key/value store for app-wide preferences such as the user's timezone
+const migration: Migration = {
+  version: 4,
+  name: 'settings',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,86 @@
+import type { Migration } from './types.js';
+
+// Accounts and sessions, and an owner on every top-level row. Goal logs, goal
+// relations and subtasks belong to whoever owns their goal or task.
+// Rows that predate accounts keep a NULL owner until the first account adopts them.
+const migration: Migration = {
+  version: 5,
+  name: 'users',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      name TEXT,
+      password_hash TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+
+    // id is a SHA-256 of the bearer token, so a leaked table can't be replayed
+    `CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      expires_at DATETIME NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)',
+
+    'ALTER TABLE goals ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE',
+    'CREATE INDEX IF NOT EXISTS idx_goals_user ON goals(user_id)',
+    'ALTER TABLE tasks ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE',
+    'CREATE INDEX IF NOT EXISTS idx_tasks_user ON tasks(user_id)',
+    'ALTER TABLE expenses ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE',
+    'CREATE INDEX IF NOT EXISTS idx_expenses_user ON expenses(user_id, created_at)',
+    'ALTER TABLE recurring_expenses ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE',
+    'CREATE INDEX IF NOT EXISTS idx_recurring_expenses_user ON recurring_expenses(user_id)',
+
+    // One reflection per user and week
+    'ALTER TABLE weekly_reflections ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE',
+    'DROP INDEX IF EXISTS idx_weekly_reflections_week',
+    'CREATE UNIQUE INDEX IF NOT EXISTS idx_weekly_reflections_user_week ON weekly_reflections(user_id, week_start)',
+
+    // Work logs, import profiles and settings were unique across the whole table;
+    // SQLite can't relax a column constraint, so these are rebuilt
+    `CREATE TABLE work_logs_new (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+      log_date DATE NOT NULL,
+      integrity_score INTEGER CHECK (integrity_score IN (0, 1)),
+      missed_opportunity_note TEXT,
+      success_note TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_id, log_date)
+    )`,
+    `INSERT INTO work_logs_new (id, log_date, integrity_score, missed_opportunity_note, success_note, created_at)
+     SELECT id, log_date, integrity_score, missed_opportunity_note, success_note, created_at FROM work_logs`,
+    'DROP TABLE work_logs',
+    'ALTER TABLE work_logs_new RENAME TO work_logs',
+    'CREATE INDEX IF NOT EXISTS idx_work_logs_date ON work_logs(log_date)',
+
+    `CREATE TABLE expense_import_profiles_new (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+      bank_name TEXT NOT NULL,
+      mapping TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_id, bank_name)
+    )`,
+    `INSERT INTO expense_import_profiles_new (id, bank_name, mapping, created_at, updated_at)
+     SELECT id, bank_name, mapping, created_at, updated_at FROM expense_import_profiles`,
+    'DROP TABLE expense_import_profiles',
+    'ALTER TABLE expense_import_profiles_new RENAME TO expense_import_profiles',
+
+    `CREATE TABLE settings_new (
+      user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+      key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(user_id, key)
+    )`,
+    'INSERT INTO settings_new (key, value, updated_at) SELECT key, value, updated_at FROM settings',
+    'DROP TABLE settings',
+    'ALTER TABLE settings_new RENAME TO settings',
+  ],
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import type { Migration } from './types.js';
+
+// Personal API tokens for scripts. Like sessions, only a SHA-256 of the token is kept.
+const migration: Migration = {
+  version: 6,
+  name: 'api_tokens',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS api_tokens (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      prefix TEXT NOT NULL,
+      scopes TEXT NOT NULL,
+      expires_on DATE,
+      last_used_at DATETIME,
+      revoked_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id)',
+  ],
+};
+
+export default migration;
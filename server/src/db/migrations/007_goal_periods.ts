@@ -0,0 +1,24 @@
+import type { Migration } from './types.js';
+
+// Closed periods of frequency goals. goals.period_start marks the open period that
+// current_value counts; rolling over archives every period before it here.
+const migration: Migration = {
+  version: 7,
+  name: 'goal_periods',
+  statements: [
+    'ALTER TABLE goals ADD COLUMN period_start DATE',
+    `CREATE TABLE IF NOT EXISTS goal_periods (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      goal_id TEXT NOT NULL REFERENCES goals(id) ON DELETE CASCADE,
+      period_start DATE NOT NULL,
+      period_end DATE NOT NULL,
+      target INTEGER NOT NULL,
+      completed INTEGER NOT NULL,
+      met BOOLEAN NOT NULL,
+      closed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(goal_id, period_start)
+    )`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+import type { Migration } from './types.js';
+
+// Numeric goals either track their latest log ("weigh 75kg") or add every log to
+// a running total ("run 500km"). baseline is the value before any log; a target
+// below it makes the goal count down.
+const migration: Migration = {
+  version: 8,
+  name: 'numeric_goal_modes',
+  statements: [
+    `ALTER TABLE goals ADD COLUMN numeric_mode TEXT CHECK (numeric_mode IN ('latest', 'cumulative'))`,
+    'ALTER TABLE goals ADD COLUMN baseline REAL',
+    `UPDATE goals SET numeric_mode = 'latest' WHERE goal_type = 'numeric'`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,14 @@
+import type { Migration } from './types.js';
+
+// Archived goals (is_active = 0) record when and why they were archived.
+// Goals archived before this have neither.
+const migration: Migration = {
+  version: 9,
+  name: 'goal_archive',
+  statements: [
+    'ALTER TABLE goals ADD COLUMN archived_at DATETIME',
+    `ALTER TABLE goals ADD COLUMN archive_reason TEXT CHECK (archive_reason IN ('completed', 'abandoned'))`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,13 @@
+import type { Migration } from './types.js';
+
+// How much a sub-goal counts towards its parent's rolled-up progress, relative to
+// its siblings. Left nullable so backups from before it restore; null reads as 1.
+const migration: Migration = {
+  version: 10,
+  name: 'goal_relation_weights',
+  statements: [
+    'ALTER TABLE goal_relations ADD COLUMN weight REAL DEFAULT 1 CHECK (weight > 0)',
+  ],
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import type { Migration } from './types.js';
+
+// Seasons are named date ranges (a quarter, say) that goals are planned in. Reviewing
+// a season freezes each of its goals' final progress and score in season_scores.
+const migration: Migration = {
+  version: 11,
+  name: 'seasons',
+  statements: [
+    `CREATE TABLE IF NOT EXISTS seasons (
+      id TEXT PRIMARY KEY,
+      user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      start_date DATE NOT NULL,
+      end_date DATE NOT NULL,
+      reviewed_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_seasons_user ON seasons(user_id, start_date)',
+
+    'ALTER TABLE goals ADD COLUMN season_id TEXT REFERENCES seasons(id)',
+    'CREATE INDEX IF NOT EXISTS idx_goals_season ON goals(season_id)',
+
+    // score runs from 0 to 1
+    `CREATE TABLE IF NOT EXISTS season_scores (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      season_id TEXT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+      goal_id TEXT NOT NULL REFERENCES goals(id) ON DELETE CASCADE,
+      progress_percent INTEGER NOT NULL,
+      score REAL NOT NULL,
+      scored_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(season_id, goal_id)
+    )`,
+  ],
+};
+
+export default migration;
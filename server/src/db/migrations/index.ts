@@ -0,0 +1,30 @@
+import type { Migration } from './types.js';
+import initialSchema from './001_initial_schema.js';
+import weeklyReflectionsUniqueWeek from './002_weekly_reflections_unique_week.js';
+import expenseImportProfiles from './003_expense_import_profiles.js';
+import settings from './004_settings.js';
+import users from './005_users.js';
+import apiTokens from './006_api_tokens.js';
+import goalPeriods from './007_goal_periods.js';
+import numericGoalModes from './008_numeric_goal_modes.js';
+import goalArchive from './009_goal_archive.js';
+import goalRelationWeights from './010_goal_relation_weights.js';
+import seasons from './011_seasons.js';
+
+// Ordered list of all migrations known to this build.
+// Append new migrations here; never edit or reorder ones that have shipped.
+export const migrations: Migration[] = [
+  initialSchema,
+  weeklyReflectionsUniqueWeek,
+  expenseImportProfiles,
+  settings,
+  users,
+  apiTokens,
+  goalPeriods,
+  numericGoalModes,
+  goalArchive,
+  goalRelationWeights,
+  seasons,
+];
+
+export type { Migration };
@@ -0,0 +1,11 @@
+// A numbered, forward-only schema change.
+// Statements run inside a single write batch together with the
+// schema_migrations bookkeeping insert, so a migration is applied fully or not at all.
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+  // Columns added to tables that already existed without them, for tables the
+  // statements only create IF NOT EXISTS. Checked before the batch runs.
+  ensureColumns?: { table: string; column: string; definition: string }[];
+}
@@ -1,6 +1,8 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
 import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
-import type { Client, ResultSet, InStatement } from '@libsql/client';
+import type { Client, ResultSet, InStatement, TransactionMode } from '@libsql/client';
 
 // Log directory and file path
 const LOG_DIR = join(process.cwd(), 'logs');
@@ -22,12 +24,18 @@ export interface QueryLogEntry {
   durationMs: number;
   purpose: string;
   endpoint?: string;
+  requestId?: string;
+  // Signed-in user whose request ran the query; absent before sign-in and at startup
+  userId?: string;
+  // Set on statements run together in one batch: durationMs is then an even share
+  // of the batch's time, so totals still add up, and these give the whole
+  batchSize?: number;
+  batchDurationMs?: number;
 }
 
-// Parse table name from SQL query
+// Parse table name from SQL query; the earliest match wins, so an UPDATE or
+// INSERT with a subquery is put down to the table it writes
 function parseTableName(sql: string): string | null {
-  const normalizedSql = sql.toUpperCase().replace(/\s+/g, ' ').trim();
-  
   // Common patterns for extracting table names
   const patterns = [
     /FROM\s+(\w+)/i,           // SELECT ... FROM table
@@ -37,14 +45,15 @@ function parseTableName(sql: string): string | null {
     /TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(\w+)/i,  // CREATE TABLE table
   ];
   
+  let earliest: RegExpMatchArray | null = null;
   for (const pattern of patterns) {
     const match = sql.match(pattern);
-    if (match && match[1]) {
-      return match[1].toLowerCase();
+    if (match && match[1] && (earliest === null || match.index! < earliest.index!)) {
+      earliest = match;
     }
   }
   
-  return null;
+  return earliest ? earliest[1].toLowerCase() : null;
 }
 
 // Detect query type from SQL
@@ -76,7 +85,7 @@ export function getLogFilePath(): string {
 }
 
 // Read all logs from file
-export function readLogs(): string {
+function readLogFile(): string {
   ensureLogDir();
   if (!existsSync(LOG_FILE)) {
     return '';
@@ -84,31 +93,56 @@ export function readLogs(): string {
   return readFileSync(LOG_FILE, 'utf8');
 }
 
-// Clear all logs (truncate file)
-export function clearLogs(): void {
-  ensureLogDir();
-  writeFileSync(LOG_FILE, '', 'utf8');
+// Split the file's lines into the user's and everyone else's
+function partitionLogLines(userId: string): { own: string[]; rest: string[] } {
+  const own: string[] = [];
+  const rest: string[] = [];
+  for (const line of readLogFile().split('\n').filter(l => l.trim())) {
+    let entryUserId: string | undefined;
+    try {
+      entryUserId = (JSON.parse(line) as QueryLogEntry).userId;
+    } catch {
+      // Malformed lines belong to nobody
+    }
+    (entryUserId === userId ? own : rest).push(line);
+  }
+  return { own, rest };
 }
 
-// Current request context (set by middleware)
-let currentEndpoint: string | undefined;
-let currentUiPurpose: string | undefined;
+// The user's log lines as JSONL; the file is shared, so nobody sees another user's queries
+export function readLogs(userId: string): string {
+  const { own } = partitionLogLines(userId);
+  return own.map(line => line + '\n').join('');
+}
 
-export function setCurrentEndpoint(endpoint: string) {
-  currentEndpoint = endpoint;
+// Read the user's log lines and remove them from the file, leaving everyone else's.
+// Synchronous throughout, so no query can be logged between the read and the write.
+export function takeLogs(userId: string): string {
+  const { own, rest } = partitionLogLines(userId);
+  writeFileSync(LOG_FILE, rest.map(line => line + '\n').join(''), 'utf8');
+  return own.map(line => line + '\n').join('');
 }
 
-export function setCurrentUiPurpose(purpose: string | undefined) {
-  currentUiPurpose = purpose;
+// Per-request context, propagated through async calls so overlapping
+// requests never see each other's endpoint or UI purpose
+export interface RequestContext {
+  requestId: string;
+  endpoint: string;
+  uiPurpose?: string;
+  // Filled in once the request is authenticated
+  userId?: string;
 }
 
-export function getCurrentUiPurpose(): string | undefined {
-  return currentUiPurpose;
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
 }
 
-export function clearCurrentEndpoint() {
-  currentEndpoint = undefined;
-  currentUiPurpose = undefined;
+// Attribute the rest of the request's queries to the signed-in user
+export function setRequestUser(userId: string): void {
+  const context = requestContext.getStore();
+  if (context) context.userId = userId;
 }
 
 // Create a tracked execute function that wraps db.execute
@@ -120,8 +154,10 @@ export function createTrackedExecute(db: Client) {
     const sqlString = typeof sql === 'string' ? sql : sql.sql;
     const startTime = performance.now();
     
+    const context = requestContext.getStore();
+    
     // Use UI purpose if available, otherwise fall back to technical purpose
-    const purpose = currentUiPurpose || technicalPurpose;
+    const purpose = context?.uiPurpose || technicalPurpose;
     
     try {
       // Execute the actual query
@@ -137,7 +173,9 @@ export function createTrackedExecute(db: Client) {
         rowCount: result.rows.length,
         durationMs,
         purpose,
-        endpoint: currentEndpoint,
+        endpoint: context?.endpoint,
+        requestId: context?.requestId,
+        userId: context?.userId,
       });
       
       return result;
@@ -152,7 +190,9 @@ export function createTrackedExecute(db: Client) {
         rowCount: 0,
         durationMs,
         purpose: `${purpose} [ERROR: ${(err as Error).message}]`,
-        endpoint: currentEndpoint,
+        endpoint: context?.endpoint,
+        requestId: context?.requestId,
+        userId: context?.userId,
       });
       
       throw err;
@@ -160,24 +200,82 @@ export function createTrackedExecute(db: Client) {
   };
 }
 
-// Express request type with headers
+// Create a tracked batch function that wraps db.batch, logging every statement
+export function createTrackedBatch(db: Client) {
+  return async function trackedBatch(
+    statements: InStatement[],
+    technicalPurpose: string,
+    mode: TransactionMode = 'write'
+  ): Promise<ResultSet[]> {
+    const startTime = performance.now();
+    const context = requestContext.getStore();
+    const purpose = context?.uiPurpose || technicalPurpose;
+
+    const logStatements = (results: ResultSet[] | null, error?: Error) => {
+      const batchDurationMs = Math.round((performance.now() - startTime) * 100) / 100;
+      const durationMs = Math.round((batchDurationMs / Math.max(statements.length, 1)) * 100) / 100;
+      const timestamp = new Date().toISOString();
+      statements.forEach((statement, i) => {
+        const sqlString = typeof statement === 'string' ? statement : statement.sql;
+        logQuery({
+          timestamp,
+          table: parseTableName(sqlString),
+          queryType: parseQueryType(sqlString),
+          rowCount: results?.[i]?.rows.length ?? 0,
+          durationMs,
+          // The whole batch rolls back, so every statement is marked failed
+          purpose: error ? `${purpose} [ERROR: ${error.message}]` : purpose,
+          endpoint: context?.endpoint,
+          requestId: context?.requestId,
+          userId: context?.userId,
+          batchSize: statements.length,
+          batchDurationMs,
+        });
+      });
+    };
+
+    try {
+      const results = await db.batch(statements, mode);
+      logStatements(results);
+      return results;
+    } catch (err) {
+      logStatements(null, err as Error);
+      throw err;
+    }
+  };
+}
+
+// Express request/response shapes used by the middleware
 interface ExpressRequest {
   method: string;
   path: string;
   headers: Record<string, string | string[] | undefined>;
 }
 
-// Export a middleware for Express to track endpoints and UI purpose
+interface ExpressResponse {
+  setHeader(name: string, value: string): unknown;
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Accept a caller-supplied request ID (e.g. from a proxy) only if it looks sane
+const REQUEST_ID_PATTERN = /^[\w.-]{8,128}$/;
+
+// Export a middleware for Express that gives each request its own logging context
 export function queryLoggerMiddleware() {
-  return (req: ExpressRequest, _res: unknown, next: () => void) => {
-    setCurrentEndpoint(`${req.method} ${req.path}`);
+  return (req: ExpressRequest, res: ExpressResponse, next: () => void) => {
+    const incomingId = firstHeader(req.headers['x-request-id']);
+    const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID();
     
-    // Extract X-Purpose header from UI
-    const purposeHeader = req.headers['x-purpose'];
-    const uiPurpose = Array.isArray(purposeHeader) ? purposeHeader[0] : purposeHeader;
-    setCurrentUiPurpose(uiPurpose);
+    res.setHeader('X-Request-Id', requestId);
     
-    next();
+    requestContext.run({
+      requestId,
+      endpoint: `${req.method} ${req.path}`,
+      // Extract X-Purpose header from UI
+      uiPurpose: firstHeader(req.headers['x-purpose']),
+    }, next);
   };
 }
-
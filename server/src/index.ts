@@ -3,37 +3,61 @@ import express from 'express';
 import cors from 'cors';
 import swaggerUi from 'swagger-ui-express';
 
-import { initDb, queryLoggerMiddleware } from './db/index.js';
-import { swaggerSpec } from './swagger.js';
+import { initDb, queryLoggerMiddleware, getRequestContext } from './db/index.js';
+import { openApiDocument } from './openapi.js';
+import authRouter from './routes/auth.js';
 import tasksRouter from './routes/tasks.js';
 import workLogsRouter from './routes/workLogs.js';
 import expensesRouter from './routes/expenses.js';
 import recurringExpensesRouter from './routes/recurringExpenses.js';
+import expenseImportsRouter from './routes/expenseImports.js';
 import goalsRouter from './routes/goals.js';
+import seasonsRouter from './routes/seasons.js';
 import weeklyRouter from './routes/weekly.js';
+import weeklyReflectionsRouter from './routes/weeklyReflections.js';
 import logsRouter from './routes/logs.js';
+import backupRouter from './routes/backup.js';
+import healthRouter from './routes/health.js';
+import settingsRouter from './routes/settings.js';
+import tokensRouter from './routes/tokens.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
+app.use(queryLoggerMiddleware());
+// Only the configured frontends (comma-separated) may call the API from a browser;
+// in development the Vite proxy makes requests same-origin
+const corsOrigins = process.env.CORS_ORIGIN?.split(',').map(origin => origin.trim()).filter(Boolean);
 app.use(cors({
-  origin: process.env.CORS_ORIGIN || '*',
+  origin: corsOrigins?.length ? corsOrigins : false,
+  exposedHeaders: ['X-Request-Id'],
 }));
+// Backups and bank statements can be far larger than regular request bodies
+app.use('/api/import', express.json({ limit: '25mb' }));
+// Preview and commit both carry a whole statement
+app.use('/api/expense-imports', express.json({ limit: '5mb' }));
 app.use(express.json());
-app.use(queryLoggerMiddleware());
 
-// API Routes
-app.use('/api/tasks', tasksRouter);
-app.use('/api/work-logs', workLogsRouter);
-app.use('/api/expenses', expensesRouter);
-app.use('/api/recurring-expenses', recurringExpensesRouter);
-app.use('/api/goals', goalsRouter);
-app.use('/api/weekly-summary', weeklyRouter);
-app.use('/api/logs', logsRouter);
+// API Routes (each router registers full paths from its route contracts)
+app.use('/api', authRouter);
+app.use('/api', tasksRouter);
+app.use('/api', workLogsRouter);
+app.use('/api', expensesRouter);
+app.use('/api', recurringExpensesRouter);
+app.use('/api', expenseImportsRouter);
+app.use('/api', goalsRouter);
+app.use('/api', seasonsRouter);
+app.use('/api', weeklyRouter);
+app.use('/api', weeklyReflectionsRouter);
+app.use('/api', settingsRouter);
+app.use('/api', tokensRouter);
+app.use('/api', logsRouter);
+app.use('/api', backupRouter);
+app.use('/api', healthRouter);
 
 // Swagger Documentation
-app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
+app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(openApiDocument, {
   explorer: true,
   customSiteTitle: 'The Auditor API Docs',
   swaggerOptions: {
@@ -41,19 +65,14 @@ app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
   },
 }));
 
-// Swagger JSON spec
+// OpenAPI document, generated from the route contracts
 app.get('/api/docs.json', (_req, res) => {
-  res.json(swaggerSpec);
-});
-
-// Health check
-app.get('/api/health', (_req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json(openApiDocument);
 });
 
 // Error handler
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-  console.error('Error:', err.message);
+  console.error(`Error [${getRequestContext()?.requestId ?? 'no request'}]:`, err.message);
   res.status(500).json({ message: err.message || 'Internal server error' });
 });
 
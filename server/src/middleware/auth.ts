@@ -0,0 +1,64 @@
+import type { Request, RequestHandler } from 'express';
+import type { User, RouteContract, TokenScope } from '../contracts/index.js';
+import { API_TOKEN_PREFIX } from '../contracts/index.js';
+import { findSessionUser } from '../services/auth.js';
+import { findApiToken } from '../services/apiTokens.js';
+import { userRowToUser } from '../types.js';
+import { setRequestUser } from '../db/index.js';
+
+// What requireAuth adds to the request
+export interface AuthenticatedRequest {
+  user: User;
+}
+
+export function bearerToken(req: Request): string | null {
+  const match = /^Bearer (\S+)$/i.exec(req.headers.authorization ?? '');
+  return match ? match[1] : null;
+}
+
+// Resolve the bearer token to its user, answering 401 when there is none.
+// Sessions may call any route; API tokens only routes whose scope they were
+// granted, and never session-only routes. Handlers scope every query by req.user.id.
+export function requireAuth(route: RouteContract): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const token = bearerToken(req);
+      if (!token) {
+        res.status(401).json({ message: 'Sign in required' });
+        return;
+      }
+
+      if (token.startsWith(API_TOKEN_PREFIX)) {
+        const match = await findApiToken(token);
+        if (!match) {
+          res.status(401).json({ message: 'API token is invalid, expired or revoked' });
+          return;
+        }
+        if (!route.scope) {
+          res.status(403).json({ message: 'This route needs a signed-in session' });
+          return;
+        }
+        const scopes = JSON.parse(match.token.scopes) as TokenScope[];
+        if (!scopes.includes(route.scope)) {
+          res.status(403).json({ message: `Token lacks the "${route.scope}" scope` });
+          return;
+        }
+        (req as Request & AuthenticatedRequest).user = userRowToUser(match.user);
+        setRequestUser(match.user.id);
+        next();
+        return;
+      }
+
+      const user = await findSessionUser(token);
+      if (!user) {
+        res.status(401).json({ message: 'Sign in required' });
+        return;
+      }
+      (req as Request & AuthenticatedRequest).user = userRowToUser(user);
+      setRequestUser(user.id);
+      next();
+    } catch (err) {
+      res.status(500).json({ message: (err as Error).message });
+    }
+  };
+}
@@ -0,0 +1,26 @@
+import type { Router, Request, Response, RequestHandler } from 'express';
+import type { RouteContract, RouteParams, RouteQuery, RouteBody, RouteResponse, ErrorResponse } from '../contracts/index.js';
+import { validate } from './validate.js';
+import { requireAuth } from './auth.js';
+import type { AuthenticatedRequest } from './auth.js';
+
+// Handlers of non-public routes always know who is asking
+type RouteAuth<R> = R extends { public: true } ? unknown : AuthenticatedRequest;
+
+export type RouteRequest<R extends RouteContract> =
+  Request<RouteParams<R>, unknown, RouteBody<R>, RouteQuery<R>> & RouteAuth<R>;
+
+// Handlers may answer with the contract's success body or an error body
+export type RouteReply<R extends RouteContract> = Response<RouteResponse<R> | ErrorResponse>;
+
+// Mount a handler at the contract's method and path, behind an auth and scope check
+// (unless the route is public) and validation of its params, query and body.
+// Routers using this are mounted at /api.
+export function addRoute<R extends RouteContract>(
+  router: Router,
+  route: R,
+  handler: (req: RouteRequest<R>, res: RouteReply<R>) => unknown
+): void {
+  const guards = route.public ? [] : [requireAuth(route)];
+  router[route.method](route.path, ...guards, validate(route), handler as unknown as RequestHandler);
+}
@@ -0,0 +1,39 @@
+import type { RequestHandler } from 'express';
+import type { ZodType } from 'zod';
+import type { FieldError } from '../contracts/index.js';
+import { contractErrorMap, toFieldErrors, validationErrorResponse } from '../contracts/index.js';
+
+interface RequestSchemas {
+  params?: ZodType;
+  query?: ZodType;
+  body?: ZodType;
+}
+
+// Check a request against its contract before the handler runs. Parsed values
+// replace req.query and req.body, so handlers see trimmed text, coerced numbers
+// and no unknown fields.
+export function validate(schemas: RequestSchemas): RequestHandler {
+  return (req, res, next) => {
+    const errors: FieldError[] = [];
+
+    for (const location of ['params', 'query', 'body'] as const) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {}, { error: contractErrorMap });
+      if (!result.success) {
+        errors.push(...toFieldErrors(result.error, location));
+      } else if (location === 'query') {
+        req.query = result.data as typeof req.query;
+      } else if (location === 'body') {
+        req.body = result.data;
+      }
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json(validationErrorResponse(errors));
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { apiRoutes, errorResponse } from './contracts/index.js';
+import type { RouteContract } from './contracts/index.js';
+
+// The OpenAPI document is generated from the route contracts, so every mounted
+// route is documented exactly as it is validated.
+
+type JsonSchema = Record<string, unknown>;
+
+const COMPONENT_REF = '#/components/schemas/';
+
+// Shared schemas (those with a meta id) are collected here and referenced by $ref
+const schemas: Record<string, JsonSchema> = {};
+
+function toRefs(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toRefs);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, inner]) => [
+    key,
+    key === '$ref' && typeof inner === 'string' ? inner.replace('#/definitions/', COMPONENT_REF) : toRefs(inner),
+  ]));
+}
+
+// Requests are documented as the client sends them, responses as the server returns them
+function toJsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const { definitions, ...json } = z.toJSONSchema(schema, {
+    target: 'openapi-3.0',
+    io,
+    unrepresentable: 'any',
+    override: ({ jsonSchema }) => {
+      // The generated date/time regexes add nothing to the format for readers
+      if (jsonSchema.format) delete jsonSchema.pattern;
+    },
+  }) as JsonSchema & { definitions?: Record<string, JsonSchema> };
+
+  for (const [id, definition] of Object.entries(definitions ?? {})) {
+    schemas[id] = toRefs(definition) as JsonSchema;
+  }
+  return toRefs(json) as JsonSchema;
+}
+
+function parameters(schema: z.ZodType | undefined, location: 'path' | 'query') {
+  if (!schema) return [];
+  const { properties = {}, required = [] } = toJsonSchema(schema, 'output') as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  return Object.entries(properties).map(([name, { description, ...property }]) => ({
+    in: location,
+    name,
+    required: location === 'path' || required.includes(name),
+    ...(description ? { description } : {}),
+    schema: property,
+  }));
+}
+
+const errorContent = { 'application/json': { schema: { $ref: `${COMPONENT_REF}Error` } } };
+
+function operation(id: string, route: RouteContract) {
+  const status = route.status ?? (route.response ? 200 : 204);
+  const validated = Boolean(route.params || route.query || route.body);
+  const badRequest = [validated && 'Request breaks its contract; `errors` lists each field', route.errors?.[400]]
+    .filter(Boolean)
+    .join('. ');
+  const otherErrors = Object.entries({
+    ...(route.public ? {} : {
+      401: 'Missing, invalid, expired or revoked token',
+      403: route.scope ? `API token lacks the \`${route.scope}\` scope` : 'Called with an API token',
+    }),
+    ...route.errors,
+  }).filter(([code]) => code !== '400');
+  const access = route.public
+    ? null
+    : route.scope ? `API tokens need the \`${route.scope}\` scope.` : 'Sessions only; API tokens are refused.';
+  const description = [route.description, access].filter(Boolean).join('\n\n');
+
+  return {
+    operationId: id,
+    tags: [route.tag],
+    summary: route.summary,
+    ...(description ? { description } : {}),
+    parameters: [
+      { $ref: '#/components/parameters/Purpose' },
+      ...parameters(route.params, 'path'),
+      ...parameters(route.query, 'query'),
+    ],
+    ...(route.body ? {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toJsonSchema(route.body, 'input') } },
+      },
+    } : {}),
+    responses: {
+      [status]: route.response
+        ? {
+          description: status === 201 ? 'Created' : 'OK',
+          content: { [route.contentType ?? 'application/json']: { schema: toJsonSchema(route.response, 'output') } },
+        }
+        : { description: 'No content' },
+      ...(badRequest ? { 400: { description: badRequest, content: errorContent } } : {}),
+      ...Object.fromEntries(otherErrors.map(([code, description]) => [code, { description, content: errorContent }])),
+      500: { description: 'Unexpected server error', content: errorContent },
+    },
+    // Public routes opt out of the document-wide bearer requirement
+    ...(route.public ? { security: [] } : {}),
+  };
+}
+
+function buildPaths() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [group, routes] of Object.entries(apiRoutes)) {
+    for (const [name, route] of Object.entries(routes) as [string, RouteContract][]) {
+      const path = route.path.replace(/:(\w+)/g, '{$1}');
+      paths[path] = { ...paths[path], [route.method]: operation(`${group}.${name}`, route) };
+    }
+  }
+  return paths;
+}
+
+const paths = buildPaths();
+toJsonSchema(errorResponse, 'output');
+
+export const openApiDocument = {
+  openapi: '3.0.0',
+  info: {
+    title: 'The Auditor API',
+    version: '1.0.0',
+    description: 'High-density productivity engine API - Tasks, Goals, Expenses, Work Logs',
+  },
+  servers: [
+    {
+      url: '/api',
+      description: 'API Server',
+    },
+  ],
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'Session token from /auth/login or /auth/register, or a personal API token (`aud_…`) from /tokens',
+      },
+    },
+    parameters: {
+      Purpose: {
+        in: 'header',
+        name: 'X-Purpose',
+        schema: { type: 'string' },
+        description: 'UI purpose for query logging',
+      },
+    },
+    schemas,
+  },
+  security: [{ bearerAuth: [] }],
+  paths,
+};
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { register, login, logout, AuthError } from '../services/auth.js';
+import { addRoute } from '../middleware/route.js';
+import { bearerToken } from '../middleware/auth.js';
+import { apiRoutes } from '../contracts/index.js';
+
+const router = Router();
+
+addRoute(router, apiRoutes.auth.register, async (req, res) => {
+  try {
+    const { email, password, name } = req.body;
+    res.status(201).json(await register(email, password, name));
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.auth.login, async (req, res) => {
+  try {
+    const { email, password } = req.body;
+    res.json(await login(email, password));
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.auth.logout, async (req, res) => {
+  try {
+    // requireAuth already resolved this token
+    await logout(bearerToken(req)!);
+    res.status(204).send();
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.auth.me, (req, res) => {
+  res.json(req.user);
+});
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { buildExport, restoreBackup, BackupValidationError } from '../services/backup.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes } from '../contracts/index.js';
+
+const router = Router();
+
+addRoute(router, apiRoutes.backup.export, async (req, res) => {
+  try {
+    const backup = await buildExport(req.user.id);
+    const timestamp = backup.exportedAt.replace(/[:.]/g, '-');
+
+    res.setHeader('Content-Disposition', `attachment; filename="auditor-backup-${timestamp}.json"`);
+    res.json(backup);
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.backup.import, async (req, res) => {
+  try {
+    const { mode = 'merge' } = req.query;
+
+    const result = await restoreBackup(req.user.id, req.body, mode);
+    res.json(result);
+  } catch (err) {
+    if (err instanceof BackupValidationError) {
+      return res.status(400).json({ message: err.message, errors: err.errors });
+    }
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+export default router;
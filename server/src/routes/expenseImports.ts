@@ -0,0 +1,128 @@
+import { Router } from 'express';
+import { trackedExecute } from '../db/index.js';
+import type { ExpenseImportProfileRow, Expense } from '../types.js';
+import { expenseImportProfileRowToProfile, expenseRowToExpense } from '../types.js';
+import { buildImportPreview, CsvMappingError } from '../services/csvImport.js';
+import { insertExpense } from '../services/expenses.js';
+import { getSettings } from '../services/settings.js';
+import { zonedTimeToUtc } from '../services/dates.js';
+import { addRoute } from '../middleware/route.js';
+import type { ExpenseImportMapping, CommitExpenseImportResult } from '../contracts/index.js';
+import {
+  apiRoutes, contractErrorMap, toFieldErrors, describeFieldErrors, validationErrorResponse, importCommitRow,
+} from '../contracts/index.js';
+
+const router = Router();
+
+async function findProfile(userId: string, bankName: string) {
+  const result = await trackedExecute({
+    sql: 'SELECT * FROM expense_import_profiles WHERE user_id = ? AND bank_name = ?',
+    args: [userId, bankName]
+  }, 'getExpenseImportProfile');
+  const row = result.rows[0] as unknown as ExpenseImportProfileRow | undefined;
+  return row ? expenseImportProfileRowToProfile(row) : null;
+}
+
+addRoute(router, apiRoutes.expenseImports.listProfiles, async (req, res) => {
+  try {
+    const result = await trackedExecute({
+      sql: 'SELECT * FROM expense_import_profiles WHERE user_id = ? ORDER BY bank_name ASC',
+      args: [req.user.id]
+    }, 'getExpenseImportProfiles');
+    const profiles = result.rows as unknown as ExpenseImportProfileRow[];
+    res.json(profiles.map(expenseImportProfileRowToProfile));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.expenseImports.saveProfile, async (req, res) => {
+  try {
+    const { bankName } = req.params;
+    const { mapping } = req.body;
+
+    await trackedExecute({
+      sql: `INSERT INTO expense_import_profiles (user_id, bank_name, mapping)
+            VALUES (?, ?, ?)
+            ON CONFLICT(user_id, bank_name) DO UPDATE SET
+              mapping = excluded.mapping,
+              updated_at = CURRENT_TIMESTAMP`,
+      args: [req.user.id, bankName, JSON.stringify(mapping)]
+    }, 'upsertExpenseImportProfile');
+
+    // The upsert above guarantees the row exists
+    res.json((await findProfile(req.user.id, bankName))!);
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.expenseImports.deleteProfile, async (req, res) => {
+  try {
+    const result = await trackedExecute({
+      sql: 'DELETE FROM expense_import_profiles WHERE user_id = ? AND bank_name = ?',
+      args: [req.user.id, req.params.bankName]
+    }, 'deleteExpenseImportProfile');
+
+    if (result.rowsAffected === 0) {
+      return res.status(404).json({ message: 'Import profile not found' });
+    }
+
+    res.status(204).send();
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.expenseImports.preview, async (req, res) => {
+  try {
+    const { csv, bankName } = req.body;
+    let mapping: ExpenseImportMapping | null = req.body.mapping ?? null;
+
+    // Saved profiles were validated when they were stored
+    if (!mapping && bankName) {
+      mapping = (await findProfile(req.user.id, bankName))?.mapping ?? null;
+    }
+
+    const preview = await buildImportPreview(req.user.id, csv, mapping);
+    res.json({ ...preview, mapping });
+  } catch (err) {
+    if (err instanceof CsvMappingError) {
+      return res.status(400).json(validationErrorResponse([{ in: 'body', path: 'mapping', message: err.message }]));
+    }
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.expenseImports.commit, async (req, res) => {
+  try {
+    const { rows } = req.body;
+
+    const { timezone } = await getSettings(req.user.id);
+    const created: Expense[] = [];
+    const errors: CommitExpenseImportResult['errors'] = [];
+
+    for (let i = 0; i < rows.length; i++) {
+      const parsed = importCommitRow.safeParse(rows[i], { error: contractErrorMap });
+      if (!parsed.success) {
+        const fieldErrors = toFieldErrors(parsed.error, 'body');
+        errors.push({ index: i, message: describeFieldErrors(fieldErrors), errors: fieldErrors });
+        continue;
+      }
+
+      // Bank rows carry no time of day; midday local time keeps them on the right date
+      const { date, ...expense } = parsed.data;
+      const row = await insertExpense(req.user.id, {
+        ...expense,
+        createdAt: zonedTimeToUtc(date, '12:00:00', timezone).toISOString(),
+      }, 'createImportedExpense');
+      created.push(expenseRowToExpense(row));
+    }
+
+    res.status(201).json({ created, errors });
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+export default router;
@@ -1,37 +1,40 @@
 import { Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import db, { getWeekStart, trackedExecute } from '../db/index.js';
-import type { GoalRow, GoalLogRow, GoalStats } from '../types.js';
-import { goalRowToGoal, goalLogRowToGoalLog } from '../types.js';
+import { trackedExecute, trackedBatch } from '../db/index.js';
+import { getCalendarContext, addDays } from '../services/dates.js';
+import type { CalendarContext } from '../services/dates.js';
+import {
+  getFrequencyPeriodStart, periodEndOf, writeGoalLogs, recomputeGoalStatements, findProgressDrift, rollOverGoalPeriods,
+} from '../services/goalProgress.js';
+import { projectGoal, DEFAULT_VELOCITY_WINDOW } from '../services/goalProjection.js';
+import type { GoalProjection } from '../services/goalProjection.js';
+import { buildGoalSeries, MAX_SERIES_BUCKETS } from '../services/goalSeries.js';
+import { loadGoalRelations, findCycle } from '../services/goalGraph.js';
+import { buildGoalTree, loadGoalHierarchy } from '../services/goalRollup.js';
+import { loadSeason } from '../services/seasons.js';
+import { parseGoalLogCsv, checkBulkGoalLogs } from '../services/goalLogImport.js';
+import type {
+  GoalRow, GoalLogRow, GoalPeriodRow, GoalRelationRow, GoalStats, GoalPeriod, GoalPeriodHistory,
+} from '../types.js';
+import { goalRowToGoal, goalLogRowToGoalLog, goalPeriodRowToGoalPeriod, goalRelationRowToGoalRelation } from '../types.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes, goalProgressPercent, validationErrorResponse } from '../contracts/index.js';
+import type { GoalStreak, GoalTreeNode, StreakUnit, FrequencyPeriod } from '../contracts/index.js';
 
 const router = Router();
 
-/**
- * @swagger
- * /goals:
- *   get:
- *     summary: Get all top-level goals
- *     tags: [Goals]
- *     responses:
- *       200:
- *         description: List of goals
- *         content:
- *           application/json:
- *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Goal'
- */
-router.get('/', async (_req, res) => {
+addRoute(router, apiRoutes.goals.list, async (req, res) => {
   try {
-    const result = await trackedExecute(`
-      SELECT g.* FROM goals g
-      WHERE g.is_active = 1 
-        AND NOT EXISTS (
-          SELECT 1 FROM goal_relations gr WHERE gr.child_goal_id = g.id
-        )
-      ORDER BY g.created_at DESC
-    `, 'getAllTopLevelGoals');
+    await rollOverGoalPeriods(req.user.id, await getCalendarContext(req.user.id));
+    const result = await trackedExecute({
+      sql: `SELECT g.* FROM goals g
+            WHERE g.user_id = ? AND g.is_active = 1 
+              AND NOT EXISTS (
+                SELECT 1 FROM goal_relations gr WHERE gr.child_goal_id = g.id
+              )
+            ORDER BY g.created_at DESC`,
+      args: [req.user.id]
+    }, 'getAllTopLevelGoals');
     const goals = result.rows as unknown as GoalRow[];
     res.json(goals.map(goalRowToGoal));
   } catch (err) {
@@ -39,33 +42,79 @@ router.get('/', async (_req, res) => {
   }
 });
 
-/**
- * @swagger
- * /goals/{id}:
- *   get:
- *     summary: Get goal by ID
- *     tags: [Goals]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       200:
- *         description: Goal found
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Goal'
- *       404:
- *         description: Goal not found
- */
-router.get('/:id', async (req, res) => {
+// Registered before /goals/:id, which would otherwise take "archived" for an id
+addRoute(router, apiRoutes.goals.listArchived, async (req, res) => {
   try {
     const result = await trackedExecute({
-      sql: 'SELECT * FROM goals WHERE id = ?',
-      args: [req.params.id]
+      sql: `SELECT * FROM goals
+            WHERE user_id = ? AND is_active = 0
+            ORDER BY archived_at IS NULL, archived_at DESC, created_at DESC`,
+      args: [req.user.id]
+    }, 'getArchivedGoals');
+    const goals = result.rows as unknown as GoalRow[];
+    res.json(goals.map(goalRowToGoal));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+// Registered before /goals/:id, which would otherwise take "tree" for an id
+addRoute(router, apiRoutes.goals.listTrees, async (req, res) => {
+  try {
+    await rollOverGoalPeriods(req.user.id, await getCalendarContext(req.user.id));
+    const { goals, relations } = await loadGoalHierarchy(req.user.id);
+
+    // Top-level as in GET /goals: not linked under any goal, archived or not
+    const children = new Set(relations.map(relation => relation.child_goal_id));
+    const roots = [...goals.values()]
+      .filter(goal => !children.has(goal.id))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    res.json(roots.map(root => buildGoalTree(root, goals, relations)));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+// Registered before /goals/:id, which would otherwise take "graph" for an id
+addRoute(router, apiRoutes.goals.getGraph, async (req, res) => {
+  try {
+    await rollOverGoalPeriods(req.user.id, await getCalendarContext(req.user.id));
+    const goalsResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE user_id = ? AND is_active = 1 ORDER BY created_at ASC',
+      args: [req.user.id]
+    }, 'getGoalGraphNodes');
+    const goals = goalsResult.rows as unknown as GoalRow[];
+
+    const active = new Set(goals.map(goal => goal.id));
+    const relations = (await loadGoalRelations(req.user.id))
+      .filter(relation => active.has(relation.parent_goal_id) && active.has(relation.child_goal_id));
+
+    res.json({
+      nodes: goals.map(goalRowToGoal),
+      edges: relations.map(goalRelationRowToGoalRelation),
+    });
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+// Registered before /goals/:id, which would otherwise take "consistency" for an id
+addRoute(router, apiRoutes.goals.checkConsistency, async (req, res) => {
+  try {
+    const calendar = await getCalendarContext(req.user.id);
+    await rollOverGoalPeriods(req.user.id, calendar);
+    res.json(await findProgressDrift(req.user.id, calendar));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.goals.get, async (req, res) => {
+  try {
+    await rollOverGoalPeriods(req.user.id, await getCalendarContext(req.user.id));
+    const result = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
     }, 'getGoalById');
     
     if (result.rows.length === 0) {
@@ -79,33 +128,14 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /goals/{id}/stats:
- *   get:
- *     summary: Get goal statistics
- *     tags: [Goals]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       200:
- *         description: Goal stats with velocity, projections, sub-goals
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/GoalStats'
- *       404:
- *         description: Goal not found
- */
-router.get('/:id/stats', async (req, res) => {
+addRoute(router, apiRoutes.goals.getStats, async (req, res) => {
   try {
+    const calendar = await getCalendarContext(req.user.id);
+    await rollOverGoalPeriods(req.user.id, calendar);
+
     const goalResult = await trackedExecute({
-      sql: 'SELECT * FROM goals WHERE id = ?',
-      args: [req.params.id]
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
     }, 'getGoalForStats');
     
     if (goalResult.rows.length === 0) {
@@ -130,22 +160,112 @@ router.get('/:id/stats', async (req, res) => {
     }, 'getSubGoalsForStats');
     const subGoals = subGoalsResult.rows as unknown as GoalRow[];
 
-    const stats = calculateGoalStats(goal, logs, subGoals);
+    // Streaks and velocity look at the whole history, not just the logs above
+    const historyResult = await trackedExecute({
+      sql: 'SELECT * FROM goal_logs WHERE goal_id = ? ORDER BY log_date ASC',
+      args: [goal.id]
+    }, 'getGoalHistoryForStats');
+    const history = historyResult.rows as unknown as GoalLogRow[];
+
+    let streak: GoalStreak;
+    if (goal.goal_type === 'frequency') {
+      const periods = listGoalPeriods(goal, await loadGoalPeriods(goal.id), calendar);
+      streak = streakOf(periods, STREAK_UNITS[goal.frequency_period ?? 'daily']);
+    } else {
+      // Only days that moved the goal on: value-0 "missed" logs don't keep a streak alive,
+      // nor do logs going the wrong way on a cumulative goal counting down
+      const progressDaysResult = await trackedExecute({
+        sql: `SELECT goal_logs.log_date FROM goal_logs
+              INNER JOIN goals ON goals.id = goal_logs.goal_id
+              WHERE goal_logs.goal_id = ?
+                AND goal_logs.value * CASE
+                  WHEN goals.numeric_mode = 'cumulative' AND goals.target_value < COALESCE(goals.baseline, 0) THEN -1
+                  ELSE 1
+                END > 0
+              ORDER BY goal_logs.log_date ASC`,
+        args: [goal.id]
+      }, 'getGoalProgressDaysForStreak');
+      const progressDays = progressDaysResult.rows as unknown as Pick<GoalLogRow, 'log_date'>[];
+      streak = streakOf(loggedDays(progressDays.map(log => log.log_date), calendar.today), 'day');
+    }
+
+    const { goals, relations } = await loadGoalHierarchy(req.user.id);
+    const tree = buildGoalTree(goal, goals, relations);
+
+    const projection = projectGoal(goal, history, calendar, req.query.window ?? DEFAULT_VELOCITY_WINDOW);
+    const stats = calculateGoalStats(goal, logs, subGoals, tree, streak, projection);
     res.json(stats);
   } catch (err) {
     res.status(500).json({ message: (err as Error).message });
   }
 });
 
+addRoute(router, apiRoutes.goals.listPeriods, async (req, res) => {
+  try {
+    const calendar = await getCalendarContext(req.user.id);
+    await rollOverGoalPeriods(req.user.id, calendar);
+
+    const goalResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
+    }, 'getGoalForPeriods');
+    if (goalResult.rows.length === 0) {
+      return res.status(404).json({ message: 'Goal not found' });
+    }
+    const goal = goalResult.rows[0] as unknown as GoalRow;
+    if (goal.goal_type !== 'frequency') {
+      return res.status(400).json({ message: 'Only frequency goals have periods' });
+    }
+
+    res.json(summarizeGoalPeriods(goal, await loadGoalPeriods(goal.id), calendar));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.goals.getSeries, async (req, res) => {
+  try {
+    const calendar = await getCalendarContext(req.user.id);
+    await rollOverGoalPeriods(req.user.id, calendar);
+
+    const goalResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
+    }, 'getGoalForSeries');
+    if (goalResult.rows.length === 0) {
+      return res.status(404).json({ message: 'Goal not found' });
+    }
+    const goal = goalResult.rows[0] as unknown as GoalRow;
+
+    // Progress at any day depends on every log before it, so the whole history is read
+    const logsResult = await trackedExecute({
+      sql: 'SELECT * FROM goal_logs WHERE goal_id = ? ORDER BY log_date ASC',
+      args: [goal.id]
+    }, 'getGoalLogsForSeries');
+    const logs = logsResult.rows as unknown as GoalLogRow[];
+
+    const series = buildGoalSeries(goal, logs, calendar, req.query);
+    if (!series) {
+      return res.status(400).json({
+        message: `Too many buckets; pick a shorter range or a wider bucket (at most ${MAX_SERIES_BUCKETS})`
+      });
+    }
+    res.json(series);
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
 // Get sub-goals for a parent goal (via junction table)
-router.get('/:id/subgoals', async (req, res) => {
+addRoute(router, apiRoutes.goals.listSubGoals, async (req, res) => {
   try {
+    await rollOverGoalPeriods(req.user.id, await getCalendarContext(req.user.id));
     const result = await trackedExecute({
       sql: `SELECT g.* FROM goals g
             INNER JOIN goal_relations gr ON gr.child_goal_id = g.id
-            WHERE gr.parent_goal_id = ? AND g.is_active = 1 
+            WHERE gr.parent_goal_id = ? AND g.user_id = ? AND g.is_active = 1 
             ORDER BY g.created_at ASC`,
-      args: [req.params.id]
+      args: [req.params.id, req.user.id]
     }, 'getSubGoals');
     const subGoals = result.rows as unknown as GoalRow[];
     res.json(subGoals.map(goalRowToGoal));
@@ -154,13 +274,158 @@ router.get('/:id/subgoals', async (req, res) => {
   }
 });
 
+addRoute(router, apiRoutes.goals.linkSubGoal, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { childId, weight = 1 } = req.body;
+
+    const goals = await loadActiveGoals(req.user.id, [id, childId]);
+    if (!goals.has(id) || !goals.has(childId)) {
+      return res.status(404).json({ message: 'Goal not found' });
+    }
+
+    const relations = await loadGoalRelations(req.user.id);
+    if (relations.some(r => r.parent_goal_id === id && r.child_goal_id === childId)) {
+      return res.status(409).json({ message: 'Already a sub-goal of this goal' });
+    }
+    const cycle = findCycle(relations, id, childId);
+    if (cycle) {
+      return res.status(409).json({ message: await describeCycle(req.user.id, cycle) });
+    }
+
+    const result = await trackedExecute({
+      sql: `INSERT INTO goal_relations (parent_goal_id, child_goal_id, relation_type, weight)
+            VALUES (?, ?, 'subgoal', ?)`,
+      args: [id, childId, weight]
+    }, 'linkSubGoal');
+
+    const relationResult = await trackedExecute({
+      sql: 'SELECT * FROM goal_relations WHERE id = ?',
+      args: [Number(result.lastInsertRowid)]
+    }, 'getLinkedRelation');
+    res.status(201).json(goalRelationRowToGoalRelation(relationResult.rows[0] as unknown as GoalRelationRow));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.goals.unlinkSubGoal, async (req, res) => {
+  try {
+    const result = await trackedExecute({
+      sql: `DELETE FROM goal_relations
+            WHERE parent_goal_id = ? AND child_goal_id = ?
+              AND parent_goal_id IN (SELECT id FROM goals WHERE user_id = ?)`,
+      args: [req.params.id, req.params.childId, req.user.id]
+    }, 'unlinkSubGoal');
+
+    if (result.rowsAffected === 0) {
+      return res.status(404).json({ message: 'Sub-goal link not found' });
+    }
+    res.status(204).send();
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.goals.setParents, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const parentIds = [...new Set(req.body.parentIds)];
+
+    const goals = await loadActiveGoals(req.user.id, [id, ...parentIds]);
+    if (!goals.has(id)) {
+      return res.status(404).json({ message: 'Goal not found' });
+    }
+    const missing = parentIds.find(parentId => !goals.has(parentId));
+    if (missing) {
+      return res.status(404).json({ message: `Parent goal not found: ${missing}` });
+    }
+
+    // Links into the goal never lie on a path down from it, so checking each new
+    // parent against the current graph is enough
+    const relations = await loadGoalRelations(req.user.id);
+    for (const parentId of parentIds) {
+      const cycle = findCycle(relations, parentId, id);
+      if (cycle) {
+        return res.status(409).json({ message: await describeCycle(req.user.id, cycle) });
+      }
+    }
+
+    const keep = parentIds.length > 0 ? `AND parent_goal_id NOT IN (${parentIds.map(() => '?').join(', ')})` : '';
+    await trackedBatch([
+      { sql: `DELETE FROM goal_relations WHERE child_goal_id = ? ${keep}`, args: [id, ...parentIds] },
+      ...parentIds.map(parentId => ({
+        sql: `INSERT OR IGNORE INTO goal_relations (parent_goal_id, child_goal_id, relation_type)
+              VALUES (?, ?, 'subgoal')`,
+        args: [parentId, id]
+      })),
+    ], 'setGoalParents');
+
+    const result = await trackedExecute({
+      sql: 'SELECT * FROM goal_relations WHERE child_goal_id = ? ORDER BY created_at ASC, id ASC',
+      args: [id]
+    }, 'getGoalParents');
+    const relationRows = result.rows as unknown as GoalRelationRow[];
+    res.json(relationRows.map(goalRelationRowToGoalRelation));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.goals.getTree, async (req, res) => {
+  try {
+    await rollOverGoalPeriods(req.user.id, await getCalendarContext(req.user.id));
+    const result = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
+    }, 'getGoalForTree');
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ message: 'Goal not found' });
+    }
+
+    const goal = result.rows[0] as unknown as GoalRow;
+    const { goals, relations } = await loadGoalHierarchy(req.user.id);
+    res.json(buildGoalTree(goal, goals, relations));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.goals.updateSubGoal, async (req, res) => {
+  try {
+    const { id, childId } = req.params;
+    const result = await trackedExecute({
+      sql: `UPDATE goal_relations SET weight = ?
+            WHERE parent_goal_id = ? AND child_goal_id = ?
+              AND parent_goal_id IN (SELECT id FROM goals WHERE user_id = ?)`,
+      args: [req.body.weight, id, childId, req.user.id]
+    }, 'updateSubGoalWeight');
+
+    if (result.rowsAffected === 0) {
+      return res.status(404).json({ message: 'Sub-goal link not found' });
+    }
+
+    const relationResult = await trackedExecute({
+      sql: 'SELECT * FROM goal_relations WHERE parent_goal_id = ? AND child_goal_id = ?',
+      args: [id, childId]
+    }, 'getUpdatedRelation');
+    res.json(goalRelationRowToGoalRelation(relationResult.rows[0] as unknown as GoalRelationRow));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
 // Get goal logs
-router.get('/:id/logs', async (req, res) => {
+addRoute(router, apiRoutes.goals.listLogs, async (req, res) => {
   try {
-    const { limit = '30' } = req.query;
+    const { limit = 30 } = req.query;
     const result = await trackedExecute({
-      sql: 'SELECT * FROM goal_logs WHERE goal_id = ? ORDER BY log_date DESC LIMIT ?',
-      args: [req.params.id, parseInt(limit as string)]
+      sql: `SELECT gl.* FROM goal_logs gl
+            INNER JOIN goals g ON g.id = gl.goal_id
+            WHERE gl.goal_id = ? AND g.user_id = ?
+            ORDER BY gl.log_date DESC LIMIT ?`,
+      args: [req.params.id, req.user.id, limit]
     }, 'getGoalLogs');
     const logs = result.rows as unknown as GoalLogRow[];
     res.json(logs.map(goalLogRowToGoalLog));
@@ -169,29 +434,7 @@ router.get('/:id/logs', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /goals:
- *   post:
- *     summary: Create a new goal
- *     tags: [Goals]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CreateGoalRequest'
- *     responses:
- *       201:
- *         description: Goal created
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Goal'
- *       400:
- *         description: Title is required
- */
-router.post('/', async (req, res) => {
+addRoute(router, apiRoutes.goals.create, async (req, res) => {
   try {
     const { 
       title, 
@@ -200,40 +443,51 @@ router.post('/', async (req, res) => {
       unit,
       totalPages,
       frequencyPeriod,
+      numericMode,
+      baseline,
       targetDate,
-      parentId
+      parentId,
+      seasonId
     } = req.body;
 
-    if (!title) {
-      return res.status(400).json({ message: 'Title is required' });
-    }
-
     // If creating a sub-goal, verify parent exists
     if (parentId) {
       const parentResult = await trackedExecute({
-        sql: 'SELECT * FROM goals WHERE id = ?',
-        args: [parentId]
+        sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+        args: [parentId, req.user.id]
       }, 'verifyParentGoalExists');
       if (parentResult.rows.length === 0) {
         return res.status(404).json({ message: 'Parent goal not found' });
       }
     }
 
+    if (seasonId) {
+      const problem = await checkSeasonOpen(req.user.id, seasonId);
+      if (problem) return res.status(problem.status).json({ message: problem.message });
+    }
+
     const id = uuidv4();
+    const isNumeric = goalType === 'numeric';
     
-    // Insert the goal
+    // Insert the goal; a numeric goal starts out at its baseline
     await trackedExecute({
-      sql: `INSERT INTO goals (id, title, goal_type, target_value, unit, total_pages, frequency_period, target_date)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      sql: `INSERT INTO goals (id, user_id, title, goal_type, target_value, unit, total_pages, frequency_period,
+              numeric_mode, baseline, current_value, target_date, season_id)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       args: [
         id,
+        req.user.id,
         title, 
         goalType, 
         targetValue || 0, 
         unit || '', 
-        goalType === 'reading' ? totalPages : null,
+        goalType === 'reading' ? totalPages ?? null : null,
         goalType === 'frequency' ? (frequencyPeriod || 'weekly') : null,
-        targetDate || null
+        isNumeric ? numericMode ?? 'latest' : null,
+        isNumeric ? baseline ?? null : null,
+        isNumeric ? baseline ?? 0 : 0,
+        targetDate || null,
+        seasonId || null
       ]
     }, 'createGoal');
 
@@ -258,18 +512,19 @@ router.post('/', async (req, res) => {
 });
 
 // Update goal
-router.patch('/:id', async (req, res) => {
+addRoute(router, apiRoutes.goals.update, async (req, res) => {
   try {
     const { id } = req.params;
-    const { title, targetValue, unit, totalPages, currentPage, currentValue, targetDate, isActive } = req.body;
+    const { title, targetValue, unit, totalPages, numericMode, baseline, targetDate, seasonId } = req.body;
 
     const existingResult = await trackedExecute({
-      sql: 'SELECT * FROM goals WHERE id = ?',
-      args: [id]
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [id, req.user.id]
     }, 'checkGoalExistsForUpdate');
     if (existingResult.rows.length === 0) {
       return res.status(404).json({ message: 'Goal not found' });
     }
+    const existing = existingResult.rows[0] as unknown as GoalRow;
 
     const updates: string[] = [];
     const values: (string | number | null)[] = [];
@@ -290,29 +545,39 @@ router.patch('/:id', async (req, res) => {
       updates.push('total_pages = ?');
       values.push(totalPages);
     }
-    if (currentPage !== undefined) {
-      updates.push('current_page = ?');
-      values.push(currentPage);
+    if (existing.goal_type === 'numeric' && numericMode !== undefined) {
+      updates.push('numeric_mode = ?');
+      values.push(numericMode);
     }
-    if (currentValue !== undefined) {
-      updates.push('current_value = ?');
-      values.push(currentValue);
+    if (existing.goal_type === 'numeric' && baseline !== undefined) {
+      updates.push('baseline = ?');
+      values.push(baseline);
     }
     if (targetDate !== undefined) {
       updates.push('target_date = ?');
       values.push(targetDate);
     }
-    if (isActive !== undefined) {
-      updates.push('is_active = ?');
-      values.push(isActive ? 1 : 0);
+    if (seasonId !== undefined && seasonId !== existing.season_id) {
+      // A reviewed season's goals are frozen with its scores
+      if (existing.season_id) {
+        const current = await loadSeason(req.user.id, existing.season_id);
+        if (current?.reviewed_at) return res.status(409).json({ message: 'Season already reviewed' });
+      }
+      if (seasonId) {
+        const problem = await checkSeasonOpen(req.user.id, seasonId);
+        if (problem) return res.status(problem.status).json({ message: problem.message });
+      }
+      updates.push('season_id = ?');
+      values.push(seasonId);
     }
 
+    // Mode and baseline feed into progress, so it is recomputed in the same batch
     if (updates.length > 0) {
       values.push(id);
-      await trackedExecute({
-        sql: `UPDATE goals SET ${updates.join(', ')} WHERE id = ?`,
-        args: values
-      }, 'updateGoal');
+      await trackedBatch([
+        { sql: `UPDATE goals SET ${updates.join(', ')} WHERE id = ?`, args: values },
+        ...recomputeGoalStatements(id, await getCalendarContext(req.user.id)),
+      ], 'updateGoal');
     }
 
     const goalResult = await trackedExecute({
@@ -326,92 +591,31 @@ router.patch('/:id', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /goals/{id}/logs:
- *   post:
- *     summary: Log progress for a goal
- *     tags: [Goals]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CreateGoalLogRequest'
- *     responses:
- *       201:
- *         description: Progress logged
- *       400:
- *         description: Value is required
- *       404:
- *         description: Goal not found
- */
-router.post('/:id/logs', async (req, res) => {
+addRoute(router, apiRoutes.goals.logProgress, async (req, res) => {
   try {
     const { id } = req.params;
     const { value, note, logDate } = req.body;
 
     const goalResult = await trackedExecute({
-      sql: 'SELECT * FROM goals WHERE id = ?',
-      args: [id]
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [id, req.user.id]
     }, 'getGoalForLogging');
     if (goalResult.rows.length === 0) {
       return res.status(404).json({ message: 'Goal not found' });
     }
-    const goal = goalResult.rows[0] as unknown as GoalRow;
-
-    if (value === undefined || value === null) {
-      return res.status(400).json({ message: 'Value is required' });
-    }
 
-    const date = logDate || new Date().toISOString().split('T')[0];
+    const calendar = await getCalendarContext(req.user.id);
+    const date = logDate || calendar.today;
 
     // Upsert log - preserve existing note if no new note provided
-    await trackedExecute({
+    await writeGoalLogs(id, [{
       sql: `INSERT INTO goal_logs (goal_id, log_date, value, note)
             VALUES (?, ?, ?, ?)
             ON CONFLICT(goal_id, log_date) DO UPDATE SET 
               value = excluded.value,
               note = COALESCE(excluded.note, note)`,
       args: [id, date, value, note || null]
-    }, 'upsertGoalLog');
-
-    // Update goal's current value based on type
-    if (goal.goal_type === 'reading') {
-      await trackedExecute({
-        sql: 'UPDATE goals SET current_page = ? WHERE id = ?',
-        args: [value, id]
-      }, 'updateReadingProgress');
-    } else if (goal.goal_type === 'frequency') {
-      const periodStart = goal.frequency_period === 'weekly' 
-        ? getWeekStart() 
-        : goal.frequency_period === 'monthly'
-          ? new Date().toISOString().slice(0, 7) + '-01'
-          : date;
-      
-      const countResult = await trackedExecute({
-        sql: `SELECT COUNT(*) as count FROM goal_logs 
-              WHERE goal_id = ? AND log_date >= ? AND value = 1`,
-        args: [id, periodStart]
-      }, 'countFrequencyLogs');
-      const count = (countResult.rows[0] as unknown as { count: number }).count;
-      
-      await trackedExecute({
-        sql: 'UPDATE goals SET current_value = ? WHERE id = ?',
-        args: [count, id]
-      }, 'updateFrequencyProgress');
-    } else {
-      await trackedExecute({
-        sql: 'UPDATE goals SET current_value = ? WHERE id = ?',
-        args: [value, id]
-      }, 'updateNumericProgress');
-    }
+    }], calendar);
 
     const logResult = await trackedExecute({
       sql: 'SELECT * FROM goal_logs WHERE goal_id = ? AND log_date = ?',
@@ -434,48 +638,78 @@ router.post('/:id/logs', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /goals/{goalId}/logs/{logId}:
- *   patch:
- *     summary: Update a goal log
- *     tags: [Goals]
- *     parameters:
- *       - in: path
- *         name: goalId
- *         required: true
- *         schema:
- *           type: string
- *       - in: path
- *         name: logId
- *         required: true
- *         schema:
- *           type: integer
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               value:
- *                 type: number
- *               note:
- *                 type: string
- *               logDate:
- *                 type: string
- *                 format: date
- *     responses:
- *       200:
- *         description: Log updated successfully
- *       404:
- *         description: Log not found
- */
-router.patch('/:goalId/logs/:logId', async (req, res) => {
+addRoute(router, apiRoutes.goals.bulkLog, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const goalResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [id, req.user.id]
+    }, 'getGoalForBulkLogging');
+    if (goalResult.rows.length === 0) {
+      return res.status(404).json({ message: 'Goal not found' });
+    }
+
+    // Nothing is written unless every entry is good
+    const parsed = req.body.csv !== undefined
+      ? parseGoalLogCsv(req.body.csv)
+      : { entries: req.body.entries ?? [], errors: [] };
+    const errors = [
+      ...parsed.errors,
+      ...checkBulkGoalLogs(parsed.entries, req.body.csv !== undefined ? 'csv' : 'entries'),
+    ];
+    if (errors.length > 0) {
+      return res.status(400).json(validationErrorResponse(errors));
+    }
+
+    // Same upsert as a single log, with progress recomputed once for the lot
+    const calendar = await getCalendarContext(req.user.id);
+    await writeGoalLogs(id, parsed.entries.map(({ logDate, value, note }) => ({
+      sql: `INSERT INTO goal_logs (goal_id, log_date, value, note)
+            VALUES (?, ?, ?, ?)
+            ON CONFLICT(goal_id, log_date) DO UPDATE SET
+              value = excluded.value,
+              note = COALESCE(excluded.note, note)`,
+      args: [id, logDate, value, note || null]
+    })), calendar);
+
+    const dates = parsed.entries.map(e => e.logDate);
+    const logResult = await trackedExecute({
+      sql: `SELECT * FROM goal_logs WHERE goal_id = ? AND log_date IN (${dates.map(() => '?').join(', ')})
+            ORDER BY log_date ASC`,
+      args: [id, ...dates]
+    }, 'getBulkCreatedLogs');
+    const logs = logResult.rows as unknown as GoalLogRow[];
+
+    const updatedGoalResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ?',
+      args: [id]
+    }, 'getGoalAfterBulkLog');
+    const updatedGoal = updatedGoalResult.rows[0] as unknown as GoalRow;
+
+    res.status(201).json({
+      logs: logs.map(goalLogRowToGoalLog),
+      goal: goalRowToGoal(updatedGoal),
+    });
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.goals.updateLog, async (req, res) => {
   try {
     const { goalId, logId } = req.params;
     const { value, note, logDate } = req.body;
 
+    // Only the owner may touch the goal's logs
+    const goalResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [goalId, req.user.id]
+    }, 'getGoalForLogUpdate');
+    if (goalResult.rows.length === 0) {
+      return res.status(404).json({ message: 'Goal not found' });
+    }
+
     // Check log exists
     const existingResult = await trackedExecute({
       sql: 'SELECT * FROM goal_logs WHERE id = ? AND goal_id = ?',
@@ -485,17 +719,6 @@ router.patch('/:goalId/logs/:logId', async (req, res) => {
     if (existingResult.rows.length === 0) {
       return res.status(404).json({ message: 'Goal log not found' });
     }
-    const existingLog = existingResult.rows[0] as unknown as GoalLogRow;
-
-    // Get the goal for type info
-    const goalResult = await trackedExecute({
-      sql: 'SELECT * FROM goals WHERE id = ?',
-      args: [goalId]
-    }, 'getGoalForLogUpdate');
-    if (goalResult.rows.length === 0) {
-      return res.status(404).json({ message: 'Goal not found' });
-    }
-    const goal = goalResult.rows[0] as unknown as GoalRow;
 
     // Build update query
     const updates: string[] = [];
@@ -514,58 +737,11 @@ router.patch('/:goalId/logs/:logId', async (req, res) => {
       values.push(logDate);
     }
 
-    if (updates.length > 0) {
-      values.push(parseInt(logId));
-      await trackedExecute({
-        sql: `UPDATE goal_logs SET ${updates.join(', ')} WHERE id = ?`,
-        args: values
-      }, 'updateGoalLog');
-    }
-
-    // Recalculate goal progress if value changed
-    if (value !== undefined) {
-      if (goal.goal_type === 'reading') {
-        // Get the latest log value for reading goals
-        const latestResult = await trackedExecute({
-          sql: 'SELECT value FROM goal_logs WHERE goal_id = ? ORDER BY log_date DESC, id DESC LIMIT 1',
-          args: [goalId]
-        }, 'getLatestReadingValue');
-        const latestValue = (latestResult.rows[0] as unknown as { value: number })?.value || 0;
-        await trackedExecute({
-          sql: 'UPDATE goals SET current_page = ? WHERE id = ?',
-          args: [latestValue, goalId]
-        }, 'updateReadingProgressAfterEdit');
-      } else if (goal.goal_type === 'frequency') {
-        const periodStart = goal.frequency_period === 'weekly' 
-          ? getWeekStart() 
-          : goal.frequency_period === 'monthly'
-            ? new Date().toISOString().slice(0, 7) + '-01'
-            : new Date().toISOString().split('T')[0];
-        
-        const countResult = await trackedExecute({
-          sql: `SELECT COUNT(*) as count FROM goal_logs 
-                WHERE goal_id = ? AND log_date >= ? AND value = 1`,
-          args: [goalId, periodStart]
-        }, 'countFrequencyLogsAfterEdit');
-        const count = (countResult.rows[0] as unknown as { count: number }).count;
-        
-        await trackedExecute({
-          sql: 'UPDATE goals SET current_value = ? WHERE id = ?',
-          args: [count, goalId]
-        }, 'updateFrequencyProgressAfterEdit');
-      } else {
-        // Numeric - use latest log value
-        const latestResult = await trackedExecute({
-          sql: 'SELECT value FROM goal_logs WHERE goal_id = ? ORDER BY log_date DESC, id DESC LIMIT 1',
-          args: [goalId]
-        }, 'getLatestNumericValue');
-        const latestValue = (latestResult.rows[0] as unknown as { value: number })?.value || 0;
-        await trackedExecute({
-          sql: 'UPDATE goals SET current_value = ? WHERE id = ?',
-          args: [latestValue, goalId]
-        }, 'updateNumericProgressAfterEdit');
-      }
-    }
+    // Progress is recomputed even without changes, which also repairs any drift
+    const statements = updates.length > 0
+      ? [{ sql: `UPDATE goal_logs SET ${updates.join(', ')} WHERE id = ?`, args: [...values, logId] }]
+      : [];
+    await writeGoalLogs(goalId, statements, await getCalendarContext(req.user.id));
 
     // Return updated log and goal
     const logResult = await trackedExecute({
@@ -589,17 +765,136 @@ router.patch('/:goalId/logs/:logId', async (req, res) => {
   }
 });
 
+addRoute(router, apiRoutes.goals.deleteLog, async (req, res) => {
+  try {
+    const { goalId, logId } = req.params;
+
+    const goalResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [goalId, req.user.id]
+    }, 'getGoalForLogDelete');
+    if (goalResult.rows.length === 0) {
+      return res.status(404).json({ message: 'Goal not found' });
+    }
+
+    const existingResult = await trackedExecute({
+      sql: 'SELECT * FROM goal_logs WHERE id = ? AND goal_id = ?',
+      args: [logId, goalId]
+    }, 'getGoalLogForDelete');
+    if (existingResult.rows.length === 0) {
+      return res.status(404).json({ message: 'Goal log not found' });
+    }
+    const log = existingResult.rows[0] as unknown as GoalLogRow;
+
+    await writeGoalLogs(goalId, [{
+      sql: 'DELETE FROM goal_logs WHERE id = ?',
+      args: [logId]
+    }], await getCalendarContext(req.user.id));
+
+    const updatedGoalResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ?',
+      args: [goalId]
+    }, 'getGoalAfterLogDelete');
+    const updatedGoal = updatedGoalResult.rows[0] as unknown as GoalRow;
+
+    // The deleted log comes back so the client can offer to undo
+    res.json({
+      log: goalLogRowToGoalLog(log),
+      goal: goalRowToGoal(updatedGoal),
+    });
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
 // Delete goal (soft delete)
-router.delete('/:id', async (req, res) => {
+addRoute(router, apiRoutes.goals.delete, async (req, res) => {
   try {
-    const result = await trackedExecute({
-      sql: 'UPDATE goals SET is_active = 0 WHERE id = ?',
-      args: [req.params.id]
+    // An archived goal stops rolling over, so it keeps the period it is in now
+    await rollOverGoalPeriods(req.user.id, await getCalendarContext(req.user.id));
+    const goalResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
+    }, 'getGoalForArchive');
+    if (goalResult.rows.length === 0) {
+      return res.status(404).json({ message: 'Goal not found' });
+    }
+    const goal = goalResult.rows[0] as unknown as GoalRow;
+    const reason = req.query.reason ?? (goalProgressPercent(goalRowToGoal(goal)) >= 100 ? 'completed' : 'abandoned');
+
+    // Archiving twice keeps the first date
+    await trackedExecute({
+      sql: `UPDATE goals SET is_active = 0, archived_at = COALESCE(archived_at, CURRENT_TIMESTAMP), archive_reason = ?
+            WHERE id = ?`,
+      args: [reason, goal.id]
     }, 'softDeleteGoal');
 
-    if (result.rowsAffected === 0) {
+    res.status(204).send();
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.goals.restore, async (req, res) => {
+  try {
+    const goalResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
+    }, 'getGoalForRestore');
+    if (goalResult.rows.length === 0) {
       return res.status(404).json({ message: 'Goal not found' });
     }
+    const goal = goalResult.rows[0] as unknown as GoalRow;
+    if (goal.is_active) {
+      return res.status(409).json({ message: 'Goal is not archived' });
+    }
+
+    // A frequency goal picks up at the current period; otherwise the next rollover
+    // would archive every period it spent in the archive as missed
+    const calendar = await getCalendarContext(req.user.id);
+    await trackedBatch([
+      {
+        sql: `UPDATE goals SET is_active = 1, archived_at = NULL, archive_reason = NULL,
+                period_start = CASE WHEN goal_type = 'frequency' THEN ? ELSE period_start END
+              WHERE id = ?`,
+        args: [getFrequencyPeriodStart(goal, calendar), goal.id]
+      },
+      ...recomputeGoalStatements(goal.id, calendar),
+    ], 'restoreGoal');
+
+    const restoredResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ?',
+      args: [goal.id]
+    }, 'getRestoredGoal');
+    res.json(goalRowToGoal(restoredResult.rows[0] as unknown as GoalRow));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.goals.purge, async (req, res) => {
+  try {
+    const goalResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
+    }, 'getGoalForPurge');
+    if (goalResult.rows.length === 0) {
+      return res.status(404).json({ message: 'Goal not found' });
+    }
+    const goal = goalResult.rows[0] as unknown as GoalRow;
+    if (goal.is_active) {
+      return res.status(409).json({ message: 'Goal is not archived' });
+    }
+
+    // Foreign keys aren't enforced, so everything pointing at the goal goes explicitly
+    await trackedBatch([
+      { sql: 'DELETE FROM goal_logs WHERE goal_id = ?', args: [goal.id] },
+      { sql: 'DELETE FROM goal_periods WHERE goal_id = ?', args: [goal.id] },
+      { sql: 'DELETE FROM season_scores WHERE goal_id = ?', args: [goal.id] },
+      { sql: 'DELETE FROM goal_relations WHERE parent_goal_id = ? OR child_goal_id = ?', args: [goal.id, goal.id] },
+      { sql: 'UPDATE goals SET parent_id = NULL WHERE parent_id = ?', args: [goal.id] },
+      { sql: 'DELETE FROM goals WHERE id = ?', args: [goal.id] },
+    ], 'purgeGoal');
 
     res.status(204).send();
   } catch (err) {
@@ -607,89 +902,138 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
+// Helper: The user's active goals among the ids, by id
+async function loadActiveGoals(userId: string, ids: string[]): Promise<Map<string, GoalRow>> {
+  const result = await trackedExecute({
+    sql: `SELECT * FROM goals WHERE user_id = ? AND is_active = 1 AND id IN (${ids.map(() => '?').join(', ')})`,
+    args: [userId, ...ids]
+  }, 'getActiveGoalsById');
+  const goals = result.rows as unknown as GoalRow[];
+  return new Map(goals.map(goal => [goal.id, goal]));
+}
+
+// Helper: Why goals can't be put in the season, or null when they can
+async function checkSeasonOpen(userId: string, seasonId: string): Promise<{ status: 404 | 409; message: string } | null> {
+  const season = await loadSeason(userId, seasonId);
+  if (!season) return { status: 404, message: 'Season not found' };
+  if (season.reviewed_at) return { status: 409, message: 'Season already reviewed' };
+  return null;
+}
+
+// Helper: "Would create a cycle: A → B → A", by goal title
+async function describeCycle(userId: string, cycle: string[]): Promise<string> {
+  const result = await trackedExecute({
+    sql: `SELECT id, title FROM goals WHERE user_id = ? AND id IN (${cycle.map(() => '?').join(', ')})`,
+    args: [userId, ...cycle]
+  }, 'getCycleGoalTitles');
+  const titles = new Map((result.rows as unknown as Pick<GoalRow, 'id' | 'title'>[]).map(row => [row.id, row.title]));
+  return `Would create a cycle: ${cycle.map(id => titles.get(id) ?? id).join(' → ')}`;
+}
+
+const STREAK_UNITS: Record<FrequencyPeriod, StreakUnit> = { daily: 'day', weekly: 'week', monthly: 'month' };
+
+// Helper: Closed periods of a frequency goal, oldest first
+async function loadGoalPeriods(goalId: string): Promise<GoalPeriodRow[]> {
+  const result = await trackedExecute({
+    sql: 'SELECT * FROM goal_periods WHERE goal_id = ? ORDER BY period_start ASC',
+    args: [goalId]
+  }, 'getGoalPeriods');
+  return result.rows as unknown as GoalPeriodRow[];
+}
+
+// Helper: Closed periods plus the open one, for active goals
+function listGoalPeriods(goal: GoalRow, rows: GoalPeriodRow[], calendar: CalendarContext): GoalPeriod[] {
+  const periods = rows.map(goalPeriodRowToGoalPeriod);
+  if (goal.is_active) {
+    const periodStart = getFrequencyPeriodStart(goal, calendar);
+    periods.push({
+      periodStart,
+      periodEnd: periodEndOf(periodStart, goal.frequency_period ?? 'daily'),
+      target: goal.target_value,
+      completed: goal.current_value,
+      met: goal.current_value >= goal.target_value,
+      closed: false,
+    });
+  }
+  return periods;
+}
+
+// Helper: History plus the success rate of the closed periods and the longest run that met their target
+function summarizeGoalPeriods(goal: GoalRow, rows: GoalPeriodRow[], calendar: CalendarContext): GoalPeriodHistory {
+  const periods = listGoalPeriods(goal, rows, calendar);
+  const closed = periods.filter(p => p.closed);
+  const successRate = closed.length > 0
+    ? Math.round((closed.filter(p => p.met).length / closed.length) * 100)
+    : null;
+
+  const { best } = streakOf(periods, STREAK_UNITS[goal.frequency_period ?? 'daily']);
+  return { periods, successRate, longestRun: best.length };
+}
+
+type StreakSpan = Pick<GoalPeriod, 'periodStart' | 'periodEnd' | 'met' | 'closed'>;
+
+// Helper: Every day from the first given log date through today, met when it is one of them
+function loggedDays(logDates: string[], today: string): StreakSpan[] {
+  const logged = new Set(logDates);
+  const days: StreakSpan[] = [];
+  for (let date = logDates[0]; date && date <= today; date = addDays(date, 1)) {
+    days.push({ periodStart: date, periodEnd: date, met: logged.has(date), closed: date < today });
+  }
+  return days;
+}
+
+// Helper: Current and best runs of consecutive met spans, given oldest first.
+// A span still open that hasn't met yet leaves the current run standing.
+function streakOf(spans: StreakSpan[], unit: StreakUnit): GoalStreak {
+  const empty = { length: 0, startDate: null, endDate: null };
+  let current: GoalStreak['current'] = empty;
+  let best: GoalStreak['best'] = empty;
+
+  for (const span of spans) {
+    if (span.met) {
+      current = {
+        length: current.length + 1,
+        startDate: current.startDate ?? span.periodStart,
+        endDate: span.periodEnd,
+      };
+      if (current.length > best.length) best = current;
+    } else if (span.closed) {
+      current = empty;
+    }
+  }
+
+  return { unit, current, best };
+}
+
 // Helper: Calculate goal statistics
-function calculateGoalStats(goal: GoalRow, logs: GoalLogRow[], subGoalRows: GoalRow[]): GoalStats {
+function calculateGoalStats(
+  goal: GoalRow,
+  logs: GoalLogRow[],
+  subGoalRows: GoalRow[],
+  tree: GoalTreeNode,
+  streak: GoalStreak,
+  projection: GoalProjection
+): GoalStats {
   const goalData = goalRowToGoal(goal);
   const logsData = logs.map(goalLogRowToGoalLog);
   const subGoals = subGoalRows.map(goalRowToGoal);
 
-  let velocity: number | null = null;
-  let estimatedFinishDate: string | null = null;
-  let daysRemaining: number | null = null;
-  let progressPercent = 0;
-  let streak = 0;
+  let progressPercent = goalProgressPercent(goalData);
   let periodProgress: { current: number; target: number } | null = null;
 
-  const subGoalsCompleted = subGoals.filter(sg => {
-    if (sg.targetValue > 0) {
-      return sg.currentValue >= sg.targetValue;
-    }
-    return false;
-  }).length;
+  const subGoalsCompleted = tree.children.filter(node => node.rollupPercent >= 100).length;
 
-  if (goal.goal_type === 'reading' && goal.total_pages) {
-    progressPercent = Math.round((goal.current_page / goal.total_pages) * 100);
-    
-    if (logs.length >= 2) {
-      const sortedLogs = [...logs].sort((a, b) => 
-        new Date(a.log_date).getTime() - new Date(b.log_date).getTime()
-      );
-
-      const firstLog = sortedLogs[0];
-      const lastLog = sortedLogs[sortedLogs.length - 1];
-      const daysDiff = Math.max(1, 
-        (new Date(lastLog.log_date).getTime() - new Date(firstLog.log_date).getTime()) / (1000 * 60 * 60 * 24)
-      );
-      const pagesDiff = lastLog.value - firstLog.value;
-      
-      velocity = Math.round((pagesDiff / daysDiff) * 10) / 10;
-      
-      if (velocity > 0) {
-        const pagesRemaining = goal.total_pages - goal.current_page;
-        daysRemaining = Math.ceil(pagesRemaining / velocity);
-        
-        const finishDate = new Date();
-        finishDate.setDate(finishDate.getDate() + daysRemaining);
-        estimatedFinishDate = finishDate.toISOString().split('T')[0];
-      }
-    }
-  } else if (goal.goal_type === 'frequency') {
-    const periodStart = goal.frequency_period === 'weekly' 
-      ? getWeekStart() 
-      : goal.frequency_period === 'monthly'
-        ? new Date().toISOString().slice(0, 7) + '-01'
-        : new Date().toISOString().split('T')[0];
-    
-    const periodLogs = logs.filter(l => l.log_date >= periodStart && l.value === 1);
+  if (goal.goal_type === 'frequency') {
+    // The stored count covers the whole period; `logs` is only the latest few
     periodProgress = {
-      current: periodLogs.length,
+      current: goal.current_value,
       target: goal.target_value,
     };
     progressPercent = goal.target_value > 0 
-      ? Math.round((periodLogs.length / goal.target_value) * 100)
+      ? Math.round((goal.current_value / goal.target_value) * 100)
       : 0;
-  } else if (goal.goal_type === 'numeric') {
-    if (subGoals.length > 0) {
-      progressPercent = Math.round((subGoalsCompleted / subGoals.length) * 100);
-    } else {
-      progressPercent = goal.target_value > 0
-        ? Math.round((goal.current_value / goal.target_value) * 100)
-        : 0;
-    }
-  }
-
-  // Calculate streak
-  const today = new Date();
-  for (let i = 0; i < 365; i++) {
-    const checkDate = new Date(today);
-    checkDate.setDate(checkDate.getDate() - i);
-    const dateStr = checkDate.toISOString().split('T')[0];
-    
-    if (logs.some(l => l.log_date === dateStr)) {
-      streak++;
-    } else if (i > 0) {
-      break;
-    }
+  } else if (goal.goal_type === 'numeric' && tree.children.length > 0) {
+    progressPercent = tree.rollupPercent;
   }
 
   return {
@@ -697,10 +1041,8 @@ function calculateGoalStats(goal: GoalRow, logs: GoalLogRow[], subGoalRows: Goal
     logs: logsData,
     subGoals,
     subGoalsCompleted,
-    velocity,
-    estimatedFinishDate,
-    daysRemaining,
-    progressPercent: Math.min(progressPercent, 100),
+    ...projection,
+    progressPercent: Math.max(0, Math.min(progressPercent, 100)),
     streak,
     periodProgress,
   };
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes } from '../contracts/index.js';
+
+const router = Router();
+
+addRoute(router, apiRoutes.system.health, (_req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+export default router;
@@ -1,28 +1,14 @@
 import { Router } from 'express';
-import { readLogs, clearLogs } from '../db/queryLogger.js';
+import { readLogs, takeLogs } from '../db/queryLogger.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes } from '../contracts/index.js';
 
 const router = Router();
 
-/**
- * @swagger
- * /logs/download:
- *   get:
- *     summary: Download and clear query logs
- *     tags: [Logs]
- *     description: Downloads the query log file as JSONL and clears it afterward
- *     responses:
- *       200:
- *         description: JSONL file download
- *         content:
- *           application/x-ndjson:
- *             schema:
- *               type: string
- *       500:
- *         description: Failed to download logs
- */
-router.get('/download', (_req, res) => {
+addRoute(router, apiRoutes.logs.download, (req, res) => {
   try {
-    const logs = readLogs();
+    // Only the caller's own entries, which are removed from the file as they are read
+    const logs = takeLogs(req.user.id);
     
     // Set headers for file download
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -34,9 +20,6 @@ router.get('/download', (_req, res) => {
     // Send the file content
     res.send(logs);
     
-    // Clear the logs after successful download
-    clearLogs();
-    
     console.log(`[Logs] Downloaded and cleared ${logs.split('\n').filter(l => l).length} log entries`);
   } catch (err) {
     console.error('[Logs] Error downloading logs:', (err as Error).message);
@@ -44,25 +27,9 @@ router.get('/download', (_req, res) => {
   }
 });
 
-/**
- * @swagger
- * /logs/stats:
- *   get:
- *     summary: Get aggregated log statistics
- *     tags: [Logs]
- *     responses:
- *       200:
- *         description: Aggregated statistics from query logs
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/LogStats'
- *       500:
- *         description: Failed to get log stats
- */
-router.get('/stats', (_req, res) => {
+addRoute(router, apiRoutes.logs.stats, (req, res) => {
   try {
-    const logs = readLogs();
+    const logs = readLogs(req.user.id);
     const lines = logs.split('\n').filter(l => l.trim());
     
     // Parse and aggregate stats
@@ -72,9 +39,12 @@ router.get('/stats', (_req, res) => {
       byQueryType: {} as Record<string, number>,
       byPurpose: {} as Record<string, number>,
       avgDurationMs: 0,
+      totalRequests: 0,
+      avgQueriesPerRequest: 0,
     };
     
     let totalDuration = 0;
+    const requestIds = new Set<string>();
     
     for (const line of lines) {
       try {
@@ -92,12 +62,19 @@ router.get('/stats', (_req, res) => {
         
         // Sum duration
         totalDuration += entry.durationMs || 0;
+        
+        // Group queries by the HTTP request that issued them
+        if (entry.requestId) {
+          requestIds.add(entry.requestId);
+        }
       } catch {
         // Skip malformed lines
       }
     }
     
     stats.avgDurationMs = lines.length > 0 ? Math.round((totalDuration / lines.length) * 100) / 100 : 0;
+    stats.totalRequests = requestIds.size;
+    stats.avgQueriesPerRequest = requestIds.size > 0 ? Math.round((lines.length / requestIds.size) * 100) / 100 : 0;
     
     res.json(stats);
   } catch (err) {
@@ -1,27 +1,20 @@
 import { Router } from 'express';
 import type { InValue } from '@libsql/client';
 import { trackedExecute } from '../db/index.js';
+import { getToday, weekdayOf, daysInMonth } from '../services/dates.js';
 import type { RecurringExpenseRow, ExpenseRow } from '../types.js';
 import { recurringExpenseRowToRecurringExpense, expenseRowToExpense } from '../types.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes, recurrenceDayError, validationErrorResponse } from '../contracts/index.js';
 
 const router = Router();
 
-/**
- * @swagger
- * /recurring-expenses:
- *   get:
- *     summary: Get all recurring expense templates
- *     tags: [Recurring Expenses]
- *     responses:
- *       200:
- *         description: List of recurring expenses
- */
-router.get('/', async (_req, res) => {
+addRoute(router, apiRoutes.recurringExpenses.list, async (req, res) => {
   try {
-    const result = await trackedExecute(
-      'SELECT * FROM recurring_expenses ORDER BY created_at DESC',
-      'getAllRecurringExpenses'
-    );
+    const result = await trackedExecute({
+      sql: 'SELECT * FROM recurring_expenses WHERE user_id = ? ORDER BY created_at DESC',
+      args: [req.user.id]
+    }, 'getAllRecurringExpenses');
 
     const recurringExpenses = result.rows as unknown as RecurringExpenseRow[];
     res.json(recurringExpenses.map(recurringExpenseRowToRecurringExpense));
@@ -30,74 +23,14 @@ router.get('/', async (_req, res) => {
   }
 });
 
-/**
- * @swagger
- * /recurring-expenses:
- *   post:
- *     summary: Create a new recurring expense template
- *     tags: [Recurring Expenses]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - amount
- *               - category
- *               - recurrenceType
- *               - recurrenceDay
- *             properties:
- *               amount:
- *                 type: number
- *               category:
- *                 type: string
- *               note:
- *                 type: string
- *               recurrenceType:
- *                 type: string
- *                 enum: [weekly, monthly]
- *               recurrenceDay:
- *                 type: integer
- *     responses:
- *       201:
- *         description: Recurring expense created
- *       400:
- *         description: Invalid input
- */
-router.post('/', async (req, res) => {
+addRoute(router, apiRoutes.recurringExpenses.create, async (req, res) => {
   try {
     const { amount, category, note, recurrenceType, recurrenceDay } = req.body;
 
-    if (amount === undefined || amount === null) {
-      return res.status(400).json({ message: 'Amount is required' });
-    }
-
-    if (!category) {
-      return res.status(400).json({ message: 'Category is required' });
-    }
-
-    if (!recurrenceType || !['weekly', 'monthly'].includes(recurrenceType)) {
-      return res.status(400).json({ message: 'Valid recurrence type (weekly/monthly) is required' });
-    }
-
-    if (recurrenceDay === undefined || recurrenceDay === null) {
-      return res.status(400).json({ message: 'Recurrence day is required' });
-    }
-
-    // Validate recurrence day based on type
-    if (recurrenceType === 'weekly' && (recurrenceDay < 0 || recurrenceDay > 6)) {
-      return res.status(400).json({ message: 'Weekly recurrence day must be 0-6 (Mon-Sun)' });
-    }
-
-    if (recurrenceType === 'monthly' && (recurrenceDay < 1 || recurrenceDay > 31)) {
-      return res.status(400).json({ message: 'Monthly recurrence day must be 1-31' });
-    }
-
     const result = await trackedExecute({
-      sql: `INSERT INTO recurring_expenses (amount, category, note, recurrence_type, recurrence_day) 
-            VALUES (?, ?, ?, ?, ?)`,
-      args: [amount, category, note || null, recurrenceType, recurrenceDay]
+      sql: `INSERT INTO recurring_expenses (user_id, amount, category, note, recurrence_type, recurrence_day) 
+            VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [req.user.id, amount, category, note || null, recurrenceType, recurrenceDay]
     }, 'createRecurringExpense');
 
     const recurringResult = await trackedExecute({
@@ -112,47 +45,26 @@ router.post('/', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /recurring-expenses/{id}:
- *   put:
- *     summary: Update a recurring expense template
- *     tags: [Recurring Expenses]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               amount:
- *                 type: number
- *               category:
- *                 type: string
- *               note:
- *                 type: string
- *               recurrenceType:
- *                 type: string
- *               recurrenceDay:
- *                 type: integer
- *               isActive:
- *                 type: boolean
- *     responses:
- *       200:
- *         description: Recurring expense updated
- *       404:
- *         description: Not found
- */
-router.put('/:id', async (req, res) => {
+addRoute(router, apiRoutes.recurringExpenses.update, async (req, res) => {
   try {
     const { id } = req.params;
     const { amount, category, note, recurrenceType, recurrenceDay, isActive } = req.body;
 
+    const existingResult = await trackedExecute({
+      sql: 'SELECT * FROM recurring_expenses WHERE id = ? AND user_id = ?',
+      args: [id, req.user.id]
+    }, 'getRecurringExpenseForUpdate');
+    if (existingResult.rows.length === 0) {
+      return res.status(404).json({ message: 'Recurring expense not found' });
+    }
+    const existing = existingResult.rows[0] as unknown as RecurringExpenseRow;
+
+    // The day has to fit the type whichever of the two is changing
+    const dayError = recurrenceDayError(recurrenceType ?? existing.recurrence_type, recurrenceDay ?? existing.recurrence_day);
+    if (dayError) {
+      return res.status(400).json(validationErrorResponse([{ in: 'body', path: 'recurrenceDay', message: dayError }]));
+    }
+
     // Build dynamic update query
     const updates: string[] = [];
     const args: InValue[] = [];
@@ -182,14 +94,10 @@ router.put('/:id', async (req, res) => {
       args.push(isActive ? 1 : 0);
     }
 
-    if (updates.length === 0) {
-      return res.status(400).json({ message: 'No fields to update' });
-    }
-
-    args.push(id);
+    args.push(id, req.user.id);
 
     const result = await trackedExecute({
-      sql: `UPDATE recurring_expenses SET ${updates.join(', ')} WHERE id = ?`,
+      sql: `UPDATE recurring_expenses SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`,
       args
     }, 'updateRecurringExpense');
 
@@ -209,29 +117,11 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /recurring-expenses/{id}:
- *   delete:
- *     summary: Delete a recurring expense template
- *     tags: [Recurring Expenses]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *     responses:
- *       204:
- *         description: Deleted
- *       404:
- *         description: Not found
- */
-router.delete('/:id', async (req, res) => {
+addRoute(router, apiRoutes.recurringExpenses.delete, async (req, res) => {
   try {
     const result = await trackedExecute({
-      sql: 'DELETE FROM recurring_expenses WHERE id = ?',
-      args: [req.params.id]
+      sql: 'DELETE FROM recurring_expenses WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
     }, 'deleteRecurringExpense');
 
     if (result.rowsAffected === 0) {
@@ -244,38 +134,18 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /recurring-expenses/generate:
- *   post:
- *     summary: Generate due recurring expenses
- *     tags: [Recurring Expenses]
- *     description: Checks all active recurring expenses and generates actual expense records for any that are due
- *     responses:
- *       200:
- *         description: Generation results
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 generated:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Expense'
- */
-router.post('/generate', async (_req, res) => {
+addRoute(router, apiRoutes.recurringExpenses.generate, async (req, res) => {
   try {
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
-    const dayOfWeek = (today.getDay() + 6) % 7; // Convert to Mon=0, Sun=6
-    const dayOfMonth = today.getDate();
+    const now = new Date();
+    const todayStr = await getToday(req.user.id);
+    const dayOfWeek = (weekdayOf(todayStr) + 6) % 7; // Convert to Mon=0, Sun=6
+    const dayOfMonth = Number(todayStr.slice(8, 10));
 
     // Get all active recurring expenses
-    const result = await trackedExecute(
-      'SELECT * FROM recurring_expenses WHERE is_active = 1',
-      'getActiveRecurringExpenses'
-    );
+    const result = await trackedExecute({
+      sql: 'SELECT * FROM recurring_expenses WHERE user_id = ? AND is_active = 1',
+      args: [req.user.id]
+    }, 'getActiveRecurringExpenses');
 
     const recurringExpenses = result.rows as unknown as RecurringExpenseRow[];
     const generatedExpenses: ExpenseRow[] = [];
@@ -288,7 +158,7 @@ router.post('/generate', async (_req, res) => {
         shouldGenerate = recurring.recurrence_day === dayOfWeek;
       } else if (recurring.recurrence_type === 'monthly') {
         // Handle end-of-month edge case (e.g., if recurrence_day is 31 but month only has 30 days)
-        const lastDayOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
+        const lastDayOfMonth = daysInMonth(todayStr);
         const effectiveDay = Math.min(recurring.recurrence_day, lastDayOfMonth);
         shouldGenerate = dayOfMonth === effectiveDay;
       }
@@ -297,8 +167,8 @@ router.post('/generate', async (_req, res) => {
       if (shouldGenerate && recurring.last_generated_date !== todayStr) {
         // Create the actual expense
         const expenseResult = await trackedExecute({
-          sql: 'INSERT INTO expenses (amount, category, note, created_at) VALUES (?, ?, ?, ?)',
-          args: [recurring.amount, recurring.category, recurring.note, today.toISOString()]
+          sql: 'INSERT INTO expenses (user_id, amount, category, note, created_at) VALUES (?, ?, ?, ?, ?)',
+          args: [req.user.id, recurring.amount, recurring.category, recurring.note, now.toISOString()]
         }, 'createExpenseFromRecurring');
 
         // Update last_generated_date
@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { trackedExecute, trackedBatch } from '../db/index.js';
+import { getCalendarContext } from '../services/dates.js';
+import { rollOverGoalPeriods } from '../services/goalProgress.js';
+import { SEASON_SELECT, loadSeason, scoreSeasonGoals, buildSeasonSummary } from '../services/seasons.js';
+import type { SeasonRow } from '../types.js';
+import { seasonRowToSeason } from '../types.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes } from '../contracts/index.js';
+
+const router = Router();
+
+addRoute(router, apiRoutes.seasons.list, async (req, res) => {
+  try {
+    const result = await trackedExecute({
+      sql: `${SEASON_SELECT} WHERE seasons.user_id = ? ORDER BY seasons.start_date DESC, seasons.created_at DESC`,
+      args: [req.user.id]
+    }, 'getSeasons');
+    const seasons = result.rows as unknown as SeasonRow[];
+    res.json(seasons.map(seasonRowToSeason));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.seasons.get, async (req, res) => {
+  try {
+    const season = await loadSeason(req.user.id, req.params.id);
+    if (!season) {
+      return res.status(404).json({ message: 'Season not found' });
+    }
+
+    const calendar = await getCalendarContext(req.user.id);
+    await rollOverGoalPeriods(req.user.id, calendar);
+    res.json(await buildSeasonSummary(req.user.id, season, calendar));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.seasons.create, async (req, res) => {
+  try {
+    const { name, startDate, endDate } = req.body;
+    const id = uuidv4();
+
+    await trackedExecute({
+      sql: 'INSERT INTO seasons (id, user_id, name, start_date, end_date) VALUES (?, ?, ?, ?, ?)',
+      args: [id, req.user.id, name, startDate, endDate]
+    }, 'createSeason');
+
+    const season = await loadSeason(req.user.id, id);
+    res.status(201).json(seasonRowToSeason(season!));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.seasons.update, async (req, res) => {
+  try {
+    const existing = await loadSeason(req.user.id, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Season not found' });
+    }
+    if (existing.reviewed_at) {
+      return res.status(409).json({ message: 'Season already reviewed' });
+    }
+
+    const { name = existing.name, startDate = existing.start_date, endDate = existing.end_date } = req.body;
+    if (startDate > endDate) {
+      return res.status(400).json({ message: 'End date must not be before the start date' });
+    }
+
+    await trackedExecute({
+      sql: 'UPDATE seasons SET name = ?, start_date = ?, end_date = ? WHERE id = ?',
+      args: [name, startDate, endDate, existing.id]
+    }, 'updateSeason');
+
+    const season = await loadSeason(req.user.id, existing.id);
+    res.json(seasonRowToSeason(season!));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.seasons.delete, async (req, res) => {
+  try {
+    const season = await loadSeason(req.user.id, req.params.id);
+    if (!season) {
+      return res.status(404).json({ message: 'Season not found' });
+    }
+
+    await trackedBatch([
+      { sql: 'DELETE FROM season_scores WHERE season_id = ?', args: [season.id] },
+      { sql: 'UPDATE goals SET season_id = NULL WHERE season_id = ?', args: [season.id] },
+      { sql: 'DELETE FROM seasons WHERE id = ?', args: [season.id] },
+    ], 'deleteSeason');
+
+    res.status(204).send();
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.seasons.review, async (req, res) => {
+  try {
+    const season = await loadSeason(req.user.id, req.params.id);
+    if (!season) {
+      return res.status(404).json({ message: 'Season not found' });
+    }
+    if (season.reviewed_at) {
+      return res.status(409).json({ message: 'Season already reviewed' });
+    }
+
+    const calendar = await getCalendarContext(req.user.id);
+    if (calendar.today <= season.end_date) {
+      return res.status(409).json({ message: `Season runs until ${season.end_date}; review it from the day after` });
+    }
+
+    // Frequency goals first close the periods the season's scores count
+    await rollOverGoalPeriods(req.user.id, calendar);
+    const scores = await scoreSeasonGoals(req.user.id, season, calendar);
+
+    try {
+      await trackedBatch([
+        ...scores.map(({ goal, progressPercent, score }) => ({
+          sql: `INSERT INTO season_scores (season_id, goal_id, progress_percent, score)
+                VALUES (?, ?, ?, ?)`,
+          args: [season.id, goal.id, progressPercent, score]
+        })),
+        { sql: 'UPDATE seasons SET reviewed_at = COALESCE(reviewed_at, CURRENT_TIMESTAMP) WHERE id = ?', args: [season.id] },
+      ], 'reviewSeason');
+    } catch (err) {
+      // A review running at the same time stored its scores first
+      if ((err as Error).message.includes('UNIQUE constraint failed')) {
+        return res.status(409).json({ message: 'Season already reviewed' });
+      }
+      throw err;
+    }
+
+    const reviewed = await loadSeason(req.user.id, season.id);
+    res.json(await buildSeasonSummary(req.user.id, reviewed!, calendar));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+export default router;
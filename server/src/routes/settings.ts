@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { getSettings, updateSettings, SettingsValidationError } from '../services/settings.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes } from '../contracts/index.js';
+
+const router = Router();
+
+addRoute(router, apiRoutes.settings.get, async (req, res) => {
+  try {
+    res.json(await getSettings(req.user.id));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.settings.update, async (req, res) => {
+  try {
+    const { timezone, weekStart } = req.body;
+    res.json(await updateSettings(req.user.id, { timezone, weekStart }));
+  } catch (err) {
+    if (err instanceof SettingsValidationError) {
+      return res.status(400).json({ message: err.message });
+    }
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+export default router;
@@ -1,86 +1,152 @@
 import { Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { trackedExecute } from '../db/index.js';
-import type { TaskRow, SubTaskRow } from '../types.js';
+import type { TaskRow, SubTaskRow, SubTask, TaskPage } from '../types.js';
 import { taskRowToTask, subTaskRowToSubTask } from '../types.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes, validationErrorResponse } from '../contracts/index.js';
 
 const router = Router();
 
-/**
- * @swagger
- * /tasks:
- *   get:
- *     summary: Get all tasks
- *     tags: [Tasks]
- *     parameters:
- *       - in: header
- *         name: X-Purpose
- *         schema:
- *           type: string
- *         description: UI purpose for logging
- *     responses:
- *       200:
- *         description: List of tasks with subtasks
- *         content:
- *           application/json:
- *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Task'
- */
-router.get('/', async (_req, res) => {
+const DEFAULT_PAGE_SIZE = 50;
+
+// Listing order: tasks with a deadline first (soonest first), then newest created.
+// The cursor is the sort key of the last row returned, so pages stay stable as rows change.
+const TASK_ORDER = `CASE WHEN deadline IS NULL THEN 1 ELSE 0 END ASC,
+        COALESCE(deadline, '') ASC,
+        created_at DESC,
+        id ASC`;
+
+interface TaskCursor {
+  noDeadline: number;
+  deadline: string;
+  createdAt: string;
+  id: string;
+}
+
+function encodeCursor(task: TaskRow): string {
+  const cursor: TaskCursor = {
+    noDeadline: task.deadline === null ? 1 : 0,
+    deadline: task.deadline ?? '',
+    createdAt: task.created_at,
+    id: task.id,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(raw: string): TaskCursor | null {
   try {
-    const tasksResult = await trackedExecute(`
-      SELECT * FROM tasks WHERE parent_id IS NULL ORDER BY 
-        CASE WHEN deadline IS NOT NULL THEN 0 ELSE 1 END,
-        deadline ASC,
-        created_at DESC
-    `, 'getAllTasks');
-    const tasks = tasksResult.rows as unknown as TaskRow[];
-
-    const result = await Promise.all(tasks.map(async (task) => {
-      const subTasksResult = await trackedExecute({
-        sql: 'SELECT * FROM subtasks WHERE task_id = ? ORDER BY created_at ASC',
-        args: [task.id]
-      }, 'getSubtasksForTask');
-      const subTaskRows = subTasksResult.rows as unknown as SubTaskRow[];
-      const subTasks = subTaskRows.map(subTaskRowToSubTask);
-      return taskRowToTask(task, subTasks);
-    }));
-
-    res.json(result);
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8')) as TaskCursor;
+    if (typeof cursor.deadline !== 'string' || typeof cursor.createdAt !== 'string' || typeof cursor.id !== 'string') {
+      return null;
+    }
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+// Load subtasks for many tasks in one round trip, grouped by task id
+async function loadSubTasks(taskIds: string[]): Promise<Map<string, SubTask[]>> {
+  const byTask = new Map<string, SubTask[]>(taskIds.map(id => [id, []]));
+  if (taskIds.length === 0) return byTask;
+
+  const result = await trackedExecute({
+    sql: `SELECT * FROM subtasks WHERE task_id IN (${taskIds.map(() => '?').join(', ')})
+          ORDER BY created_at ASC`,
+    args: taskIds
+  }, 'getSubtasksForTasks');
+
+  for (const row of result.rows as unknown as SubTaskRow[]) {
+    byTask.get(row.task_id)?.push(subTaskRowToSubTask(row));
+  }
+  return byTask;
+}
+
+addRoute(router, apiRoutes.tasks.list, async (req, res) => {
+  try {
+    const {
+      category, completed, scheduledFrom, scheduledTo, scheduledRange = 'within',
+      deadlineFrom, deadlineTo, limit: pageSize = DEFAULT_PAGE_SIZE, cursor,
+    } = req.query;
+
+    const conditions: string[] = ['user_id = ?', 'parent_id IS NULL'];
+    const args: (string | number)[] = [req.user.id];
+
+    if (category) {
+      conditions.push('category = ?');
+      args.push(category);
+    }
+
+    if (completed !== undefined) {
+      conditions.push('is_completed = ?');
+      args.push(completed ? 1 : 0);
+    }
+
+    if (scheduledFrom || scheduledTo) {
+      const range = `scheduled_complete_date BETWEEN ? AND ?`;
+      conditions.push(scheduledRange === 'within'
+        ? range
+        : `(scheduled_complete_date IS NULL OR NOT (${range}))`);
+      args.push(scheduledFrom ?? '0000-01-01', scheduledTo ?? '9999-12-31');
+    }
+
+    if (deadlineFrom) {
+      conditions.push('DATE(deadline) >= ?');
+      args.push(deadlineFrom);
+    }
+    if (deadlineTo) {
+      conditions.push('DATE(deadline) <= ?');
+      args.push(deadlineTo);
+    }
+
+    if (cursor) {
+      const after = decodeCursor(cursor);
+      if (!after) {
+        return res.status(400).json(validationErrorResponse([{ in: 'query', path: 'cursor', message: 'Invalid cursor' }]));
+      }
+      // Rows strictly after the cursor in TASK_ORDER
+      conditions.push(`(
+        (CASE WHEN deadline IS NULL THEN 1 ELSE 0 END) > ?
+        OR ((CASE WHEN deadline IS NULL THEN 1 ELSE 0 END) = ? AND (
+          COALESCE(deadline, '') > ?
+          OR (COALESCE(deadline, '') = ? AND (
+            created_at < ?
+            OR (created_at = ? AND id > ?)
+          ))
+        ))
+      )`);
+      args.push(after.noDeadline, after.noDeadline, after.deadline, after.deadline,
+        after.createdAt, after.createdAt, after.id);
+    }
+
+    // Fetch one extra row to learn whether another page exists
+    const tasksResult = await trackedExecute({
+      sql: `SELECT * FROM tasks WHERE ${conditions.join(' AND ')}
+            ORDER BY ${TASK_ORDER}
+            LIMIT ?`,
+      args: [...args, pageSize + 1]
+    }, 'getTasksPage');
+    const rows = tasksResult.rows as unknown as TaskRow[];
+    const tasks = rows.slice(0, pageSize);
+
+    const subTasksByTask = await loadSubTasks(tasks.map(t => t.id));
+
+    const page: TaskPage = {
+      items: tasks.map(task => taskRowToTask(task, subTasksByTask.get(task.id) ?? [])),
+      nextCursor: rows.length > pageSize ? encodeCursor(tasks[tasks.length - 1]) : null,
+    };
+    res.json(page);
   } catch (err) {
     res.status(500).json({ message: (err as Error).message });
   }
 });
 
-/**
- * @swagger
- * /tasks/{id}:
- *   get:
- *     summary: Get task by ID
- *     tags: [Tasks]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       200:
- *         description: Task found
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Task'
- *       404:
- *         description: Task not found
- */
-router.get('/:id', async (req, res) => {
+addRoute(router, apiRoutes.tasks.get, async (req, res) => {
   try {
     const taskResult = await trackedExecute({
-      sql: 'SELECT * FROM tasks WHERE id = ?',
-      args: [req.params.id]
+      sql: 'SELECT * FROM tasks WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
     }, 'getTaskById');
     
     if (taskResult.rows.length === 0) {
@@ -101,42 +167,26 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /tasks:
- *   post:
- *     summary: Create a new task
- *     tags: [Tasks]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CreateTaskRequest'
- *     responses:
- *       201:
- *         description: Task created
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Task'
- *       400:
- *         description: Title is required
- */
-router.post('/', async (req, res) => {
+addRoute(router, apiRoutes.tasks.create, async (req, res) => {
   try {
     const { title, category = 'Personal', deadline, parentId } = req.body;
-    
-    if (!title) {
-      return res.status(400).json({ message: 'Title is required' });
+
+    if (parentId) {
+      const parentResult = await trackedExecute({
+        sql: 'SELECT id FROM tasks WHERE id = ? AND user_id = ?',
+        args: [parentId, req.user.id]
+      }, 'checkParentTaskExists');
+      if (parentResult.rows.length === 0) {
+        return res.status(404).json({ message: 'Parent task not found' });
+      }
     }
 
     const id = uuidv4();
     
     await trackedExecute({
-      sql: `INSERT INTO tasks (id, parent_id, title, category, deadline)
-            VALUES (?, ?, ?, ?, ?)`,
-      args: [id, parentId || null, title, category, deadline || null]
+      sql: `INSERT INTO tasks (id, user_id, parent_id, title, category, deadline)
+            VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [id, req.user.id, parentId || null, title, category, deadline || null]
     }, 'createTask');
 
     const taskResult = await trackedExecute({
@@ -150,39 +200,14 @@ router.post('/', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /tasks/{id}:
- *   patch:
- *     summary: Update a task
- *     tags: [Tasks]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/UpdateTaskRequest'
- *     responses:
- *       200:
- *         description: Task updated
- *       400:
- *         description: Cannot complete task with incomplete subtasks
- *       404:
- *         description: Task not found
- */
-router.patch('/:id', async (req, res) => {
+addRoute(router, apiRoutes.tasks.update, async (req, res) => {
   try {
     const { title, category, deadline, scheduledCompleteDate, isCompleted } = req.body;
     const { id } = req.params;
 
     const existingResult = await trackedExecute({
-      sql: 'SELECT * FROM tasks WHERE id = ?',
-      args: [id]
+      sql: 'SELECT * FROM tasks WHERE id = ? AND user_id = ?',
+      args: [id, req.user.id]
     }, 'checkTaskExistsForUpdate');
     if (existingResult.rows.length === 0) {
       return res.status(404).json({ message: 'Task not found' });
@@ -254,29 +279,11 @@ router.patch('/:id', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /tasks/{id}:
- *   delete:
- *     summary: Delete a task
- *     tags: [Tasks]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *     responses:
- *       204:
- *         description: Task deleted
- *       404:
- *         description: Task not found
- */
-router.delete('/:id', async (req, res) => {
+addRoute(router, apiRoutes.tasks.delete, async (req, res) => {
   try {
     const result = await trackedExecute({
-      sql: 'DELETE FROM tasks WHERE id = ?',
-      args: [req.params.id]
+      sql: 'DELETE FROM tasks WHERE id = ? AND user_id = ?',
+      args: [req.params.id, req.user.id]
     }, 'deleteTask');
     
     if (result.rowsAffected === 0) {
@@ -290,24 +297,20 @@ router.delete('/:id', async (req, res) => {
 });
 
 // Add subtask
-router.post('/:taskId/subtasks', async (req, res) => {
+addRoute(router, apiRoutes.tasks.addSubTask, async (req, res) => {
   try {
     const { taskId } = req.params;
     const { text } = req.body;
 
     const taskResult = await trackedExecute({
-      sql: 'SELECT * FROM tasks WHERE id = ?',
-      args: [taskId]
+      sql: 'SELECT * FROM tasks WHERE id = ? AND user_id = ?',
+      args: [taskId, req.user.id]
     }, 'getTaskForSubtask');
     if (taskResult.rows.length === 0) {
       return res.status(404).json({ message: 'Task not found' });
     }
     const task = taskResult.rows[0] as unknown as TaskRow;
 
-    if (!text) {
-      return res.status(400).json({ message: 'Text is required' });
-    }
-
     const id = uuidv4();
     await trackedExecute({
       sql: 'INSERT INTO subtasks (id, task_id, text) VALUES (?, ?, ?)',
@@ -342,14 +345,16 @@ router.post('/:taskId/subtasks', async (req, res) => {
 });
 
 // Update subtask
-router.patch('/:taskId/subtasks/:subTaskId', async (req, res) => {
+addRoute(router, apiRoutes.tasks.updateSubTask, async (req, res) => {
   try {
     const { taskId, subTaskId } = req.params;
     const { completed, text } = req.body;
 
     const subtaskResult = await trackedExecute({
-      sql: 'SELECT * FROM subtasks WHERE id = ? AND task_id = ?',
-      args: [subTaskId, taskId]
+      sql: `SELECT subtasks.* FROM subtasks
+            JOIN tasks ON tasks.id = subtasks.task_id
+            WHERE subtasks.id = ? AND subtasks.task_id = ? AND tasks.user_id = ?`,
+      args: [subTaskId, taskId, req.user.id]
     }, 'checkSubtaskExists');
     
     if (subtaskResult.rows.length === 0) {
@@ -390,13 +395,14 @@ router.patch('/:taskId/subtasks/:subTaskId', async (req, res) => {
 });
 
 // Delete subtask
-router.delete('/:taskId/subtasks/:subTaskId', async (req, res) => {
+addRoute(router, apiRoutes.tasks.deleteSubTask, async (req, res) => {
   try {
     const { taskId, subTaskId } = req.params;
 
     const result = await trackedExecute({
-      sql: 'DELETE FROM subtasks WHERE id = ? AND task_id = ?',
-      args: [subTaskId, taskId]
+      sql: `DELETE FROM subtasks
+            WHERE id = ? AND task_id IN (SELECT id FROM tasks WHERE id = ? AND user_id = ?)`,
+      args: [subTaskId, taskId, req.user.id]
     }, 'deleteSubtask');
 
     if (result.rowsAffected === 0) {
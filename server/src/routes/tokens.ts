@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { listApiTokens, createApiToken, revokeApiToken } from '../services/apiTokens.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes } from '../contracts/index.js';
+
+const router = Router();
+
+addRoute(router, apiRoutes.tokens.list, async (req, res) => {
+  try {
+    res.json(await listApiTokens(req.user.id));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.tokens.create, async (req, res) => {
+  try {
+    res.status(201).json(await createApiToken(req.user.id, req.body));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.tokens.revoke, async (req, res) => {
+  try {
+    if (!await revokeApiToken(req.user.id, req.params.id)) {
+      return res.status(404).json({ message: 'Token not found' });
+    }
+    res.status(204).send();
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+export default router;
@@ -1,51 +1,39 @@
 import { Router } from 'express';
-import { getWeekStart, getWeekEnd, trackedExecute } from '../db/index.js';
-import type { WorkLogRow, ExpenseRow, GoalRow, WeeklySummary } from '../types.js';
-import { workLogRowToWorkLog, expenseRowToExpense, goalRowToGoal } from '../types.js';
+import { trackedExecute } from '../db/index.js';
+import { getSettings } from '../services/settings.js';
+import { dateInTimezone, weekStartOf, weekEndOf, utcRangeForDates } from '../services/dates.js';
+import { rollOverGoalPeriods } from '../services/goalProgress.js';
+import type { WorkLogRow, ExpenseRow, GoalRow, WeeklyReflectionRow, WeeklySummary } from '../types.js';
+import { workLogRowToWorkLog, expenseRowToExpense, goalRowToGoal, weeklyReflectionRowToWeeklyReflection } from '../types.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes } from '../contracts/index.js';
 
 const router = Router();
 
-/**
- * @swagger
- * /weekly:
- *   get:
- *     summary: Get weekly summary
- *     tags: [Weekly]
- *     parameters:
- *       - in: query
- *         name: weekStart
- *         schema:
- *           type: string
- *           format: date
- *         description: Start date of the week (defaults to current week)
- *     responses:
- *       200:
- *         description: Weekly summary with work logs, expenses, and goals
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/WeeklySummary'
- */
-router.get('/', async (req, res) => {
+addRoute(router, apiRoutes.weekly.getSummary, async (req, res) => {
   try {
-    const weekStart = (req.query.weekStart as string) || getWeekStart();
-    const weekEnd = getWeekEnd(weekStart);
+    const settings = await getSettings(req.user.id);
+    const { timezone } = settings;
+    const today = dateInTimezone(new Date(), timezone);
+    const weekStart = req.query.weekStart || weekStartOf(today, settings.weekStart);
+    const weekEnd = weekEndOf(weekStart);
+    const [rangeStart, rangeEnd] = utcRangeForDates(weekStart, weekEnd, timezone);
 
     // Get work logs for the week
     const workLogsResult = await trackedExecute({
       sql: `SELECT * FROM work_logs 
-            WHERE log_date BETWEEN ? AND ?
+            WHERE user_id = ? AND log_date BETWEEN ? AND ?
             ORDER BY log_date ASC`,
-      args: [weekStart, weekEnd]
+      args: [req.user.id, weekStart, weekEnd]
     }, 'getWeeklyWorkLogs');
     const workLogs = workLogsResult.rows as unknown as WorkLogRow[];
 
     // Get expenses for the week
     const expensesResult = await trackedExecute({
       sql: `SELECT * FROM expenses 
-            WHERE DATE(created_at) BETWEEN ? AND ?
+            WHERE user_id = ? AND datetime(created_at) >= ? AND datetime(created_at) < ?
             ORDER BY created_at DESC`,
-      args: [weekStart, weekEnd]
+      args: [req.user.id, rangeStart, rangeEnd]
     }, 'getWeeklyExpenses');
     const expenses = expensesResult.rows as unknown as ExpenseRow[];
 
@@ -70,10 +58,21 @@ router.get('/', async (req, res) => {
       .filter((l) => l.integrity_score === 0 && l.missed_opportunity_note)
       .map((l) => l.missed_opportunity_note as string);
 
-    // Get goals with progress
-    const goalsResult = await trackedExecute('SELECT * FROM goals WHERE is_active = 1', 'getActiveGoalsForSummary');
+    // Get goals with progress, moved on to their current period first
+    await rollOverGoalPeriods(req.user.id, { today, weekStart: settings.weekStart });
+    const goalsResult = await trackedExecute({
+      sql: 'SELECT * FROM goals WHERE user_id = ? AND is_active = 1',
+      args: [req.user.id]
+    }, 'getActiveGoalsForSummary');
     const goals = goalsResult.rows as unknown as GoalRow[];
 
+    // Get the saved reflection for the week, if any
+    const reflectionResult = await trackedExecute({
+      sql: 'SELECT * FROM weekly_reflections WHERE user_id = ? AND week_start = ?',
+      args: [req.user.id, weekStart]
+    }, 'getWeeklyReflectionForSummary');
+    const reflection = reflectionResult.rows[0] as unknown as WeeklyReflectionRow | undefined;
+
     const summary: WeeklySummary = {
       weekStart,
       weekEnd,
@@ -84,6 +83,7 @@ router.get('/', async (req, res) => {
       integrityRate: Math.round(integrityRate),
       goals: goals.map(goalRowToGoal),
       missedOpportunityNotes,
+      reflection: reflection ? weeklyReflectionRowToWeeklyReflection(reflection) : null,
     };
 
     res.json(summary);
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { trackedExecute } from '../db/index.js';
+import type { WeeklyReflectionRow } from '../types.js';
+import { weeklyReflectionRowToWeeklyReflection } from '../types.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes } from '../contracts/index.js';
+
+const router = Router();
+
+addRoute(router, apiRoutes.weeklyReflections.list, async (req, res) => {
+  try {
+    const { limit = 52 } = req.query;
+    const result = await trackedExecute({
+      sql: `SELECT * FROM weekly_reflections
+            WHERE user_id = ? AND reflection_text IS NOT NULL AND reflection_text != ''
+            ORDER BY week_start DESC LIMIT ?`,
+      args: [req.user.id, limit]
+    }, 'getWeeklyReflectionHistory');
+    const reflections = result.rows as unknown as WeeklyReflectionRow[];
+    res.json(reflections.map(weeklyReflectionRowToWeeklyReflection));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.weeklyReflections.get, async (req, res) => {
+  try {
+    const result = await trackedExecute({
+      sql: 'SELECT * FROM weekly_reflections WHERE user_id = ? AND week_start = ?',
+      args: [req.user.id, req.params.weekStart]
+    }, 'getWeeklyReflection');
+
+    const reflection = result.rows[0] as unknown as WeeklyReflectionRow | undefined;
+    res.json(reflection ? weeklyReflectionRowToWeeklyReflection(reflection) : null);
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+addRoute(router, apiRoutes.weeklyReflections.upsert, async (req, res) => {
+  try {
+    const { weekStart } = req.params;
+    const { reflectionText } = req.body;
+
+    await trackedExecute({
+      sql: `INSERT INTO weekly_reflections (user_id, week_start, reflection_text, updated_at)
+            VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+            ON CONFLICT(user_id, week_start) DO UPDATE SET
+              reflection_text = excluded.reflection_text,
+              updated_at = CURRENT_TIMESTAMP`,
+      args: [req.user.id, weekStart, reflectionText]
+    }, 'upsertWeeklyReflection');
+
+    const result = await trackedExecute({
+      sql: 'SELECT * FROM weekly_reflections WHERE user_id = ? AND week_start = ?',
+      args: [req.user.id, weekStart]
+    }, 'getSavedWeeklyReflection');
+    const reflection = result.rows[0] as unknown as WeeklyReflectionRow;
+    res.json(weeklyReflectionRowToWeeklyReflection(reflection));
+  } catch (err) {
+    res.status(500).json({ message: (err as Error).message });
+  }
+});
+
+export default router;
@@ -1,29 +1,19 @@
 import { Router } from 'express';
-import { getToday, trackedExecute } from '../db/index.js';
+import { trackedExecute } from '../db/index.js';
+import { getToday } from '../services/dates.js';
 import type { WorkLogRow } from '../types.js';
 import { workLogRowToWorkLog } from '../types.js';
+import { addRoute } from '../middleware/route.js';
+import { apiRoutes, validationErrorResponse, MISSED_NOTE_REQUIRED } from '../contracts/index.js';
 
 const router = Router();
 
-/**
- * @swagger
- * /work-logs:
- *   get:
- *     summary: Get all work logs
- *     tags: [Work Logs]
- *     responses:
- *       200:
- *         description: List of work logs
- *         content:
- *           application/json:
- *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/WorkLog'
- */
-router.get('/', async (_req, res) => {
+addRoute(router, apiRoutes.workLogs.list, async (req, res) => {
   try {
-    const result = await trackedExecute('SELECT * FROM work_logs ORDER BY log_date DESC', 'getAllWorkLogs');
+    const result = await trackedExecute({
+      sql: 'SELECT * FROM work_logs WHERE user_id = ? ORDER BY log_date DESC',
+      args: [req.user.id]
+    }, 'getAllWorkLogs');
     const logs = result.rows as unknown as WorkLogRow[];
     res.json(logs.map(workLogRowToWorkLog));
   } catch (err) {
@@ -31,28 +21,12 @@ router.get('/', async (_req, res) => {
   }
 });
 
-/**
- * @swagger
- * /work-logs/today:
- *   get:
- *     summary: Get today's work log
- *     tags: [Work Logs]
- *     responses:
- *       200:
- *         description: Today's work log or null
- *         content:
- *           application/json:
- *             schema:
- *               oneOf:
- *                 - $ref: '#/components/schemas/WorkLog'
- *                 - type: 'null'
- */
-router.get('/today', async (_req, res) => {
+addRoute(router, apiRoutes.workLogs.getToday, async (req, res) => {
   try {
-    const today = getToday();
+    const today = await getToday(req.user.id);
     const result = await trackedExecute({
-      sql: 'SELECT * FROM work_logs WHERE log_date = ?',
-      args: [today]
+      sql: 'SELECT * FROM work_logs WHERE user_id = ? AND log_date = ?',
+      args: [req.user.id, today]
     }, 'getTodayWorkLog');
     
     const log = result.rows[0] as unknown as WorkLogRow | undefined;
@@ -63,11 +37,11 @@ router.get('/today', async (_req, res) => {
 });
 
 // Get work log by date
-router.get('/date/:date', async (req, res) => {
+addRoute(router, apiRoutes.workLogs.getByDate, async (req, res) => {
   try {
     const result = await trackedExecute({
-      sql: 'SELECT * FROM work_logs WHERE log_date = ?',
-      args: [req.params.date]
+      sql: 'SELECT * FROM work_logs WHERE user_id = ? AND log_date = ?',
+      args: [req.user.id, req.params.date]
     }, 'getWorkLogByDate');
     
     const log = result.rows[0] as unknown as WorkLogRow | undefined;
@@ -77,51 +51,15 @@ router.get('/date/:date', async (req, res) => {
   }
 });
 
-/**
- * @swagger
- * /work-logs:
- *   post:
- *     summary: Create or update work log
- *     tags: [Work Logs]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CreateWorkLogRequest'
- *     responses:
- *       201:
- *         description: Work log created
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/WorkLog'
- *       200:
- *         description: Work log updated
- *       400:
- *         description: Integrity score must be 0 or 1. Missed opportunity note required if 0.
- */
-router.post('/', async (req, res) => {
+addRoute(router, apiRoutes.workLogs.save, async (req, res) => {
   try {
     const { logDate, integrityScore, missedOpportunityNote, successNote } = req.body;
-    const date = logDate || getToday();
-
-    // Validate integrity score
-    if (integrityScore !== 0 && integrityScore !== 1) {
-      return res.status(400).json({ message: 'Integrity score must be 0 or 1' });
-    }
-
-    // If score is 0, require missed opportunity note
-    if (integrityScore === 0 && !missedOpportunityNote) {
-      return res.status(400).json({ 
-        message: 'Missed opportunity note is required when integrity score is 0' 
-      });
-    }
+    const date = logDate || await getToday(req.user.id);
 
     // Check if log exists for this date
     const existingResult = await trackedExecute({
-      sql: 'SELECT * FROM work_logs WHERE log_date = ?',
-      args: [date]
+      sql: 'SELECT * FROM work_logs WHERE user_id = ? AND log_date = ?',
+      args: [req.user.id, date]
     }, 'checkWorkLogExists');
     const existing = existingResult.rows[0] as unknown as WorkLogRow | undefined;
 
@@ -129,20 +67,20 @@ router.post('/', async (req, res) => {
       await trackedExecute({
         sql: `UPDATE work_logs 
               SET integrity_score = ?, missed_opportunity_note = ?, success_note = ?
-              WHERE log_date = ?`,
-        args: [integrityScore, missedOpportunityNote || null, successNote || null, date]
+              WHERE user_id = ? AND log_date = ?`,
+        args: [integrityScore, missedOpportunityNote || null, successNote || null, req.user.id, date]
       }, 'updateWorkLog');
     } else {
       await trackedExecute({
-        sql: `INSERT INTO work_logs (log_date, integrity_score, missed_opportunity_note, success_note)
-              VALUES (?, ?, ?, ?)`,
-        args: [date, integrityScore, missedOpportunityNote || null, successNote || null]
+        sql: `INSERT INTO work_logs (user_id, log_date, integrity_score, missed_opportunity_note, success_note)
+              VALUES (?, ?, ?, ?, ?)`,
+        args: [req.user.id, date, integrityScore, missedOpportunityNote || null, successNote || null]
       }, 'createWorkLog');
     }
 
     const logResult = await trackedExecute({
-      sql: 'SELECT * FROM work_logs WHERE log_date = ?',
-      args: [date]
+      sql: 'SELECT * FROM work_logs WHERE user_id = ? AND log_date = ?',
+      args: [req.user.id, date]
     }, 'getCreatedWorkLog');
     const log = logResult.rows[0] as unknown as WorkLogRow;
     res.status(existing ? 200 : 201).json(workLogRowToWorkLog(log));
@@ -152,14 +90,14 @@ router.post('/', async (req, res) => {
 });
 
 // Update work log
-router.patch('/:id', async (req, res) => {
+addRoute(router, apiRoutes.workLogs.update, async (req, res) => {
   try {
     const { id } = req.params;
     const { integrityScore, missedOpportunityNote, successNote } = req.body;
 
     const existingResult = await trackedExecute({
-      sql: 'SELECT * FROM work_logs WHERE id = ?',
-      args: [id]
+      sql: 'SELECT * FROM work_logs WHERE id = ? AND user_id = ?',
+      args: [id, req.user.id]
     }, 'checkWorkLogExistsForUpdate');
     if (existingResult.rows.length === 0) {
       return res.status(404).json({ message: 'Work log not found' });
@@ -171,9 +109,9 @@ router.patch('/:id', async (req, res) => {
     const newNote = missedOpportunityNote ?? existing.missed_opportunity_note;
     
     if (newScore === 0 && !newNote) {
-      return res.status(400).json({ 
-        message: 'Missed opportunity note is required when integrity score is 0' 
-      });
+      return res.status(400).json(validationErrorResponse([
+        { in: 'body', path: 'missedOpportunityNote', message: MISSED_NOTE_REQUIRED },
+      ]));
     }
 
     const updates: string[] = [];
@@ -0,0 +1,88 @@
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { trackedExecute } from '../db/index.js';
+import { hashToken } from './auth.js';
+import type { ApiTokenRow, UserRow, ApiToken, CreatedApiToken } from '../types.js';
+import { apiTokenRowToApiToken } from '../types.js';
+import type { CreateApiTokenRequest } from '../contracts/index.js';
+import { API_TOKEN_PREFIX } from '../contracts/index.js';
+
+// Enough of the token to tell tokens apart in a list, far too little to use
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export async function listApiTokens(userId: string): Promise<ApiToken[]> {
+  const result = await trackedExecute({
+    sql: 'SELECT * FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC, rowid DESC',
+    args: [userId]
+  }, 'getApiTokens');
+  return (result.rows as unknown as ApiTokenRow[]).map(apiTokenRowToApiToken);
+}
+
+export async function createApiToken(userId: string, input: CreateApiTokenRequest): Promise<CreatedApiToken> {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const id = uuidv4();
+
+  await trackedExecute({
+    sql: `INSERT INTO api_tokens (id, user_id, name, token_hash, prefix, scopes, expires_on)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id, userId, input.name, hashToken(token), token.slice(0, DISPLAY_PREFIX_LENGTH),
+      JSON.stringify([...new Set(input.scopes)]), input.expiresOn ?? null,
+    ]
+  }, 'createApiToken');
+
+  const result = await trackedExecute({
+    sql: 'SELECT * FROM api_tokens WHERE id = ?',
+    args: [id]
+  }, 'getCreatedApiToken');
+  return { token, apiToken: apiTokenRowToApiToken(result.rows[0] as unknown as ApiTokenRow) };
+}
+
+// False when the user has no such token
+export async function revokeApiToken(userId: string, id: string): Promise<boolean> {
+  const result = await trackedExecute({
+    sql: `UPDATE api_tokens SET revoked_at = COALESCE(revoked_at, CURRENT_TIMESTAMP)
+          WHERE id = ? AND user_id = ?`,
+    args: [id, userId]
+  }, 'revokeApiToken');
+  return result.rowsAffected > 0;
+}
+
+export interface ApiTokenMatch {
+  user: UserRow;
+  token: ApiTokenRow;
+}
+
+// Resolve a plaintext API token that is neither revoked nor past its last day
+export async function findApiToken(token: string): Promise<ApiTokenMatch | null> {
+  const result = await trackedExecute({
+    sql: `SELECT api_tokens.*, users.email, users.name AS user_name, users.password_hash,
+            users.created_at AS user_created_at
+          FROM api_tokens
+          JOIN users ON users.id = api_tokens.user_id
+          WHERE api_tokens.token_hash = ? AND api_tokens.revoked_at IS NULL
+            AND (api_tokens.expires_on IS NULL OR api_tokens.expires_on >= date('now'))`,
+    args: [hashToken(token)]
+  }, 'findApiToken');
+  const row = result.rows[0] as unknown as
+    (ApiTokenRow & { email: string; user_name: string | null; password_hash: string; user_created_at: string }) | undefined;
+  if (!row) return null;
+
+  // At most one write a minute per token, so busy scripts don't turn every read into a write
+  await trackedExecute({
+    sql: `UPDATE api_tokens SET last_used_at = CURRENT_TIMESTAMP
+          WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-1 minute'))`,
+    args: [row.id]
+  }, 'touchApiToken');
+
+  return {
+    user: {
+      id: row.user_id,
+      email: row.email,
+      name: row.user_name,
+      password_hash: row.password_hash,
+      created_at: row.user_created_at,
+    },
+    token: row,
+  };
+}
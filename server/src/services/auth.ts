@@ -0,0 +1,131 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { InStatement } from '@libsql/client';
+import { v4 as uuidv4 } from 'uuid';
+import { trackedExecute, trackedBatch } from '../db/index.js';
+import type { UserRow, Session } from '../types.js';
+import { userRowToUser } from '../types.js';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SESSION_DAYS = 30;
+const KEY_LENGTH = 64;
+
+// Tables whose rows carry a user_id; everything else hangs off goals or tasks
+export const OWNED_TABLES = [
+  'goals', 'tasks', 'work_logs', 'expenses', 'recurring_expenses',
+  'weekly_reflections', 'expense_import_profiles', 'settings', 'seasons',
+];
+
+// Raised for sign-up and sign-in failures; status is the HTTP status to answer with
+export class AuthError extends Error {
+  constructor(message: string, public status: 401 | 403 | 409) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Stored as "scrypt:<salt>:<key>", both hex
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Compared against when the email is unknown, so both failures take as long
+const DUMMY_HASH = `scrypt:${'0'.repeat(32)}:${'0'.repeat(KEY_LENGTH * 2)}`;
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+async function createSession(user: UserRow): Promise<Session> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  await trackedExecute({
+    sql: 'INSERT INTO sessions (id, user_id, expires_at) VALUES (?, ?, ?)',
+    args: [hashToken(token), user.id, expiresAt]
+  }, 'createSession');
+
+  return { token, expiresAt, user: userRowToUser(user) };
+}
+
+async function findUserByEmail(email: string): Promise<UserRow | null> {
+  const result = await trackedExecute({
+    sql: 'SELECT * FROM users WHERE email = ?',
+    args: [email]
+  }, 'findUserByEmail');
+  return (result.rows[0] as unknown as UserRow | undefined) ?? null;
+}
+
+// The first account may always be created, and adopts any rows stored before
+// accounts existed. Later accounts need ALLOW_SIGNUP=true on the server.
+export async function register(email: string, password: string, name?: string): Promise<Session> {
+  const countResult = await trackedExecute('SELECT COUNT(*) as count FROM users', 'countUsers');
+  const userCount = Number((countResult.rows[0] as unknown as { count: number }).count);
+  if (userCount > 0 && process.env.ALLOW_SIGNUP !== 'true') {
+    throw new AuthError('Sign-ups are closed on this server', 403);
+  }
+  if (await findUserByEmail(email)) {
+    throw new AuthError('An account with this email already exists', 409);
+  }
+
+  const id = uuidv4();
+  const statements: InStatement[] = [{
+    sql: 'INSERT INTO users (id, email, name, password_hash) VALUES (?, ?, ?, ?)',
+    args: [id, email, name || null, await hashPassword(password)]
+  }];
+  // Guarded on the user count inside the batch, so only a genuine first account adopts anything
+  for (const table of OWNED_TABLES) {
+    statements.push({
+      sql: `UPDATE ${table} SET user_id = ? WHERE user_id IS NULL AND (SELECT COUNT(*) FROM users) = 1`,
+      args: [id]
+    });
+  }
+  await trackedBatch(statements, 'registerUser');
+
+  const user = await findUserByEmail(email);
+  return createSession(user!);
+}
+
+export async function login(email: string, password: string): Promise<Session> {
+  const user = await findUserByEmail(email);
+  const valid = await verifyPassword(password, user?.password_hash ?? DUMMY_HASH);
+  if (!user || !valid) {
+    throw new AuthError('Wrong email or password', 401);
+  }
+
+  await trackedExecute({
+    sql: "DELETE FROM sessions WHERE user_id = ? AND expires_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now')",
+    args: [user.id]
+  }, 'deleteExpiredSessions');
+
+  return createSession(user);
+}
+
+// The user behind a bearer token, or null if the token is unknown or expired
+export async function findSessionUser(token: string): Promise<UserRow | null> {
+  const result = await trackedExecute({
+    sql: `SELECT users.* FROM sessions
+          JOIN users ON users.id = sessions.user_id
+          WHERE sessions.id = ? AND sessions.expires_at > strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`,
+    args: [hashToken(token)]
+  }, 'findSessionUser');
+  return (result.rows[0] as unknown as UserRow | undefined) ?? null;
+}
+
+export async function logout(token: string): Promise<void> {
+  await trackedExecute({
+    sql: 'DELETE FROM sessions WHERE id = ?',
+    args: [hashToken(token)]
+  }, 'deleteSession');
+}
@@ -0,0 +1,389 @@
+import type { InStatement, InValue } from '@libsql/client';
+import { trackedExecute, trackedBatch } from '../db/index.js';
+import { latestSchemaVersion } from '../db/migrate.js';
+import { invalidateSettingsCache } from './settings.js';
+import { getCalendarContext } from './dates.js';
+import { recomputeUserGoalsStatements, rollOverGoalPeriods } from './goalProgress.js';
+import type { ImportMode, FieldError } from '../contracts/index.js';
+import { describeFieldErrors } from '../contracts/index.js';
+
+export const BACKUP_FORMAT = 'auditor-backup';
+export const BACKUP_VERSION = 1;
+
+type Row = Record<string, InValue>;
+
+interface BackupTable {
+  table: string;
+  columns: string[];
+  required: string[];
+  // Columns identifying "the same row" when merging into existing data
+  conflictTarget: string[];
+  // SQL giving the owning user of a row: user_id, or the owner of its goal or task.
+  // Owner columns are never exported; restored rows go to whoever imports them.
+  owner: string;
+}
+
+const OWNED = 'user_id';
+const ownedByGoal = (table: string, column: string) =>
+  `(SELECT user_id FROM goals WHERE goals.id = ${table}.${column})`;
+const ownedByTask = (table: string, column: string) =>
+  `(SELECT user_id FROM tasks WHERE tasks.id = ${table}.${column})`;
+const ownedBySeason = (table: string, column: string) =>
+  `(SELECT user_id FROM seasons WHERE seasons.id = ${table}.${column})`;
+
+// Tables in dependency order: parents before children
+const BACKUP_TABLES: BackupTable[] = [
+  {
+    table: 'seasons',
+    columns: ['id', 'name', 'start_date', 'end_date', 'reviewed_at', 'created_at'],
+    required: ['id', 'name', 'start_date', 'end_date'],
+    conflictTarget: ['id'],
+    owner: OWNED,
+  },
+  {
+    table: 'goals',
+    columns: ['id', 'parent_id', 'title', 'goal_type', 'target_value', 'unit', 'current_value', 'total_pages',
+      'current_page', 'frequency_period', 'numeric_mode', 'baseline', 'start_date', 'period_start', 'target_date',
+      'is_active', 'archived_at', 'archive_reason', 'season_id', 'created_at'],
+    required: ['id', 'title'],
+    conflictTarget: ['id'],
+    owner: OWNED,
+  },
+  {
+    table: 'goal_relations',
+    columns: ['id', 'parent_goal_id', 'child_goal_id', 'relation_type', 'weight', 'created_at'],
+    required: ['parent_goal_id', 'child_goal_id'],
+    conflictTarget: ['parent_goal_id', 'child_goal_id'],
+    owner: ownedByGoal('goal_relations', 'parent_goal_id'),
+  },
+  {
+    table: 'goal_logs',
+    columns: ['id', 'goal_id', 'log_date', 'value', 'note', 'created_at'],
+    required: ['goal_id', 'log_date', 'value'],
+    conflictTarget: ['goal_id', 'log_date'],
+    owner: ownedByGoal('goal_logs', 'goal_id'),
+  },
+  {
+    table: 'goal_periods',
+    columns: ['id', 'goal_id', 'period_start', 'period_end', 'target', 'completed', 'met', 'closed_at'],
+    required: ['goal_id', 'period_start', 'period_end', 'target', 'completed', 'met'],
+    conflictTarget: ['goal_id', 'period_start'],
+    owner: ownedByGoal('goal_periods', 'goal_id'),
+  },
+  {
+    table: 'season_scores',
+    columns: ['id', 'season_id', 'goal_id', 'progress_percent', 'score', 'scored_at'],
+    required: ['season_id', 'goal_id', 'progress_percent', 'score'],
+    conflictTarget: ['season_id', 'goal_id'],
+    owner: ownedBySeason('season_scores', 'season_id'),
+  },
+  {
+    table: 'tasks',
+    columns: ['id', 'parent_id', 'title', 'category', 'deadline', 'scheduled_complete_date', 'is_completed', 'created_at'],
+    required: ['id', 'title'],
+    conflictTarget: ['id'],
+    owner: OWNED,
+  },
+  {
+    table: 'subtasks',
+    columns: ['id', 'task_id', 'text', 'completed', 'created_at'],
+    required: ['id', 'task_id', 'text'],
+    conflictTarget: ['id'],
+    owner: ownedByTask('subtasks', 'task_id'),
+  },
+  {
+    table: 'work_logs',
+    columns: ['id', 'log_date', 'integrity_score', 'missed_opportunity_note', 'success_note', 'created_at'],
+    required: ['log_date'],
+    conflictTarget: ['log_date'],
+    owner: OWNED,
+  },
+  {
+    table: 'expenses',
+    columns: ['id', 'amount', 'category', 'note', 'created_at'],
+    required: ['id', 'amount', 'category'],
+    conflictTarget: ['id'],
+    owner: OWNED,
+  },
+  {
+    table: 'recurring_expenses',
+    columns: ['id', 'amount', 'category', 'note', 'recurrence_type', 'recurrence_day', 'is_active',
+      'last_generated_date', 'created_at'],
+    required: ['id', 'amount', 'category', 'recurrence_type', 'recurrence_day'],
+    conflictTarget: ['id'],
+    owner: OWNED,
+  },
+  {
+    table: 'weekly_reflections',
+    columns: ['id', 'week_start', 'reflection_text', 'created_at', 'updated_at'],
+    required: ['week_start'],
+    conflictTarget: ['week_start'],
+    owner: OWNED,
+  },
+  {
+    table: 'expense_import_profiles',
+    columns: ['id', 'bank_name', 'mapping', 'created_at', 'updated_at'],
+    required: ['bank_name', 'mapping'],
+    conflictTarget: ['bank_name'],
+    owner: OWNED,
+  },
+  {
+    table: 'settings',
+    columns: ['key', 'value', 'updated_at'],
+    required: ['key', 'value'],
+    conflictTarget: ['key'],
+    owner: OWNED,
+  },
+];
+
+function specFor(table: string): BackupTable {
+  return BACKUP_TABLES.find(spec => spec.table === table)!;
+}
+
+// References checked before anything is written: [table, column, referenced table]
+const REFERENCES: [string, string, string][] = [
+  ['goals', 'parent_id', 'goals'],
+  ['goal_relations', 'parent_goal_id', 'goals'],
+  ['goal_relations', 'child_goal_id', 'goals'],
+  ['goal_logs', 'goal_id', 'goals'],
+  ['goal_periods', 'goal_id', 'goals'],
+  ['goals', 'season_id', 'seasons'],
+  ['season_scores', 'season_id', 'seasons'],
+  ['season_scores', 'goal_id', 'goals'],
+  ['tasks', 'parent_id', 'tasks'],
+  ['subtasks', 'task_id', 'tasks'],
+];
+
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  data: Record<string, Row[]>;
+}
+
+export interface ImportResult {
+  mode: ImportMode;
+  imported: Record<string, number>;
+}
+
+// Raised for documents that fail validation; nothing has been written
+export class BackupValidationError extends Error {
+  constructor(public errors: FieldError[]) {
+    super(`Backup rejected: ${describeFieldErrors(errors)}`);
+    this.name = 'BackupValidationError';
+  }
+}
+
+function problem(path: string, message: string): FieldError {
+  return { in: 'body', path, message };
+}
+
+// Everything the user owns; other accounts' rows never leave the database
+export async function buildExport(userId: string): Promise<BackupDocument> {
+  const data: Record<string, Row[]> = {};
+  await rollOverGoalPeriods(userId, await getCalendarContext(userId));
+
+  for (const spec of BACKUP_TABLES) {
+    const result = await trackedExecute({
+      sql: `SELECT ${spec.columns.join(', ')} FROM ${spec.table} WHERE ${spec.owner} = ? ORDER BY rowid ASC`,
+      args: [userId]
+    }, `exportTable:${spec.table}`);
+    data[spec.table] = result.rows.map(r => {
+      const row: Row = {};
+      spec.columns.forEach(c => { row[c] = r[c] ?? null; });
+      return row;
+    });
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: latestSchemaVersion(),
+    exportedAt: new Date().toISOString(),
+    data,
+  };
+}
+
+// Collect ids the user already has, for merge-mode reference checks
+async function loadExistingIds(spec: BackupTable, userId: string): Promise<Set<string>> {
+  const result = await trackedExecute({
+    sql: `SELECT id FROM ${spec.table} WHERE ${spec.owner} = ?`,
+    args: [userId]
+  }, `loadExistingIds:${spec.table}`);
+  return new Set(result.rows.map(r => String(r.id)));
+}
+
+// Ids taken by other accounts (or by rows no account has adopted yet)
+async function loadForeignIds(spec: BackupTable, userId: string): Promise<Set<string>> {
+  const result = await trackedExecute({
+    sql: `SELECT id FROM ${spec.table} WHERE ${spec.owner} IS NOT ?`,
+    args: [userId]
+  }, `loadForeignIds:${spec.table}`);
+  return new Set(result.rows.map(r => String(r.id)));
+}
+
+// Whether restored rows keep the id from the document
+function keepsIds(spec: BackupTable, mode: ImportMode): boolean {
+  return spec.columns.includes('id') && (mode === 'replace' || spec.conflictTarget.includes('id'));
+}
+
+function isScalar(value: unknown): value is InValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+// Validate the document shape and referential integrity, returning normalized rows
+async function validateBackup(userId: string, doc: unknown, mode: ImportMode): Promise<Record<string, Row[]>> {
+  const problems: FieldError[] = [];
+
+  if (!doc || typeof doc !== 'object') {
+    throw new BackupValidationError([problem('', 'Must be a backup document')]);
+  }
+  const candidate = doc as Partial<BackupDocument>;
+
+  if (candidate.format !== BACKUP_FORMAT) {
+    problems.push(problem('format', `Must be "${BACKUP_FORMAT}"`));
+  }
+  if (candidate.version !== BACKUP_VERSION) {
+    problems.push(problem('version', `Unsupported backup version ${String(candidate.version)} (expected ${BACKUP_VERSION})`));
+  }
+  if (!candidate.data || typeof candidate.data !== 'object') {
+    problems.push(problem('data', 'Required'));
+  }
+  if (problems.length > 0) {
+    throw new BackupValidationError(problems);
+  }
+
+  const rows: Record<string, Row[]> = {};
+
+  for (const spec of BACKUP_TABLES) {
+    const input = candidate.data![spec.table] ?? [];
+    if (!Array.isArray(input)) {
+      problems.push(problem(`data.${spec.table}`, 'Must be an array'));
+      continue;
+    }
+
+    const seenKeys = new Set<string>();
+    rows[spec.table] = [];
+
+    input.forEach((raw, index) => {
+      if (!raw || typeof raw !== 'object') {
+        problems.push(problem(`data.${spec.table}.${index}`, 'Must be an object'));
+        return;
+      }
+      const source = raw as Record<string, unknown>;
+      const row: Row = {};
+      for (const column of spec.columns) {
+        const value = source[column] ?? null;
+        if (!isScalar(value)) {
+          problems.push(problem(`data.${spec.table}.${index}.${column}`, 'Must be a scalar'));
+          return;
+        }
+        row[column] = value;
+      }
+      for (const column of spec.required) {
+        if (row[column] === null || row[column] === '') {
+          problems.push(problem(`data.${spec.table}.${index}.${column}`, 'Required'));
+          return;
+        }
+      }
+
+      const key = spec.conflictTarget.map(c => String(row[c])).join('|');
+      if (seenKeys.has(key)) {
+        problems.push(problem(`data.${spec.table}.${index}`, `Duplicates ${spec.conflictTarget.join('+')} "${key}"`));
+        return;
+      }
+      seenKeys.add(key);
+      rows[spec.table].push(row);
+    });
+  }
+
+  // Referential integrity: every reference must resolve inside the document,
+  // or (when merging) to a row that already exists
+  const knownIds: Record<string, Set<string>> = {};
+  for (const table of new Set(REFERENCES.map(([, , target]) => target))) {
+    const ids = new Set((rows[table] || []).map(r => String(r.id)));
+    if (mode === 'merge') {
+      (await loadExistingIds(specFor(table), userId)).forEach(id => ids.add(id));
+    }
+    knownIds[table] = ids;
+  }
+
+  for (const [table, column, target] of REFERENCES) {
+    (rows[table] || []).forEach((row, index) => {
+      const ref = row[column];
+      if (ref !== null && !knownIds[target].has(String(ref))) {
+        problems.push(problem(`data.${table}.${index}.${column}`, `References missing ${target} "${String(ref)}"`));
+      }
+    });
+  }
+
+  // Ids are unique across accounts, so a restore must not claim another account's rows
+  for (const spec of BACKUP_TABLES) {
+    if (!keepsIds(spec, mode) || rows[spec.table].length === 0) continue;
+    const foreignIds = await loadForeignIds(spec, userId);
+    rows[spec.table].forEach((row, index) => {
+      if (foreignIds.has(String(row.id))) {
+        problems.push(problem(`data.${spec.table}.${index}.id`, `Id "${String(row.id)}" belongs to another account`));
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new BackupValidationError(problems);
+  }
+
+  return rows;
+}
+
+function buildInsert(spec: BackupTable, row: Row, mode: ImportMode, userId: string): InStatement {
+  // When merging on a natural key, let the target database assign its own ids
+  const columns = keepsIds(spec, mode) || !spec.columns.includes('id')
+    ? spec.columns
+    : spec.columns.filter(c => c !== 'id');
+  const owned = spec.owner === OWNED;
+  const insertColumns = owned ? [...columns, 'user_id'] : columns;
+  const placeholders = insertColumns.map(() => '?').join(', ');
+  let sql = `INSERT INTO ${spec.table} (${insertColumns.join(', ')}) VALUES (${placeholders})`;
+
+  if (mode === 'merge') {
+    // Natural keys are unique per user
+    const conflictTarget = owned && !spec.conflictTarget.includes('id')
+      ? ['user_id', ...spec.conflictTarget]
+      : spec.conflictTarget;
+    const updates = columns
+      .filter(c => c !== 'id' && !spec.conflictTarget.includes(c))
+      .map(c => `${c} = excluded.${c}`);
+    sql += ` ON CONFLICT(${conflictTarget.join(', ')}) DO UPDATE SET ${updates.join(', ')}`;
+  }
+
+  return { sql, args: [...columns.map(c => row[c]), ...(owned ? [userId] : [])] };
+}
+
+// Validate then write everything in a single atomic batch. Only the importing
+// user's data is replaced or merged into.
+export async function restoreBackup(userId: string, doc: unknown, mode: ImportMode): Promise<ImportResult> {
+  const rows = await validateBackup(userId, doc, mode);
+  const statements: InStatement[] = [];
+
+  if (mode === 'replace') {
+    // Children first, while the goals and tasks that decide their owner still exist
+    [...BACKUP_TABLES].reverse().forEach(spec => statements.push({
+      sql: `DELETE FROM ${spec.table} WHERE ${spec.owner} = ?`,
+      args: [userId]
+    }));
+  }
+
+  const imported: Record<string, number> = {};
+  for (const spec of BACKUP_TABLES) {
+    rows[spec.table].forEach(row => statements.push(buildInsert(spec, row, mode, userId)));
+    imported[spec.table] = rows[spec.table].length;
+  }
+  // Goal progress is derived, so it follows the restored logs rather than the backup's copy
+  statements.push(...recomputeUserGoalsStatements(userId, await getCalendarContext(userId)));
+
+  await trackedBatch(statements, 'importBackup');
+  invalidateSettingsCache(userId);
+
+  return { mode, imported };
+}
@@ -0,0 +1,226 @@
+import { trackedExecute } from '../db/index.js';
+import { getSettings } from './settings.js';
+import { dateInTimezone, utcRangeForDates } from './dates.js';
+import type { CsvDateFormat, ExpenseImportMapping, ExpenseImportPreview, ImportPreviewRow } from '../contracts/index.js';
+
+// The route adds the mapping it used
+export type ImportPreview = Omit<ExpenseImportPreview, 'mapping'>;
+
+// Raised when a mapping refers to columns the CSV doesn't have
+export class CsvMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvMappingError';
+  }
+}
+
+// Pick the delimiter that appears most often in the header line
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates
+    .map(d => ({ d, count: headerLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF/LF line endings
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLineEnd = content.search(/\r?\n/);
+  const delimiter = detectDelimiter(firstLineEnd === -1 ? content : content.slice(0, firstLineEnd));
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.length > 0));
+}
+
+// Parse amounts like "1,234.56", "1.234,56", "-12.50", "(12.50)" or "₪ 12"
+export function parseAmount(raw: string): number | null {
+  let value = raw.trim();
+  const negative = /^\(.*\)$/.test(value) || value.includes('-');
+  value = value.replace(/[^\d.,]/g, '');
+  if (!value) return null;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // Comma is the decimal separator unless it looks like a thousands group ("1,234")
+    const decimals = value.length - lastComma - 1;
+    value = decimals === 3 && lastDot === -1
+      ? value.replace(/,/g, '')
+      : value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(value);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+// Normalize a bank date to YYYY-MM-DD
+export function parseDate(raw: string, format: CsvDateFormat): string | null {
+  const parts = raw.trim().split(/[^\d]+/).filter(Boolean).map(Number);
+  if (parts.length < 3) return null;
+
+  let [year, month, day] = [0, 0, 0];
+  if (format === 'YYYY-MM-DD') {
+    [year, month, day] = parts;
+  } else if (format === 'DD/MM/YYYY') {
+    [day, month, year] = parts;
+  } else {
+    [month, day, year] = parts;
+  }
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+function noteTokens(note: string | null): Set<string> {
+  return new Set((note || '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 1));
+}
+
+// Notes are "similar" when either is blank, one contains the other, or they share most words
+export function notesSimilar(a: string | null, b: string | null): boolean {
+  const left = (a || '').trim().toLowerCase();
+  const right = (b || '').trim().toLowerCase();
+  if (!left || !right) return true;
+  if (left.includes(right) || right.includes(left)) return true;
+
+  const tokensA = noteTokens(left);
+  const tokensB = noteTokens(right);
+  const shared = [...tokensA].filter(t => tokensB.has(t)).length;
+  const union = new Set([...tokensA, ...tokensB]).size;
+  return union > 0 && shared / union >= 0.5;
+}
+
+function column(headers: string[], row: string[], name: string | null): string {
+  if (!name) return '';
+  const index = headers.indexOf(name);
+  return index === -1 ? '' : (row[index] ?? '');
+}
+
+// Apply a column mapping to parsed CSV rows and flag likely duplicates of stored expenses
+export async function buildImportPreview(
+  userId: string,
+  csv: string,
+  mapping: ExpenseImportMapping | null
+): Promise<ImportPreview> {
+  const [headers = [], ...dataRows] = parseCsv(csv);
+  if (!mapping) {
+    return { headers, rows: [] };
+  }
+
+  const missing = [mapping.amountColumn, mapping.dateColumn, mapping.noteColumn, mapping.categoryColumn]
+    .filter((c): c is string => !!c && !headers.includes(c));
+  if (missing.length > 0) {
+    throw new CsvMappingError(`Columns not found in CSV: ${missing.join(', ')}`);
+  }
+
+  const rows: ImportPreviewRow[] = dataRows.map((cells, i) => {
+    const rawAmount = parseAmount(column(headers, cells, mapping.amountColumn));
+    const date = parseDate(column(headers, cells, mapping.dateColumn), mapping.dateFormat);
+    const note = column(headers, cells, mapping.noteColumn) || null;
+    const category = column(headers, cells, mapping.categoryColumn) || mapping.defaultCategory;
+
+    const row: ImportPreviewRow = {
+      line: i + 2,
+      amount: null,
+      date,
+      note,
+      category,
+      status: 'new',
+      duplicateOfId: null,
+      error: null,
+    };
+
+    if (rawAmount === null) {
+      return { ...row, status: 'invalid', error: 'Unreadable amount' };
+    }
+    if (!date) {
+      return { ...row, status: 'invalid', error: `Date does not match ${mapping.dateFormat}` };
+    }
+
+    const amount = mapping.expenseSign === 'negative' ? -rawAmount : rawAmount;
+    if (amount <= 0) {
+      return { ...row, amount: Math.abs(amount), status: 'skipped', error: 'Not an expense (income or zero)' };
+    }
+    return { ...row, amount: Math.round(amount * 100) / 100 };
+  });
+
+  await flagDuplicates(userId, rows);
+  return { headers, rows };
+}
+
+// Mark rows matching an existing expense (same amount and day, similar note).
+// Each stored expense can only absorb one imported row.
+async function flagDuplicates(userId: string, rows: ImportPreviewRow[]): Promise<void> {
+  const candidates = rows.filter(r => r.status === 'new');
+  if (candidates.length === 0) return;
+
+  const { timezone } = await getSettings(userId);
+  const dates = candidates.map(r => r.date as string).sort();
+  const result = await trackedExecute({
+    sql: `SELECT id, amount, note, created_at FROM expenses
+          WHERE user_id = ? AND datetime(created_at) >= ? AND datetime(created_at) < ?`,
+    args: [userId, ...utcRangeForDates(dates[0], dates[dates.length - 1], timezone)]
+  }, 'getExpensesForImportDedupe');
+  // Compare on the calendar day the expense fell on for the user
+  const existing = (result.rows as unknown as { id: number; amount: number; note: string | null; created_at: string }[])
+    .map(e => ({ ...e, date: dateInTimezone(new Date(e.created_at), timezone) }));
+  const used = new Set<number>();
+
+  for (const row of candidates) {
+    const match = existing.find(e =>
+      !used.has(e.id) &&
+      e.date === row.date &&
+      Math.abs(e.amount - (row.amount as number)) < 0.005 &&
+      notesSimilar(e.note, row.note)
+    );
+    if (match) {
+      used.add(match.id);
+      row.status = 'duplicate';
+      row.duplicateOfId = match.id;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { getSettings } from './settings.js';
+import type { WeekStartDay } from './settings.js';
+
+// Calendar dates are plain YYYY-MM-DD strings. Arithmetic on them is done in UTC so it
+// never depends on the server's own timezone; only "now" is interpreted in the user's zone.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock parts of an instant in the given zone
+function zonedParts(instant: Date, timezone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timezone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Calendar date (YYYY-MM-DD) of an instant as seen in the given zone
+export function dateInTimezone(instant: Date, timezone: string): string {
+  const { year, month, day } = zonedParts(instant, timezone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+function zoneOffsetMs(instant: Date, timezone: string): number {
+  const p = zonedParts(instant, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The instant at which a wall-clock time on a date occurs in the given zone
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const guess = Date.parse(`${date}T${time}Z`);
+  const offset = zoneOffsetMs(new Date(guess), timezone);
+  // Re-check once: the offset may differ on the other side of a DST change
+  const corrected = zoneOffsetMs(new Date(guess - offset), timezone);
+  return new Date(guess - corrected);
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// 0 = Sunday ... 6 = Saturday
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// First day of the week containing the date
+export function weekStartOf(date: string, weekStart: WeekStartDay): string {
+  const firstDay = weekStart === 'monday' ? 1 : 0;
+  return addDays(date, -((weekdayOf(date) - firstDay + 7) % 7));
+}
+
+export function weekEndOf(weekStart: string): string {
+  return addDays(weekStart, 6);
+}
+
+export function monthStartOf(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+export function daysInMonth(date: string): number {
+  const [year, month] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// SQLite datetime() bounds [start, end) covering local calendar days from..to,
+// for filtering UTC timestamps such as expenses.created_at
+export function utcRangeForDates(from: string, to: string, timezone: string): [string, string] {
+  const toSqlite = (d: Date) => d.toISOString().replace('T', ' ').slice(0, 19);
+  return [
+    toSqlite(zonedTimeToUtc(from, '00:00:00', timezone)),
+    toSqlite(zonedTimeToUtc(addDays(to, 1), '00:00:00', timezone)),
+  ];
+}
+
+// Today's date in the user's timezone
+export async function getToday(userId: string): Promise<string> {
+  const { timezone } = await getSettings(userId);
+  return dateInTimezone(new Date(), timezone);
+}
+
+export interface CalendarContext {
+  today: string;
+  weekStart: WeekStartDay;
+}
+
+// Today plus the week-start preference, for code that works out periods
+export async function getCalendarContext(userId: string): Promise<CalendarContext> {
+  const { timezone, weekStart } = await getSettings(userId);
+  return { today: dateInTimezone(new Date(), timezone), weekStart };
+}
@@ -0,0 +1,25 @@
+import { trackedExecute } from '../db/index.js';
+import type { ExpenseRow } from '../types.js';
+import type { CreateExpenseInput } from '../contracts/index.js';
+
+// Insert an expense that passed createExpenseBody (POST /expenses and the CSV import commit)
+// and return the stored row
+export async function insertExpense(
+  userId: string,
+  input: CreateExpenseInput,
+  purpose = 'createExpense'
+): Promise<ExpenseRow> {
+  // Use provided date or default to now
+  const timestamp = input.createdAt || new Date().toISOString();
+
+  const result = await trackedExecute({
+    sql: 'INSERT INTO expenses (user_id, amount, category, note, created_at) VALUES (?, ?, ?, ?, ?)',
+    args: [userId, input.amount, input.category, input.note || null, timestamp]
+  }, purpose);
+
+  const expenseResult = await trackedExecute({
+    sql: 'SELECT * FROM expenses WHERE id = ?',
+    args: [Number(result.lastInsertRowid)]
+  }, 'getCreatedExpense');
+  return expenseResult.rows[0] as unknown as ExpenseRow;
+}
@@ -0,0 +1,54 @@
+import { trackedExecute } from '../db/index.js';
+import type { GoalRelationRow } from '../types.js';
+
+// Goals form a DAG through goal_relations: a goal may sit under several parents,
+// but never below itself. Archived goals keep their links, so they count here too;
+// restoring one must not be able to close a cycle.
+
+export async function loadGoalRelations(userId: string): Promise<GoalRelationRow[]> {
+  const result = await trackedExecute({
+    sql: `SELECT gr.* FROM goal_relations gr
+          INNER JOIN goals g ON g.id = gr.parent_goal_id
+          WHERE g.user_id = ?
+          ORDER BY gr.created_at ASC, gr.id ASC`,
+    args: [userId]
+  }, 'getGoalRelations');
+  return result.rows as unknown as GoalRelationRow[];
+}
+
+// Goal ids from `from` down to `to` following child links, both ends included,
+// or null when `to` is not below `from`. A goal is its own one-step path.
+function findGoalPath(relations: GoalRelationRow[], from: string, to: string): string[] | null {
+  const children = new Map<string, string[]>();
+  for (const relation of relations) {
+    const list = children.get(relation.parent_goal_id) ?? [];
+    list.push(relation.child_goal_id);
+    children.set(relation.parent_goal_id, list);
+  }
+
+  // Breadth-first, so the path reported is a shortest one
+  const cameFrom = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === to) {
+      const path: string[] = [];
+      for (let step: string | null = id; step !== null; step = cameFrom.get(step)!) path.unshift(step);
+      return path;
+    }
+    for (const child of children.get(id) ?? []) {
+      if (!cameFrom.has(child)) {
+        cameFrom.set(child, id);
+        queue.push(child);
+      }
+    }
+  }
+  return null;
+}
+
+// The cycle that linking parentId -> childId would close, as the goal ids around
+// it starting and ending at the parent, or null when the link is safe
+export function findCycle(relations: GoalRelationRow[], parentId: string, childId: string): string[] | null {
+  const path = findGoalPath(relations, childId, parentId);
+  return path ? [parentId, ...path] : null;
+}
@@ -0,0 +1,75 @@
+import { parseCsv, parseDate } from './csvImport.js';
+import { MAX_BULK_GOAL_LOGS } from '../contracts/index.js';
+import type { BulkGoalLogEntry, FieldError } from '../contracts/index.js';
+
+// Backfilled logs arrive either as JSON entries or as pasted CSV lines of
+// date,value[,note]. A first line naming the columns (date/logDate, value, note)
+// may put them in any order; without one they are read in that order.
+
+const DATE_HEADERS = ['date', 'logdate', 'log_date'];
+
+function csvError(message: string): FieldError {
+  return { in: 'body', path: 'csv', message };
+}
+
+// Entries read from the CSV, or what is wrong with it line by line
+export function parseGoalLogCsv(csv: string): { entries: BulkGoalLogEntry[]; errors: FieldError[] } {
+  const rows = parseCsv(csv);
+  const header = rows[0]?.map(cell => cell.toLowerCase()) ?? [];
+  const hasHeader = header.some(cell => DATE_HEADERS.includes(cell) || cell === 'value');
+
+  let columns = { date: 0, value: 1, note: 2 };
+  if (hasHeader) {
+    columns = {
+      date: header.findIndex(cell => DATE_HEADERS.includes(cell)),
+      value: header.indexOf('value'),
+      note: header.indexOf('note'),
+    };
+    const missing = [columns.date === -1 && 'date', columns.value === -1 && 'value'].filter(Boolean);
+    if (missing.length > 0) {
+      return { entries: [], errors: [csvError(`Columns not found in CSV: ${missing.join(', ')}`)] };
+    }
+  }
+
+  const entries: BulkGoalLogEntry[] = [];
+  const errors: FieldError[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((cells, i) => {
+    const line = i + (hasHeader ? 2 : 1);
+    const logDate = parseDate(cells[columns.date] ?? '', 'YYYY-MM-DD');
+    // Plain numbers only: amount parsing would read "5km" as 5 and "1-2" as 12
+    const rawValue = (cells[columns.value] ?? '').trim();
+    const value = rawValue === '' ? NaN : Number(rawValue);
+    if (!logDate) {
+      errors.push(csvError(`Line ${line}: date must be YYYY-MM-DD`));
+    } else if (!Number.isFinite(value)) {
+      errors.push(csvError(`Line ${line}: value is not a number`));
+    } else {
+      entries.push({ logDate, value, note: (columns.note !== -1 && cells[columns.note]) || null });
+    }
+  });
+
+  if (entries.length === 0 && errors.length === 0) {
+    errors.push(csvError('No entries in CSV'));
+  }
+  return { entries, errors };
+}
+
+// What stops the entries being written together: a day may only be logged once
+// per request, and a request holds at most a year of days
+export function checkBulkGoalLogs(entries: BulkGoalLogEntry[], path: 'entries' | 'csv'): FieldError[] {
+  if (entries.length > MAX_BULK_GOAL_LOGS) {
+    return [{ in: 'body', path, message: `At most ${MAX_BULK_GOAL_LOGS} entries at once` }];
+  }
+
+  const seen = new Set<string>();
+  const errors: FieldError[] = [];
+  entries.forEach((entry, i) => {
+    if (seen.has(entry.logDate)) {
+      errors.push(path === 'entries'
+        ? { in: 'body', path: `entries.${i}.logDate`, message: `${entry.logDate} appears more than once` }
+        : csvError(`${entry.logDate} appears more than once`));
+    }
+    seen.add(entry.logDate);
+  });
+  return errors;
+}
@@ -0,0 +1,250 @@
+import type { InStatement } from '@libsql/client';
+import { trackedExecute, trackedBatch } from '../db/index.js';
+import { addDays, weekStartOf, monthStartOf } from './dates.js';
+import type { CalendarContext } from './dates.js';
+import type { WeekStartDay } from './settings.js';
+import type { GoalRow, GoalLogRow } from '../types.js';
+import type { GoalProgressDrift, FrequencyPeriod } from '../contracts/index.js';
+
+// A goal's current_page (reading) or current_value (frequency, numeric) is derived
+// from its logs and never written any other way:
+// - reading goals take the value of their latest log, or 0
+// - numeric goals take their latest log, or add every log to their baseline when
+//   cumulative; with no logs they sit at the baseline
+// - frequency goals count the logs with value 1 since their period started; archived
+//   ones stay in the period they were archived in, since they no longer roll over
+// Closed periods of frequency goals are archived in goal_periods and kept in
+// step with their logs the same way.
+
+// First day of the period containing the date
+export function periodStartOf(date: string, period: FrequencyPeriod, weekStart: WeekStartDay): string {
+  if (period === 'weekly') return weekStartOf(date, weekStart);
+  if (period === 'monthly') return monthStartOf(date);
+  return date;
+}
+
+function nextPeriodStart(start: string, period: FrequencyPeriod): string {
+  if (period === 'weekly') return addDays(start, 7);
+  if (period === 'monthly') return addDays(start, 31).slice(0, 8) + '01';
+  return addDays(start, 1);
+}
+
+// Last day of the period starting on the date
+export function periodEndOf(start: string, period: FrequencyPeriod): string {
+  return addDays(nextPeriodStart(start, period), -1);
+}
+
+// First day of the frequency goal's current period, relative to the user's today
+export function getFrequencyPeriodStart(goal: GoalRow, calendar: CalendarContext): string {
+  return periodStartOf(calendar.today, goal.frequency_period ?? 'daily', calendar.weekStart);
+}
+
+const LATEST_LOG_VALUE = `(
+      SELECT goal_logs.value FROM goal_logs
+      WHERE goal_logs.goal_id = goals.id
+      ORDER BY goal_logs.log_date DESC, goal_logs.id DESC LIMIT 1
+    )`;
+
+// What the logs say a goal row named `goals` should hold; binds the weekly,
+// monthly and daily period starts, in that order
+const EXPECTED_PROGRESS = `CASE goals.goal_type
+    WHEN 'frequency' THEN (
+      SELECT COUNT(*) FROM goal_logs
+      WHERE goal_logs.goal_id = goals.id AND goal_logs.value = 1
+        AND goal_logs.log_date >= CASE
+          WHEN goals.is_active = 0 AND goals.period_start IS NOT NULL THEN goals.period_start
+          ELSE CASE goals.frequency_period WHEN 'weekly' THEN ? WHEN 'monthly' THEN ? ELSE ? END
+        END
+    )
+    WHEN 'numeric' THEN CASE goals.numeric_mode
+      WHEN 'cumulative' THEN COALESCE(goals.baseline, 0) + (
+        SELECT COALESCE(SUM(goal_logs.value), 0) FROM goal_logs WHERE goal_logs.goal_id = goals.id
+      )
+      ELSE COALESCE(${LATEST_LOG_VALUE}, goals.baseline, 0)
+    END
+    ELSE COALESCE(${LATEST_LOG_VALUE}, 0)
+  END`;
+
+function periodStartArgs(calendar: CalendarContext): string[] {
+  return [weekStartOf(calendar.today, calendar.weekStart), monthStartOf(calendar.today), calendar.today];
+}
+
+// Rewrite the derived progress of every goal matching `where` from its logs
+function recomputeStatement(where: string, whereArgs: string[], calendar: CalendarContext): InStatement {
+  const periodStarts = periodStartArgs(calendar);
+  return {
+    sql: `UPDATE goals SET
+            current_page = CASE WHEN goal_type = 'reading' THEN ${EXPECTED_PROGRESS} ELSE current_page END,
+            current_value = CASE WHEN goal_type = 'reading' THEN current_value ELSE ${EXPECTED_PROGRESS} END
+          WHERE ${where}`,
+    args: [...periodStarts, ...periodStarts, ...whereArgs],
+  };
+}
+
+// Days marked done within an archived period named `goal_periods`
+const PERIOD_COMPLETED = `(
+    SELECT COUNT(*) FROM goal_logs
+    WHERE goal_logs.goal_id = goal_periods.goal_id AND goal_logs.value = 1
+      AND goal_logs.log_date BETWEEN goal_periods.period_start AND goal_periods.period_end
+  )`;
+
+// Logs written into a closed period after the fact update its count; the target
+// stays the one the goal had when the period closed
+function refreshPeriodsStatement(where: string, whereArgs: string[]): InStatement {
+  return {
+    sql: `UPDATE goal_periods SET completed = ${PERIOD_COMPLETED}, met = ${PERIOD_COMPLETED} >= target
+          WHERE ${where}`,
+    args: whereArgs,
+  };
+}
+
+export function recomputeGoalStatements(goalId: string, calendar: CalendarContext): InStatement[] {
+  return [
+    recomputeStatement('id = ?', [goalId], calendar),
+    refreshPeriodsStatement('goal_id = ?', [goalId]),
+  ];
+}
+
+export function recomputeUserGoalsStatements(userId: string, calendar: CalendarContext): InStatement[] {
+  return [
+    recomputeStatement('user_id = ?', [userId], calendar),
+    refreshPeriodsStatement('goal_id IN (SELECT id FROM goals WHERE user_id = ?)', [userId]),
+  ];
+}
+
+// Apply writes to a goal's logs and bring the goal's progress in line with them
+// in one atomic batch, so a failure part-way leaves neither changed
+export async function writeGoalLogs(goalId: string, statements: InStatement[], calendar: CalendarContext): Promise<void> {
+  await trackedBatch([...statements, ...recomputeGoalStatements(goalId, calendar)], 'writeGoalLogs');
+}
+
+// Move active frequency goals whose period has ended on to the current one,
+// archiving each period passed along the way with whether its target was met.
+// Called before goals are read, so counts never carry over from last period.
+// Goals that have never rolled over archive everything since their start date,
+// or since their first log when logs were backfilled to before it; so do goals,
+// archived ones included, that gain a log older than any period they have.
+export async function rollOverGoalPeriods(userId: string, calendar: CalendarContext): Promise<void> {
+  const result = await trackedExecute({
+    sql: `SELECT goals.*,
+            (SELECT MIN(goal_logs.log_date) FROM goal_logs WHERE goal_logs.goal_id = goals.id) AS first_log_date
+          FROM goals
+          WHERE user_id = ? AND goal_type = 'frequency'
+            AND (is_active = 1 AND (period_start IS NULL
+                OR period_start <> CASE frequency_period WHEN 'weekly' THEN ? WHEN 'monthly' THEN ? ELSE ? END)
+              OR EXISTS (
+                SELECT 1 FROM goal_logs
+                WHERE goal_logs.goal_id = goals.id
+                  AND goal_logs.log_date < COALESCE(
+                    (SELECT MIN(goal_periods.period_start) FROM goal_periods WHERE goal_periods.goal_id = goals.id),
+                    goals.period_start)
+              ))`,
+    args: [userId, ...periodStartArgs(calendar)]
+  }, 'findGoalsToRollOver');
+  const goals = result.rows as unknown as (GoalRow & { first_log_date: string | null })[];
+  if (goals.length === 0) return;
+
+  const statements: InStatement[] = [];
+  for (const goal of goals) {
+    const period = goal.frequency_period ?? 'daily';
+    // Archived goals stay in the period they were archived in
+    const current = goal.is_active ? getFrequencyPeriodStart(goal, calendar) : goal.period_start ?? calendar.today;
+    const started = (goal.period_start ?? goal.start_date ?? current).slice(0, 10);
+    const from = goal.first_log_date && goal.first_log_date < started ? goal.first_log_date : started;
+
+    for (let start = periodStartOf(from, period, calendar.weekStart); start < current;) {
+      const end = periodEndOf(start, period);
+      // DO NOTHING keeps a concurrent rollover from archiving a period twice
+      statements.push({
+        sql: `INSERT INTO goal_periods (goal_id, period_start, period_end, target, completed, met)
+              SELECT ?, ?, ?, ?, COUNT(*), COUNT(*) >= ?
+              FROM goal_logs
+              WHERE goal_id = ? AND value = 1 AND log_date BETWEEN ? AND ?
+              ON CONFLICT(goal_id, period_start) DO NOTHING`,
+        args: [goal.id, start, end, goal.target_value, goal.target_value, goal.id, start, end]
+      });
+      start = addDays(end, 1);
+    }
+
+    statements.push({
+      sql: 'UPDATE goals SET period_start = ? WHERE id = ?',
+      args: [current, goal.id]
+    });
+    statements.push(recomputeStatement('id = ?', [goal.id], calendar));
+  }
+
+  await trackedBatch(statements, 'rollOverGoalPeriods');
+}
+
+// Progress as it stood at the end of each day from the first log through `until`,
+// by the same rules as the stored progress. Frequency goals count days done across
+// all periods instead, so differences between two days give the days done between.
+export function progressByDay(goal: GoalRow, logs: GoalLogRow[], until: string): { date: string; value: number }[] {
+  const sorted = logs.filter(l => l.log_date <= until).sort((a, b) => a.log_date.localeCompare(b.log_date));
+  const days: { date: string; value: number }[] = [];
+  if (sorted.length === 0) return days;
+
+  let value = goal.goal_type === 'numeric' ? goal.baseline ?? 0 : 0;
+  let next = 0;
+  for (let date = sorted[0].log_date; date <= until; date = addDays(date, 1)) {
+    for (; next < sorted.length && sorted[next].log_date <= date; next++) {
+      const log = sorted[next];
+      if (goal.goal_type === 'frequency') value += log.value === 1 ? 1 : 0;
+      else if (goal.numeric_mode === 'cumulative') value += log.value;
+      else value = log.value;
+    }
+    days.push({ date, value });
+  }
+  return days;
+}
+
+// The goal with its progress as it stood at the end of the day, by the same rules
+// as the stored progress; a frequency goal counts the period containing the day
+export function goalAsOf(goal: GoalRow, logs: GoalLogRow[], date: string, weekStart: WeekStartDay): GoalRow {
+  if (goal.goal_type === 'frequency') {
+    const periodStart = periodStartOf(date, goal.frequency_period ?? 'daily', weekStart);
+    const done = logs.filter(l => l.value === 1 && l.log_date >= periodStart && l.log_date <= date).length;
+    return { ...goal, current_value: done };
+  }
+
+  const days = progressByDay(goal, logs, date);
+  const value = days.length > 0 ? days[days.length - 1].value : goal.goal_type === 'numeric' ? goal.baseline ?? 0 : 0;
+  return goal.goal_type === 'reading' ? { ...goal, current_page: value } : { ...goal, current_value: value };
+}
+
+// Goals of the user whose stored progress no longer matches their logs
+export async function findProgressDrift(userId: string, calendar: CalendarContext): Promise<{
+  checked: number;
+  drifted: GoalProgressDrift[];
+}> {
+  const result = await trackedExecute({
+    sql: `SELECT goals.id, goals.title, goals.goal_type,
+            CASE goals.goal_type WHEN 'reading' THEN goals.current_page ELSE goals.current_value END AS stored,
+            ${EXPECTED_PROGRESS} AS expected
+          FROM goals
+          WHERE goals.user_id = ?
+          ORDER BY goals.created_at ASC`,
+    args: [...periodStartArgs(calendar), userId]
+  }, 'checkGoalProgress');
+
+  const rows = result.rows as unknown as {
+    id: string;
+    title: string;
+    goal_type: GoalRow['goal_type'];
+    stored: number | null;
+    expected: number;
+  }[];
+
+  const drifted = rows
+    .filter(row => Number(row.stored ?? 0) !== Number(row.expected))
+    .map(row => ({
+      goalId: row.id,
+      title: row.title,
+      goalType: row.goal_type,
+      field: row.goal_type === 'reading' ? 'currentPage' as const : 'currentValue' as const,
+      stored: Number(row.stored ?? 0),
+      expected: Number(row.expected),
+    }));
+
+  return { checked: rows.length, drifted };
+}
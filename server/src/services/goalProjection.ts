@@ -0,0 +1,94 @@
+import { addDays } from './dates.js';
+import type { CalendarContext } from './dates.js';
+import { getFrequencyPeriodStart, periodEndOf, progressByDay } from './goalProgress.js';
+import { goalRowToGoal } from '../types.js';
+import type { GoalRow, GoalLogRow } from '../types.js';
+import { goalProgressScale, daysLeftUntil, requiredPace } from '../contracts/index.js';
+import type { GoalStats, PaceStatus } from '../contracts/index.js';
+
+export const DEFAULT_VELOCITY_WINDOW = 30;
+
+// A velocity within this share of the required pace counts as on track
+const PACE_TOLERANCE = 0.1;
+
+export type GoalProjection = Pick<GoalStats, 'velocity' | 'velocityWindow' | 'estimatedFinishDate' | 'daysRemaining' | 'pace'>;
+
+// Least-squares slope of evenly spaced daily values, or null with fewer than two
+function slopeOf(values: number[]): number | null {
+  const n = values.length;
+  if (n < 2) return null;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((y, x) => {
+    covariance += (x - meanX) * (y - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return covariance / variance;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Velocity over the last `window` days, when the target is reached at that rate,
+// and how that compares with what the deadline asks for
+export function projectGoal(
+  goal: GoalRow,
+  logs: GoalLogRow[],
+  calendar: CalendarContext,
+  window: number
+): GoalProjection {
+  const { today } = calendar;
+  const goalData = goalRowToGoal(goal);
+  const windowStart = addDays(today, 1 - window);
+  const recent = progressByDay(goal, logs, today).filter(day => day.date >= windowStart);
+  const perDay = slopeOf(recent.map(day => day.value));
+
+  const { start, current, target } = goalProgressScale(goalData);
+  const direction = Math.sign(target - start);
+  const remaining = target - current;
+  const reached = remaining * direction <= 0;
+
+  let daysRemaining: number | null = null;
+  if (reached) {
+    daysRemaining = 0;
+  } else if (perDay !== null && Math.sign(perDay) === direction) {
+    daysRemaining = Math.ceil(remaining / perDay);
+  }
+
+  const deadline = goal.goal_type === 'frequency'
+    ? periodEndOf(getFrequencyPeriodStart(goal, calendar), goal.frequency_period ?? 'daily')
+    : goal.target_date?.slice(0, 10) ?? null;
+
+  let pace: GoalProjection['pace'] = null;
+  if (deadline) {
+    const daysLeft = daysLeftUntil(deadline, today);
+    const required = requiredPace(goalData, deadline, today);
+
+    let status: PaceStatus;
+    if (reached) {
+      status = 'ahead';
+    } else if (required === null) {
+      status = 'behind';
+    } else {
+      const ratio = (perDay ?? 0) / required;
+      status = ratio > 1 + PACE_TOLERANCE ? 'ahead' : ratio >= 1 - PACE_TOLERANCE ? 'on_track' : 'behind';
+    }
+
+    pace = {
+      deadline,
+      daysLeft,
+      requiredPerDay: required === null ? null : round2(required),
+      projectedValue: round2(current + (perDay ?? 0) * daysLeft),
+      status,
+    };
+  }
+
+  return {
+    velocity: perDay === null ? null : round2(perDay),
+    velocityWindow: window,
+    estimatedFinishDate: daysRemaining === null ? null : addDays(today, daysRemaining),
+    daysRemaining,
+    pace,
+  };
+}
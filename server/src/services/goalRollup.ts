@@ -0,0 +1,72 @@
+import { trackedExecute } from '../db/index.js';
+import { loadGoalRelations } from './goalGraph.js';
+import { goalRowToGoal, goalRelationRowToGoalRelation } from '../types.js';
+import type { GoalRow, GoalRelationRow } from '../types.js';
+import { goalProgressPercent } from '../contracts/index.js';
+import type { GoalTreeNode } from '../contracts/index.js';
+
+// Progress rolls up a goal hierarchy: a numeric goal with sub-goals is as far along
+// as the weighted average of its sub-goals, each counted by what it rolls up to
+// itself, whatever its type. Other goals keep their own progress even with sub-goals.
+
+// The user's active goals by id, with every link between the user's goals
+export async function loadGoalHierarchy(userId: string): Promise<{
+  goals: Map<string, GoalRow>;
+  relations: GoalRelationRow[];
+}> {
+  const result = await trackedExecute({
+    sql: 'SELECT * FROM goals WHERE user_id = ? AND is_active = 1',
+    args: [userId]
+  }, 'getGoalsForHierarchy');
+  const goals = result.rows as unknown as GoalRow[];
+  return {
+    goals: new Map(goals.map(goal => [goal.id, goal])),
+    relations: await loadGoalRelations(userId),
+  };
+}
+
+// The goal's sub-goal tree among `goals` (the user's active goals, plus the root if
+// archived). Relations may point at goals outside it; those are left out.
+export function buildGoalTree(
+  root: GoalRow,
+  goals: Map<string, GoalRow>,
+  relations: GoalRelationRow[]
+): GoalTreeNode {
+  const children = new Map<string, GoalRelationRow[]>();
+  for (const relation of relations) {
+    if (!goals.has(relation.child_goal_id)) continue;
+    const list = children.get(relation.parent_goal_id) ?? [];
+    list.push(relation);
+    children.set(relation.parent_goal_id, list);
+  }
+
+  // A goal under several parents has the same tree under each, so it is built once
+  const built = new Map<string, Omit<GoalTreeNode, 'weight'>>();
+
+  const build = (goal: GoalRow, path: Set<string>): Omit<GoalTreeNode, 'weight'> => {
+    const cached = built.get(goal.id);
+    if (cached) return cached;
+
+    // Links are kept acyclic when written; the path check only guards against old data
+    const below = new Set(path).add(goal.id);
+    const nodes = (children.get(goal.id) ?? [])
+      .filter(relation => !below.has(relation.child_goal_id))
+      .map(relation => ({
+        ...build(goals.get(relation.child_goal_id)!, below),
+        weight: goalRelationRowToGoalRelation(relation).weight,
+      }));
+
+    const goalData = goalRowToGoal(goal);
+    const progressPercent = goalProgressPercent(goalData);
+    const totalWeight = nodes.reduce((sum, node) => sum + node.weight, 0);
+    const rollupPercent = goal.goal_type === 'numeric' && totalWeight > 0
+      ? Math.round(nodes.reduce((sum, node) => sum + node.rollupPercent * node.weight, 0) / totalWeight)
+      : progressPercent;
+
+    const node = { goal: goalData, progressPercent, rollupPercent, children: nodes };
+    built.set(goal.id, node);
+    return node;
+  };
+
+  return { ...build(root, new Set()), weight: 1 };
+}
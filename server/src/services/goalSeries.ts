@@ -0,0 +1,61 @@
+import { addDays, daysInMonth } from './dates.js';
+import type { CalendarContext } from './dates.js';
+import { periodStartOf, periodEndOf, progressByDay } from './goalProgress.js';
+import { goalRowToGoal } from '../types.js';
+import type { GoalRow, GoalLogRow } from '../types.js';
+import { goalProgressScale } from '../contracts/index.js';
+import type { FrequencyPeriod, GoalSeries, GoalSeriesPoint, GoalSeriesQuery, SeriesBucket } from '../contracts/index.js';
+
+export const MAX_SERIES_BUCKETS = 1000;
+
+// Buckets line up with the frequency periods of the same length
+const BUCKET_PERIODS: Record<SeriesBucket, FrequencyPeriod> = { day: 'daily', week: 'weekly', month: 'monthly' };
+
+// Days in the period (or bucket) starting on the date
+function periodLength(start: string, period: FrequencyPeriod): number {
+  if (period === 'weekly') return 7;
+  if (period === 'monthly') return daysInMonth(start);
+  return 1;
+}
+
+// Progress per bucket between from and to, plus the target to draw it against;
+// null when the range holds more than MAX_SERIES_BUCKETS buckets
+export function buildGoalSeries(
+  goal: GoalRow,
+  logs: GoalLogRow[],
+  calendar: CalendarContext,
+  query: GoalSeriesQuery
+): GoalSeries | null {
+  const bucket = query.bucket ?? 'day';
+  const period = BUCKET_PERIODS[bucket];
+  const to = query.to ?? calendar.today;
+  const firstLog = logs.map(log => log.log_date).sort()[0];
+  const goalStart = goal.start_date.slice(0, 10);
+  const from = query.from ?? (firstLog && firstLog < goalStart ? firstLog : goalStart);
+
+  const starts: string[] = [];
+  let next = periodStartOf(from, period, calendar.weekStart);
+  for (; next <= to; next = addDays(periodEndOf(next, period), 1)) {
+    if (starts.length === MAX_SERIES_BUCKETS) return null;
+    starts.push(next);
+  }
+
+  const progress = new Map(progressByDay(goal, logs, to).map(day => [day.date, day.value]));
+  const { start: baseline, target } = goalProgressScale(goalRowToGoal(goal));
+
+  const points = starts.map((start): GoalSeriesPoint => {
+    const end = periodEndOf(start, period);
+    const last = end < to ? end : to;
+
+    if (goal.goal_type === 'frequency') {
+      // Running count at the end of the bucket less the count before it
+      const goalPeriod = goal.frequency_period ?? 'daily';
+      const done = (progress.get(last) ?? 0) - (progress.get(addDays(start, -1)) ?? 0);
+      const share = periodLength(start, period) / periodLength(start, goalPeriod);
+      return { start, end, value: done, target: Math.round(goal.target_value * share * 10) / 10 };
+    }
+    return { start, end, value: progress.get(last) ?? null, target };
+  });
+
+  return { bucket, from, to, baseline, points };
+}
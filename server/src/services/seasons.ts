@@ -0,0 +1,148 @@
+import { trackedExecute } from '../db/index.js';
+import type { CalendarContext } from './dates.js';
+import { getFrequencyPeriodStart, periodEndOf, goalAsOf } from './goalProgress.js';
+import { buildGoalTree, loadGoalHierarchy } from './goalRollup.js';
+import { goalRowToGoal, seasonRowToSeason, weeklyReflectionRowToWeeklyReflection } from '../types.js';
+import type { GoalRow, GoalLogRow, GoalPeriodRow, SeasonRow, SeasonScoreRow, WeeklyReflectionRow } from '../types.js';
+import type { SeasonGoal, SeasonSummary } from '../contracts/index.js';
+
+// A season's goals are scored from 0 to 1:
+// - frequency goals by the share of their periods overlapping the season that met
+//   the target; the open period counts once it has met it or has ended
+// - other goals by their progress as of the season's last day (today while it runs),
+//   rolled up from their sub-goals' progress as of the same day where they have them
+// - goals archived as completed score 1, whatever their progress
+// Until the season is reviewed the scores are live; reviewing stores them in season_scores.
+
+export const SEASON_SELECT = `SELECT seasons.*,
+    (SELECT COUNT(*) FROM goals WHERE goals.season_id = seasons.id) AS goal_count,
+    (SELECT AVG(score) FROM season_scores WHERE season_scores.season_id = seasons.id) AS score
+  FROM seasons`;
+
+export async function loadSeason(userId: string, id: string): Promise<SeasonRow | null> {
+  const result = await trackedExecute({
+    sql: `${SEASON_SELECT} WHERE seasons.id = ? AND seasons.user_id = ?`,
+    args: [id, userId]
+  }, 'getSeason');
+  return (result.rows[0] as unknown as SeasonRow | undefined) ?? null;
+}
+
+async function loadSeasonGoals(season: SeasonRow): Promise<GoalRow[]> {
+  const result = await trackedExecute({
+    sql: 'SELECT * FROM goals WHERE season_id = ? ORDER BY created_at ASC',
+    args: [season.id]
+  }, 'getSeasonGoals');
+  return result.rows as unknown as GoalRow[];
+}
+
+// Share of the goal's periods overlapping the season that met the target, 0-100
+function periodSuccessPercent(
+  goal: GoalRow,
+  periods: GoalPeriodRow[],
+  season: SeasonRow,
+  calendar: CalendarContext
+): number {
+  const overlapping = periods.filter(p => p.period_start <= season.end_date && p.period_end >= season.start_date);
+  let met = overlapping.filter(p => p.met).length;
+  let counted = overlapping.length;
+
+  if (goal.is_active) {
+    const openStart = getFrequencyPeriodStart(goal, calendar);
+    const openEnd = periodEndOf(openStart, goal.frequency_period ?? 'daily');
+    const openMet = goal.current_value >= goal.target_value;
+    if (openStart <= season.end_date && openEnd >= season.start_date && (openMet || openEnd < calendar.today)) {
+      counted += 1;
+      if (openMet) met += 1;
+    }
+  }
+
+  return counted > 0 ? Math.round((met / counted) * 100) : 0;
+}
+
+// What each of the season's goals would score if it were reviewed now
+export async function scoreSeasonGoals(
+  userId: string,
+  season: SeasonRow,
+  calendar: CalendarContext
+): Promise<{ goal: GoalRow; progressPercent: number; score: number }[]> {
+  const goals = await loadSeasonGoals(season);
+  const { goals: active, relations } = await loadGoalHierarchy(userId);
+
+  const frequencyIds = goals.filter(g => g.goal_type === 'frequency').map(g => g.id);
+  const periodsResult = await trackedExecute({
+    sql: `SELECT * FROM goal_periods WHERE goal_id IN (${frequencyIds.map(() => '?').join(', ') || 'NULL'})`,
+    args: frequencyIds
+  }, 'getSeasonGoalPeriods');
+  const periods = periodsResult.rows as unknown as GoalPeriodRow[];
+
+  // Logs written after the season ends must not change its scores
+  const asOf = season.end_date < calendar.today ? season.end_date : calendar.today;
+  const logsResult = await trackedExecute({
+    sql: `SELECT goal_logs.* FROM goal_logs
+          INNER JOIN goals ON goals.id = goal_logs.goal_id
+          WHERE goals.user_id = ? AND goal_logs.log_date <= ?`,
+    args: [userId, asOf]
+  }, 'getSeasonGoalLogs');
+  const logsByGoal = new Map<string, GoalLogRow[]>();
+  for (const log of logsResult.rows as unknown as GoalLogRow[]) {
+    const list = logsByGoal.get(log.goal_id) ?? [];
+    list.push(log);
+    logsByGoal.set(log.goal_id, list);
+  }
+  const progressAsOf = (goal: GoalRow) => goalAsOf(goal, logsByGoal.get(goal.id) ?? [], asOf, calendar.weekStart);
+  const activeAsOf = new Map([...active].map(([id, goal]) => [id, progressAsOf(goal)]));
+
+  return goals.map(goal => {
+    const progressPercent = goal.goal_type === 'frequency'
+      ? periodSuccessPercent(goal, periods.filter(p => p.goal_id === goal.id), season, calendar)
+      : buildGoalTree(progressAsOf(goal), activeAsOf, relations).rollupPercent;
+    const score = goal.archive_reason === 'completed' ? 1 : progressPercent / 100;
+    return { goal, progressPercent, score };
+  });
+}
+
+// The season with its goals, scored live or as frozen at review, and the weekly
+// reflections written during it
+export async function buildSeasonSummary(
+  userId: string,
+  season: SeasonRow,
+  calendar: CalendarContext
+): Promise<SeasonSummary> {
+  let goals: SeasonGoal[];
+  if (season.reviewed_at) {
+    const result = await trackedExecute({
+      sql: `SELECT goals.*, season_scores.progress_percent, season_scores.score FROM season_scores
+            INNER JOIN goals ON goals.id = season_scores.goal_id
+            WHERE season_scores.season_id = ?`,
+      args: [season.id]
+    }, 'getSeasonScores');
+    const rows = result.rows as unknown as (GoalRow & Pick<SeasonScoreRow, 'progress_percent' | 'score'>)[];
+    goals = rows.map(row => ({
+      goal: goalRowToGoal(row),
+      progressPercent: row.progress_percent,
+      score: row.score,
+    }));
+  } else {
+    goals = (await scoreSeasonGoals(userId, season, calendar)).map(({ goal, progressPercent, score }) => ({
+      goal: goalRowToGoal(goal),
+      progressPercent,
+      score,
+    }));
+  }
+  goals.sort((a, b) => b.score - a.score);
+
+  const reflectionsResult = await trackedExecute({
+    sql: `SELECT * FROM weekly_reflections
+          WHERE user_id = ? AND week_start BETWEEN ? AND ?
+            AND reflection_text IS NOT NULL AND reflection_text != ''
+          ORDER BY week_start ASC`,
+    args: [userId, season.start_date, season.end_date]
+  }, 'getSeasonReflections');
+  const reflections = reflectionsResult.rows as unknown as WeeklyReflectionRow[];
+
+  return {
+    season: seasonRowToSeason(season),
+    goals,
+    reflections: reflections.map(weeklyReflectionRowToWeeklyReflection),
+  };
+}
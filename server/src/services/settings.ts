@@ -0,0 +1,79 @@
+import { trackedExecute } from '../db/index.js';
+import type { WeekStartDay } from '../contracts/index.js';
+import { isValidTimezone, WEEK_START_DAYS } from '../contracts/index.js';
+
+export type { WeekStartDay };
+
+export interface AppSettings {
+  // IANA zone name, e.g. "Asia/Jerusalem"; decides what "today" and "this week" mean
+  timezone: string;
+  // First day of every week-based view and calculation
+  weekStart: WeekStartDay;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  timezone: 'UTC',
+  weekStart: 'sunday',
+};
+
+// Raised for settings values that can't be stored
+export class SettingsValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsValidationError';
+  }
+}
+
+export function isValidWeekStart(value: unknown): value is WeekStartDay {
+  return WEEK_START_DAYS.includes(value as WeekStartDay);
+}
+
+// Settings are read on nearly every request, so keep each user's in memory
+// and only go back to the database after an update
+const cache = new Map<string, AppSettings>();
+
+export async function getSettings(userId: string): Promise<AppSettings> {
+  const cached = cache.get(userId);
+  if (cached) return cached;
+
+  const result = await trackedExecute({
+    sql: 'SELECT key, value FROM settings WHERE user_id = ?',
+    args: [userId]
+  }, 'getSettings');
+  const stored = Object.fromEntries(
+    (result.rows as unknown as { key: string; value: string }[]).map(r => [r.key, r.value])
+  );
+
+  const settings: AppSettings = {
+    timezone: isValidTimezone(stored.timezone) ? stored.timezone : DEFAULT_SETTINGS.timezone,
+    weekStart: isValidWeekStart(stored.weekStart) ? stored.weekStart : DEFAULT_SETTINGS.weekStart,
+  };
+  cache.set(userId, settings);
+  return settings;
+}
+
+export async function updateSettings(userId: string, changes: Partial<AppSettings>): Promise<AppSettings> {
+  if (changes.timezone !== undefined && !isValidTimezone(changes.timezone)) {
+    throw new SettingsValidationError(`Unknown timezone "${String(changes.timezone)}"`);
+  }
+  if (changes.weekStart !== undefined && !isValidWeekStart(changes.weekStart)) {
+    throw new SettingsValidationError('Week start must be sunday or monday');
+  }
+
+  for (const [key, value] of Object.entries(changes)) {
+    if (!(key in DEFAULT_SETTINGS) || value === undefined) continue;
+    await trackedExecute({
+      sql: `INSERT INTO settings (user_id, key, value) VALUES (?, ?, ?)
+            ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP`,
+      args: [userId, key, String(value)]
+    }, 'upsertSetting');
+  }
+
+  cache.delete(userId);
+  return getSettings(userId);
+}
+
+// Forget a user's cached values, e.g. after a backup restore rewrote them
+export function invalidateSettingsCache(userId: string): void {
+  cache.delete(userId);
+}
@@ -1,3 +1,8 @@
+import type {
+  ExpenseImportMapping, SubTask, Task, WorkLog, Expense, RecurringExpense, Goal, GoalLog, GoalPeriod, GoalRelation, Season,
+  WeeklyReflection, ExpenseImportProfile, User, ApiToken, TokenScope,
+} from './contracts/index.js';
+
 // Database row types (snake_case to match SQL)
 export interface TaskRow {
   id: string;
@@ -58,9 +63,15 @@ export interface GoalRow {
   total_pages: number | null;
   current_page: number;
   frequency_period: 'daily' | 'weekly' | 'monthly' | null;
+  numeric_mode: 'latest' | 'cumulative' | null;
+  baseline: number | null;
+  period_start: string | null;
   start_date: string;
   target_date: string | null;
   is_active: number;
+  archived_at: string | null;
+  archive_reason: 'completed' | 'abandoned' | null;
+  season_id: string | null;
   created_at: string;
 }
 
@@ -73,104 +84,90 @@ export interface GoalLogRow {
   created_at: string;
 }
 
-// API response types (camelCase)
-export interface SubTask {
-  id: string;
-  text: string;
-  completed: boolean;
+export interface GoalRelationRow {
+  id: number;
+  parent_goal_id: string;
+  child_goal_id: string;
+  relation_type: string;
+  weight: number | null;
+  created_at: string;
+}
+
+export interface GoalPeriodRow {
+  id: number;
+  goal_id: string;
+  period_start: string;
+  period_end: string;
+  target: number;
+  completed: number;
+  met: number;
+  closed_at: string;
 }
 
-export interface Task {
+// As selected with SEASON_SELECT, which adds the goal count and average score
+export interface SeasonRow {
   id: string;
-  parentId: string | null;
-  title: string;
-  subTasks: SubTask[];
-  category: 'Work' | 'Admin' | 'Personal';
-  deadline: string | null;
-  scheduledCompleteDate: string | null;
-  isCompleted: boolean;
-  createdAt: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  reviewed_at: string | null;
+  created_at: string;
+  goal_count: number;
+  score: number | null;
 }
 
-export interface WorkLog {
+export interface SeasonScoreRow {
   id: number;
-  logDate: string;
-  integrityScore: 0 | 1 | null;
-  missedOpportunityNote: string | null;
-  successNote: string | null;
-  createdAt: string;
+  season_id: string;
+  goal_id: string;
+  progress_percent: number;
+  score: number;
+  scored_at: string;
 }
 
-export interface Expense {
+export interface WeeklyReflectionRow {
   id: number;
-  amount: number;
-  category: string;
-  note: string | null;
-  createdAt: string;
+  week_start: string;
+  reflection_text: string | null;
+  created_at: string;
+  updated_at: string | null;
 }
 
-export interface RecurringExpense {
+export interface ExpenseImportProfileRow {
   id: number;
-  amount: number;
-  category: string;
-  note: string | null;
-  recurrenceType: 'weekly' | 'monthly';
-  recurrenceDay: number;
-  isActive: boolean;
-  lastGeneratedDate: string | null;
-  createdAt: string;
+  bank_name: string;
+  mapping: string;
+  created_at: string;
+  updated_at: string;
 }
 
-export interface Goal {
+export interface UserRow {
   id: string;
-  parentId: string | null;
-  title: string;
-  goalType: 'reading' | 'frequency' | 'numeric';
-  targetValue: number;
-  unit: string;
-  currentValue: number;
-  totalPages: number | null;
-  currentPage: number;
-  frequencyPeriod: 'daily' | 'weekly' | 'monthly' | null;
-  startDate: string;
-  targetDate: string | null;
-  isActive: boolean;
-  createdAt: string;
-}
-
-export interface GoalLog {
-  id: number;
-  goalId: string;
-  logDate: string;
-  value: number;
-  note: string | null;
-  createdAt: string;
+  email: string;
+  name: string | null;
+  password_hash: string;
+  created_at: string;
 }
 
-export interface GoalStats {
-  goal: Goal;
-  logs: GoalLog[];
-  subGoals: Goal[];
-  subGoalsCompleted: number;
-  velocity: number | null;
-  estimatedFinishDate: string | null;
-  daysRemaining: number | null;
-  progressPercent: number;
-  streak: number;
-  periodProgress: { current: number; target: number } | null;
+export interface ApiTokenRow {
+  id: string;
+  user_id: string;
+  name: string;
+  token_hash: string;
+  prefix: string;
+  // JSON array of scopes
+  scopes: string;
+  expires_on: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
 }
 
-export interface WeeklySummary {
-  weekStart: string;
-  weekEnd: string;
-  workLogs: WorkLog[];
-  expenses: Expense[];
-  expensesByCategory: Record<string, number>;
-  totalExpenses: number;
-  integrityRate: number;
-  goals: Goal[];
-  missedOpportunityNotes: string[];
-}
+// API response types (camelCase) are defined by the route contracts
+export type {
+  SubTask, Task, TaskPage, WorkLog, Expense, RecurringExpense, Goal, GoalLog, GoalStats, GoalPeriod,
+  GoalPeriodHistory, WeeklyReflection, ExpenseImportProfile, WeeklySummary, User, Session, ApiToken, CreatedApiToken,
+} from './contracts/index.js';
 
 // Row to API type converters
 export function taskRowToTask(row: TaskRow, subTasks: SubTask[]): Task {
@@ -242,9 +239,16 @@ export function goalRowToGoal(row: GoalRow): Goal {
     totalPages: row.total_pages,
     currentPage: row.current_page,
     frequencyPeriod: row.frequency_period,
+    // Backups from before numeric modes restore numeric goals without one
+    numericMode: row.goal_type === 'numeric' ? row.numeric_mode ?? 'latest' : null,
+    baseline: row.baseline,
+    periodStart: row.period_start,
     startDate: row.start_date,
     targetDate: row.target_date,
     isActive: Boolean(row.is_active),
+    archivedAt: row.archived_at,
+    archiveReason: row.archive_reason,
+    seasonId: row.season_id,
     createdAt: row.created_at,
   };
 }
@@ -260,3 +264,79 @@ export function goalLogRowToGoalLog(row: GoalLogRow): GoalLog {
   };
 }
 
+export function goalRelationRowToGoalRelation(row: GoalRelationRow): GoalRelation {
+  return {
+    id: row.id,
+    parentId: row.parent_goal_id,
+    childId: row.child_goal_id,
+    relationType: row.relation_type,
+    weight: row.weight ?? 1,
+    createdAt: row.created_at,
+  };
+}
+
+export function goalPeriodRowToGoalPeriod(row: GoalPeriodRow): GoalPeriod {
+  return {
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    target: row.target,
+    completed: row.completed,
+    met: Boolean(row.met),
+    closed: true,
+  };
+}
+
+export function seasonRowToSeason(row: SeasonRow): Season {
+  return {
+    id: row.id,
+    name: row.name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    reviewedAt: row.reviewed_at,
+    goalCount: Number(row.goal_count),
+    score: row.score === null ? null : Math.round(row.score * 100) / 100,
+    createdAt: row.created_at,
+  };
+}
+
+export function weeklyReflectionRowToWeeklyReflection(row: WeeklyReflectionRow): WeeklyReflection {
+  return {
+    id: row.id,
+    weekStart: row.week_start,
+    reflectionText: row.reflection_text || '',
+    createdAt: row.created_at,
+    updatedAt: row.updated_at || row.created_at,
+  };
+}
+
+export function expenseImportProfileRowToProfile(row: ExpenseImportProfileRow): ExpenseImportProfile {
+  return {
+    id: row.id,
+    bankName: row.bank_name,
+    mapping: JSON.parse(row.mapping) as ExpenseImportMapping,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function userRowToUser(row: UserRow): User {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    createdAt: row.created_at,
+  };
+}
+
+export function apiTokenRowToApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    scopes: JSON.parse(row.scopes) as TokenScope[],
+    prefix: row.prefix,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    expiresOn: row.expires_on,
+    revokedAt: row.revoked_at,
+  };
+}